@@ -0,0 +1,4 @@
+-- 记录生成音频的真实时长和合成语速
+ALTER TABLE `sys_tts_task`
+  ADD COLUMN `duration_ms` INT NULL COMMENT '音频时长（毫秒）',
+  ADD COLUMN `speed` FLOAT NULL COMMENT '语速倍率，1 为正常语速';
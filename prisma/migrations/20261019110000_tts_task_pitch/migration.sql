@@ -0,0 +1,3 @@
+-- 记录合成音调（VertexAI）
+ALTER TABLE `sys_tts_task`
+  ADD COLUMN `pitch` FLOAT NULL COMMENT '音调，-20.0 ~ 20.0';
@@ -0,0 +1,20 @@
+-- 合成音频缓存：按提供商、模型、语音、规范化文本和合成参数的哈希复用已生成的音频
+CREATE TABLE `sys_tts_audio_cache` (
+  `id` BIGINT NOT NULL AUTO_INCREMENT,
+  `cache_key` CHAR(64) NOT NULL COMMENT '缓存键（SHA-256）',
+  `provider` VARCHAR(40) NOT NULL COMMENT 'TTS 提供商',
+  `model` VARCHAR(80) NOT NULL COMMENT '语音合成模型',
+  `voice_name` VARCHAR(40) NOT NULL COMMENT '语音名称',
+  `text_content` MEDIUMTEXT NOT NULL COMMENT '规范化后的文本',
+  `audio_url` TEXT NOT NULL COMMENT '音频 URL',
+  `duration_ms` INT NULL COMMENT '音频时长（毫秒）',
+  `hit_count` INT NULL DEFAULT 0 COMMENT '命中次数',
+  `create_time` DATETIME(0) NULL DEFAULT CURRENT_TIMESTAMP(0),
+  `update_time` DATETIME(0) NULL DEFAULT CURRENT_TIMESTAMP(0),
+  PRIMARY KEY (`id`),
+  UNIQUE INDEX `uk_cache_key` (`cache_key`)
+) DEFAULT CHARSET = utf8mb4;
+
+-- 记录任务音频是否来自缓存
+ALTER TABLE `sys_tts_task`
+  ADD COLUMN `cache_hit` TINYINT(1) NULL DEFAULT 0 COMMENT '音频是否命中缓存';
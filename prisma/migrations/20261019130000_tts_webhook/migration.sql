@@ -0,0 +1,34 @@
+-- 方案级回调地址（创建任务时传入）
+ALTER TABLE `sys_generate_scheme_manage`
+  ADD COLUMN `tts_callback_url` VARCHAR(500) NULL COMMENT 'TTS 完成回调地址';
+
+-- 用户级回调配置
+CREATE TABLE `sys_tts_webhook` (
+  `id` BIGINT NOT NULL AUTO_INCREMENT,
+  `user_id` INT NOT NULL COMMENT '用户 ID',
+  `callback_url` VARCHAR(500) NOT NULL COMMENT '回调地址',
+  `secret` VARCHAR(64) NOT NULL COMMENT '签名密钥',
+  `enabled` TINYINT(1) NULL DEFAULT 1 COMMENT '是否启用',
+  `create_time` DATETIME(0) NULL DEFAULT CURRENT_TIMESTAMP(0),
+  `update_time` DATETIME(0) NULL DEFAULT CURRENT_TIMESTAMP(0),
+  PRIMARY KEY (`id`),
+  UNIQUE INDEX `uk_user_id` (`user_id`)
+) DEFAULT CHARSET = utf8mb4;
+
+-- 回调投递记录
+CREATE TABLE `sys_tts_webhook_delivery` (
+  `id` BIGINT NOT NULL AUTO_INCREMENT,
+  `scheme_id` BIGINT NOT NULL COMMENT '方案 ID',
+  `callback_url` VARCHAR(500) NOT NULL COMMENT '回调地址',
+  `event` VARCHAR(40) NOT NULL COMMENT '事件类型',
+  `payload` MEDIUMTEXT NOT NULL COMMENT '回调内容（JSON）',
+  `status` TINYINT NULL DEFAULT 0 COMMENT '0 投递中 1 成功 2 失败',
+  `attempts` INT NULL DEFAULT 0 COMMENT '已投递次数',
+  `response_status` INT NULL COMMENT '最近一次响应状态码',
+  `response_body` TEXT NULL COMMENT '最近一次响应内容',
+  `error_log` TEXT NULL COMMENT '最近一次错误信息',
+  `create_time` DATETIME(0) NULL DEFAULT CURRENT_TIMESTAMP(0),
+  `update_time` DATETIME(0) NULL DEFAULT CURRENT_TIMESTAMP(0),
+  PRIMARY KEY (`id`),
+  INDEX `idx_scheme_id` (`scheme_id`)
+) DEFAULT CHARSET = utf8mb4;
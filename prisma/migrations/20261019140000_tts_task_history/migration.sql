@@ -0,0 +1,20 @@
+-- 片段音频历史版本，保留历史模式下被覆盖的音频，可回滚到方案中
+CREATE TABLE `sys_tts_task_history` (
+  `id` BIGINT NOT NULL AUTO_INCREMENT,
+  `task_id` BIGINT NOT NULL COMMENT '生成该版本的任务 ID',
+  `scheme_id` BIGINT NOT NULL COMMENT '方案 ID',
+  `scheme_index` INT NOT NULL COMMENT '方案索引',
+  `segment_key` ENUM('begin', 'middle', 'end') NOT NULL COMMENT '分段 key',
+  `text_content` MEDIUMTEXT NOT NULL COMMENT '文本内容',
+  `audio_url` TEXT NOT NULL COMMENT '音频 URL',
+  `voice_name` VARCHAR(40) NULL COMMENT '语音名称',
+  `tts_model` VARCHAR(40) NULL COMMENT 'TTS 提供商',
+  `language` VARCHAR(20) NULL COMMENT '语言代码',
+  `speed` FLOAT NULL COMMENT '语速倍率',
+  `pitch` FLOAT NULL COMMENT '音调',
+  `duration_ms` INT NULL COMMENT '音频时长（毫秒）',
+  `generate_time` DATETIME(0) NULL COMMENT '音频生成时间',
+  `create_time` DATETIME(0) NULL DEFAULT CURRENT_TIMESTAMP(0) COMMENT '归档时间',
+  PRIMARY KEY (`id`),
+  INDEX `idx_scheme_segment` (`scheme_id`, `scheme_index`, `segment_key`)
+) DEFAULT CHARSET = utf8mb4;
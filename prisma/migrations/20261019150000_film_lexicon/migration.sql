@@ -0,0 +1,15 @@
+-- 影片发音词典，合成旁白前按提供商转换为读音替换、发音字典或 SSML 音标
+CREATE TABLE `sys_film_lexicon` (
+  `id` INT NOT NULL AUTO_INCREMENT,
+  `film_id` INT NOT NULL COMMENT '影片库 ID',
+  `term` VARCHAR(100) NOT NULL COMMENT '词语（角色名、专有名词等）',
+  `respelling` VARCHAR(255) NULL COMMENT '读音替换文本（Gemini 及未配置拼音的 MiniMax 词条）',
+  `phoneme` VARCHAR(255) NULL COMMENT 'SSML 音标（VertexAI）',
+  `alphabet` VARCHAR(20) NULL DEFAULT 'ipa' COMMENT '音标字母表：ipa、x-sampa',
+  `pronunciation` VARCHAR(255) NULL COMMENT 'MiniMax 发音字典读音，如 (yan4)(qing1)',
+  `remark` VARCHAR(255) NULL COMMENT '备注',
+  `create_time` DATETIME(0) NULL DEFAULT CURRENT_TIMESTAMP(0) COMMENT '创建时间',
+  `update_time` DATETIME(0) NULL COMMENT '更新时间',
+  PRIMARY KEY (`id`),
+  UNIQUE INDEX `uk_film_term` (`film_id`, `term`)
+) DEFAULT CHARSET = utf8mb4;
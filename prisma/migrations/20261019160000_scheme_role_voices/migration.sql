@@ -0,0 +1,3 @@
+-- 方案多声音旁白：记录角色与语音的对应关系
+ALTER TABLE `sys_generate_scheme_manage`
+  ADD COLUMN `tts_role_voices` TEXT NULL COMMENT '角色语音映射 JSON：{"provider": 提供商, "voices": {角色名: 语音名称}}';
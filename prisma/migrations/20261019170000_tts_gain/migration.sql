@@ -0,0 +1,9 @@
+-- 音频后处理：记录响度归一化时施加的增益
+ALTER TABLE `sys_tts_task`
+  ADD COLUMN `gain_db` FLOAT NULL COMMENT '响度归一化施加的增益（dB）';
+
+ALTER TABLE `sys_tts_audio_cache`
+  ADD COLUMN `gain_db` FLOAT NULL COMMENT '响度归一化施加的增益（dB）';
+
+ALTER TABLE `sys_tts_task_history`
+  ADD COLUMN `gain_db` FLOAT NULL COMMENT '响度归一化施加的增益（dB）';
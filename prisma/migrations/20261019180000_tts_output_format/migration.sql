@@ -0,0 +1,12 @@
+-- 输出音频格式：按方案选择 wav / mp3 / opus，同时保留 WAV 母版用于拼接和字幕
+ALTER TABLE `sys_generate_scheme_manage`
+  ADD COLUMN `tts_output_format` VARCHAR(10) NULL COMMENT 'TTS 输出音频格式：wav、mp3、opus，为空时为 wav';
+
+ALTER TABLE `sys_tts_task`
+  ADD COLUMN `master_audio_url` TEXT NULL COMMENT 'WAV 母版音频 URL';
+
+ALTER TABLE `sys_tts_task_history`
+  ADD COLUMN `master_audio_url` TEXT NULL COMMENT 'WAV 母版音频 URL';
+
+ALTER TABLE `sys_tts_audio_cache`
+  ADD COLUMN `master_url` TEXT NULL COMMENT 'WAV 母版音频 URL';
@@ -0,0 +1,86 @@
+-- 方案项与片段音频拆分为独立的表，download_content 改为由这两张表生成的只读视图
+CREATE TABLE `sys_scheme_item` (
+  `id` BIGINT NOT NULL AUTO_INCREMENT,
+  `scheme_id` BIGINT NOT NULL COMMENT '方案 ID',
+  `scheme_index` INT NOT NULL COMMENT '方案索引',
+  `scheme_content` MEDIUMTEXT NULL COMMENT '方案内容 JSON',
+  `content_as_string` TINYINT(1) NOT NULL DEFAULT 0 COMMENT 'download_content 中的 schemeContent 是否为 JSON 字符串',
+  `extra_fields` TEXT NULL COMMENT 'download_content 中的其他字段 JSON',
+  `merged_audio_url` TEXT NULL COMMENT 'begin/middle/end 拼接后的完整旁白 URL',
+  `translation_srt_url` TEXT NULL COMMENT '译文 SRT 字幕 URL',
+  `translation_vtt_url` TEXT NULL COMMENT '译文 VTT 字幕 URL',
+  `chinese_narration_srt_url` TEXT NULL COMMENT '中文旁白 SRT 字幕 URL',
+  `chinese_narration_vtt_url` TEXT NULL COMMENT '中文旁白 VTT 字幕 URL',
+  `create_time` DATETIME(0) NULL DEFAULT CURRENT_TIMESTAMP(0) COMMENT '创建时间',
+  `update_time` DATETIME(0) NULL DEFAULT CURRENT_TIMESTAMP(0) COMMENT '更新时间',
+  PRIMARY KEY (`id`),
+  UNIQUE INDEX `uk_scheme_item` (`scheme_id`, `scheme_index`)
+) DEFAULT CHARSET = utf8mb4;
+
+CREATE TABLE `sys_scheme_segment_audio` (
+  `id` BIGINT NOT NULL AUTO_INCREMENT,
+  `scheme_id` BIGINT NOT NULL COMMENT '方案 ID',
+  `scheme_index` INT NOT NULL COMMENT '方案索引',
+  `segment_key` ENUM('begin', 'middle', 'end') NOT NULL COMMENT '分段 key',
+  `audio_url` TEXT NOT NULL COMMENT '音频 URL',
+  `update_time` DATETIME(0) NULL DEFAULT CURRENT_TIMESTAMP(0) COMMENT '更新时间',
+  PRIMARY KEY (`id`),
+  UNIQUE INDEX `uk_scheme_segment_audio` (`scheme_id`, `scheme_index`, `segment_key`)
+) DEFAULT CHARSET = utf8mb4;
+
+-- 从现有的 download_content 回填方案项，schemeContent 为 JSON 字符串时解析后保存
+-- 无效的 download_content 按空数组处理
+INSERT INTO `sys_scheme_item` (
+  `scheme_id`, `scheme_index`, `scheme_content`, `content_as_string`, `extra_fields`,
+  `merged_audio_url`, `translation_srt_url`, `translation_vtt_url`,
+  `chinese_narration_srt_url`, `chinese_narration_vtt_url`
+)
+SELECT
+  s.`id`,
+  jt.`idx` - 1,
+  CASE
+    WHEN JSON_TYPE(jt.`scheme_content`) = 'STRING' THEN
+      IF(JSON_VALID(JSON_UNQUOTE(jt.`scheme_content`)), JSON_UNQUOTE(jt.`scheme_content`), NULL)
+    WHEN JSON_TYPE(jt.`scheme_content`) = 'NULL' THEN NULL
+    ELSE CAST(jt.`scheme_content` AS CHAR)
+  END,
+  IFNULL(JSON_TYPE(jt.`scheme_content`) = 'STRING', 0),
+  CAST(JSON_REMOVE(jt.`item`, '$.schemeContent', '$.audioUrl', '$.mergedAudioUrl', '$.subtitleUrl') AS CHAR),
+  NULLIF(jt.`merged_audio_url`, ''),
+  NULLIF(jt.`translation_srt_url`, ''),
+  NULLIF(jt.`translation_vtt_url`, ''),
+  NULLIF(jt.`chinese_narration_srt_url`, ''),
+  NULLIF(jt.`chinese_narration_vtt_url`, '')
+FROM `sys_generate_scheme_manage` s,
+  JSON_TABLE(CASE WHEN JSON_VALID(s.`download_content`) THEN
+    IF(JSON_TYPE(s.`download_content`) = 'ARRAY', s.`download_content`, '[]')
+  ELSE '[]' END, '$[*]' COLUMNS (
+    `idx` FOR ORDINALITY,
+    `item` JSON PATH '$',
+    `scheme_content` JSON PATH '$.schemeContent',
+    `merged_audio_url` TEXT PATH '$.mergedAudioUrl',
+    `translation_srt_url` TEXT PATH '$.subtitleUrl.translationSrt',
+    `translation_vtt_url` TEXT PATH '$.subtitleUrl.translationVtt',
+    `chinese_narration_srt_url` TEXT PATH '$.subtitleUrl.chineseNarrationSrt',
+    `chinese_narration_vtt_url` TEXT PATH '$.subtitleUrl.chineseNarrationVtt'
+  )) jt;
+
+-- 回填片段音频，空地址不回填
+INSERT INTO `sys_scheme_segment_audio` (`scheme_id`, `scheme_index`, `segment_key`, `audio_url`)
+WITH `segment_urls` AS (
+  SELECT s.`id` AS `scheme_id`, jt.`idx` - 1 AS `scheme_index`, jt.`begin_url`, jt.`middle_url`, jt.`end_url`
+  FROM `sys_generate_scheme_manage` s,
+    JSON_TABLE(CASE WHEN JSON_VALID(s.`download_content`) THEN
+    IF(JSON_TYPE(s.`download_content`) = 'ARRAY', s.`download_content`, '[]')
+  ELSE '[]' END, '$[*]' COLUMNS (
+      `idx` FOR ORDINALITY,
+      `begin_url` TEXT PATH '$.audioUrl.beginAudioUrl',
+      `middle_url` TEXT PATH '$.audioUrl.middleAudioUrl',
+      `end_url` TEXT PATH '$.audioUrl.endAudioUrl'
+    )) jt
+)
+SELECT `scheme_id`, `scheme_index`, 'begin', `begin_url` FROM `segment_urls` WHERE `begin_url` <> ''
+UNION ALL
+SELECT `scheme_id`, `scheme_index`, 'middle', `middle_url` FROM `segment_urls` WHERE `middle_url` <> ''
+UNION ALL
+SELECT `scheme_id`, `scheme_index`, 'end', `end_url` FROM `segment_urls` WHERE `end_url` <> '';
@@ -0,0 +1,3 @@
+-- 方案分布式锁的栅栏令牌：持有过期锁的实例无法覆盖新持有者写入的方案数据
+ALTER TABLE `sys_generate_scheme_manage`
+  ADD COLUMN `tts_lock_fence` BIGINT NULL COMMENT '最近一次写入方案的锁栅栏令牌';
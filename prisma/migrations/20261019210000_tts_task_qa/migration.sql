@@ -0,0 +1,8 @@
+-- 合成音频质检结果：疑似截断、近乎静音或削波的音频标记为 suspicious 并记录原因
+ALTER TABLE `sys_tts_task`
+  ADD COLUMN `qa_status` VARCHAR(16) NULL COMMENT '质检结果：passed / suspicious，未检查时为空',
+  ADD COLUMN `qa_reason` VARCHAR(255) NULL COMMENT '质检未通过的原因';
+
+ALTER TABLE `sys_tts_task_history`
+  ADD COLUMN `qa_status` VARCHAR(16) NULL COMMENT '质检结果：passed / suspicious，未检查时为空',
+  ADD COLUMN `qa_reason` VARCHAR(255) NULL COMMENT '质检未通过的原因';
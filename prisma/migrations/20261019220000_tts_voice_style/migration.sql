@@ -0,0 +1,8 @@
+-- 片段级朗读风格：音量倍率与情绪（语速、音调沿用已有字段）
+ALTER TABLE `sys_tts_task`
+  ADD COLUMN `volume` FLOAT NULL COMMENT '音量倍率，1 为正常音量',
+  ADD COLUMN `emotion` VARCHAR(20) NULL COMMENT '朗读情绪：happy / sad / angry / fearful / disgusted / surprised / neutral';
+
+ALTER TABLE `sys_tts_task_history`
+  ADD COLUMN `volume` FLOAT NULL COMMENT '音量倍率，1 为正常音量',
+  ADD COLUMN `emotion` VARCHAR(20) NULL COMMENT '朗读情绪';
@@ -0,0 +1,10 @@
+-- 配音完成后按成功片段的字符数扣除积分，失败片段不计费
+ALTER TABLE `sys_tts_task`
+  ADD COLUMN `billed_characters` INT NULL COMMENT '已结算的计费字符数，为空表示尚未结算';
+
+-- 已有的成功片段视为已结算，避免上线后首次完成时被重复扣费
+UPDATE `sys_tts_task` SET `billed_characters` = 0 WHERE `status` = 1;
+
+ALTER TABLE `sys_generate_scheme_manage`
+  ADD COLUMN `tts_charged_points` BIGINT NULL COMMENT '配音累计扣除的积分',
+  ADD COLUMN `tts_refunded_points` BIGINT NULL COMMENT '最近一次结算中失败片段退还的积分';
@@ -0,0 +1,9 @@
+-- 创建任务时预扣积分，结算时按实际费用扣除，失败、取消和命中缓存片段的预扣积分退还
+-- 上线前已创建、尚未结算的片段没有预扣积分，结算时不扣费
+UPDATE `sys_generate_scheme_manage` SET `tts_charged_points` = 0 WHERE `tts_charged_points` IS NULL;
+UPDATE `sys_generate_scheme_manage` SET `tts_refunded_points` = 0 WHERE `tts_refunded_points` IS NULL;
+
+ALTER TABLE `sys_generate_scheme_manage`
+  MODIFY COLUMN `tts_charged_points` BIGINT NOT NULL DEFAULT 0 COMMENT '配音累计扣除的积分',
+  MODIFY COLUMN `tts_refunded_points` BIGINT NOT NULL DEFAULT 0 COMMENT '配音累计退还的预扣积分',
+  ADD COLUMN `tts_held_points` BIGINT NOT NULL DEFAULT 0 COMMENT '已预扣尚未结算的积分';
@@ -0,0 +1,5 @@
+-- 片段合成签名：请求的提供商、语音、语言、文本、朗读风格和文本中出现的发音词条的哈希
+-- 降级到其他提供商时仍按请求的参数计算，词典修改后签名变化，片段不再沿用原音频
+-- 已有片段没有签名，按原有字段比较，且只在文本未命中发音词条时沿用
+ALTER TABLE `sys_tts_task`
+  ADD COLUMN `synthesis_key` CHAR(64) NULL COMMENT '合成签名（SHA-256），用于判断重新创建任务时能否沿用音频';
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { validateEnv } from './config/config';
 import { BullModule } from '@nestjs/bullmq';
+import { ScheduleModule } from '@nestjs/schedule';
 import { env } from './config/config';
 import { PrismaModule } from './prisma/prisma.module';
 import { OssModule } from './common/oss/oss.module';
@@ -9,6 +10,7 @@ import { ChatModule } from './modules/chat/chat.module';
 import { MenuModule } from './modules/menu/menu.module';
 import { TtsModule } from './modules/tts/tts.module';
 import { UploadModule } from './modules/upload/upload.module';
+import { FilmLibraryModule } from './modules/film-library/film-library.module';
 
 @Module({
   imports: [
@@ -25,12 +27,14 @@ import { UploadModule } from './modules/upload/upload.module';
       },
     }),
     ConfigModule.forRoot({ isGlobal: true }), // 让 ConfigService 全局可用
+    ScheduleModule.forRoot(), // 定时任务（TTS 任务巡检等）
     PrismaModule,
     OssModule,
     ChatModule,
     MenuModule,
     TtsModule,
     UploadModule,
+    FilmLibraryModule,
   ],
   controllers: [],
   providers: [],
@@ -48,6 +48,206 @@ const envSchema = z.object({
   GCP_PROJECT_ID: z.string().default('dramabyte-474012'),
   GCP_LOCATION: z.string().default('us-central1'),
   GCP_SERVICE_ACCOUNT_PATH: z.string().default('./sa.json'),
+  // TTS 音频拼接配置（毫秒）
+  TTS_SEGMENT_SILENCE_MS: z
+    .string()
+    .regex(/^\d+$/)
+    .default('300')
+    .transform(Number),
+  TTS_ITEM_SILENCE_MS: z
+    .string()
+    .regex(/^\d+$/)
+    .default('1000')
+    .transform(Number),
+  // TTS 提供商降级顺序，逗号分隔，如 gemini,minimax
+  TTS_PROVIDER_FALLBACK: z
+    .string()
+    .default('gemini,minimax,vertexai')
+    .transform((v) =>
+      v
+        .split(',')
+        .map((item) => item.trim().toLowerCase())
+        .filter(Boolean),
+    ),
+  // 旁白时长与目标时长的允许误差（秒）
+  TTS_TIMING_TOLERANCE_SECONDS: z
+    .string()
+    .regex(/^\d+(\.\d+)?$/)
+    .default('2')
+    .transform(Number),
+  // TTS 各提供商限流配置：每分钟请求数（RPM）与最大并发数
+  TTS_GEMINI_RPM: z.string().regex(/^\d+$/).default('10').transform(Number),
+  TTS_GEMINI_CONCURRENCY: z
+    .string()
+    .regex(/^\d+$/)
+    .default('2')
+    .transform(Number),
+  TTS_MINIMAX_RPM: z.string().regex(/^\d+$/).default('20').transform(Number),
+  TTS_MINIMAX_CONCURRENCY: z
+    .string()
+    .regex(/^\d+$/)
+    .default('3')
+    .transform(Number),
+  TTS_VERTEXAI_RPM: z.string().regex(/^\d+$/).default('60').transform(Number),
+  TTS_VERTEXAI_CONCURRENCY: z
+    .string()
+    .regex(/^\d+$/)
+    .default('5')
+    .transform(Number),
+  // 提供商返回 429 且未给出等待时间时的冷却时长（毫秒）
+  TTS_RATE_LIMIT_COOLDOWN_MS: z
+    .string()
+    .regex(/^\d+$/)
+    .default('60000')
+    .transform(Number),
+  // TTS 队列 Worker 并发数，应不小于各提供商并发数之和
+  TTS_WORKER_CONCURRENCY: z
+    .string()
+    .regex(/^\d+$/)
+    .default('10')
+    .transform(Number),
+  // 长文本分块合成时单个任务内的并发请求数
+  TTS_CHUNK_CONCURRENCY: z
+    .string()
+    .regex(/^\d+$/)
+    .default('2')
+    .transform(Number),
+  // TTS 音频后处理：裁剪首尾静音、响度归一化并统一采样率
+  TTS_POSTPROCESS_ENABLED: z
+    .union([z.literal('true'), z.literal('false')])
+    .default('true')
+    .transform((v) => v === 'true'),
+  TTS_OUTPUT_SAMPLE_RATE: z
+    .string()
+    .regex(/^\d+$/)
+    .default('24000')
+    .transform(Number),
+  // 目标综合响度（LUFS）与峰值上限（dBFS），增益受峰值上限约束
+  TTS_TARGET_LOUDNESS_LUFS: z
+    .string()
+    .regex(/^-?\d+(\.\d+)?$/)
+    .default('-16')
+    .transform(Number),
+  TTS_PEAK_CEILING_DB: z
+    .string()
+    .regex(/^-?\d+(\.\d+)?$/)
+    .default('-1')
+    .transform(Number),
+  // 静音阈值（dBFS）与裁剪后首尾保留的余量（毫秒）
+  TTS_TRIM_SILENCE_DB: z
+    .string()
+    .regex(/^-?\d+(\.\d+)?$/)
+    .default('-50')
+    .transform(Number),
+  TTS_TRIM_PADDING_MS: z
+    .string()
+    .regex(/^\d+$/)
+    .default('100')
+    .transform(Number),
+  // 输出音频编码码率（kbps）：MP3 为 LAME 恒定码率，Opus 为目标码率
+  TTS_MP3_BITRATE_KBPS: z
+    .enum(['64', '96', '128', '160', '192', '256', '320'])
+    .default('128')
+    .transform(Number),
+  TTS_OPUS_BITRATE_KBPS: z
+    .string()
+    .regex(/^\d+$/)
+    .default('48')
+    .transform(Number),
+  // 合成音频质检：RMS 下限（dBFS）、削波占比上限、时长比例范围，未通过时是否失败重试
+  TTS_QA_ENABLED: z
+    .union([z.literal('true'), z.literal('false')])
+    .default('true')
+    .transform((v) => v === 'true'),
+  TTS_QA_MIN_RMS_DB: z
+    .string()
+    .regex(/^-?\d+(\.\d+)?$/)
+    .default('-40')
+    .transform(Number),
+  TTS_QA_MAX_CLIPPING_RATIO: z
+    .string()
+    .regex(/^\d+(\.\d+)?$/)
+    .default('0.001')
+    .transform(Number),
+  TTS_QA_MIN_DURATION_RATIO: z
+    .string()
+    .regex(/^\d+(\.\d+)?$/)
+    .default('0.4')
+    .transform(Number),
+  TTS_QA_MAX_DURATION_RATIO: z
+    .string()
+    .regex(/^\d+(\.\d+)?$/)
+    .default('2.5')
+    .transform(Number),
+  TTS_QA_RETRY: z
+    .union([z.literal('true'), z.literal('false')])
+    .default('false')
+    .transform((v) => v === 'true'),
+  // TTS 完成回调：默认签名密钥（用户未配置回调时使用）、最大投递次数和请求超时（毫秒）
+  TTS_WEBHOOK_SECRET: z.string().default(''),
+  TTS_WEBHOOK_MAX_ATTEMPTS: z
+    .string()
+    .regex(/^\d+$/)
+    .default('5')
+    .transform(Number),
+  TTS_WEBHOOK_TIMEOUT_MS: z
+    .string()
+    .regex(/^\d+$/)
+    .default('10000')
+    .transform(Number),
+  // TTS 任务巡检：执行间隔，以及待处理任务在队列中缺失多久后视为丢失（毫秒）
+  TTS_REAPER_INTERVAL_MS: z
+    .string()
+    .regex(/^\d+$/)
+    .default('300000')
+    .transform(Number),
+  TTS_REAPER_TIMEOUT_MS: z
+    .string()
+    .regex(/^\d+$/)
+    .default('600000')
+    .transform(Number),
+  // 方案分布式锁：租约时长（持有期间自动续期）与获取锁的最长等待时间（毫秒）
+  TTS_SCHEME_LOCK_LEASE_MS: z
+    .string()
+    .regex(/^\d+$/)
+    .default('30000')
+    .transform(Number),
+  TTS_SCHEME_LOCK_WAIT_MS: z
+    .string()
+    .regex(/^\d+$/)
+    .default('60000')
+    .transform(Number),
+  // TTS 计费：各提供商每千字符消耗的积分与提供商成本估算（元）
+  TTS_GEMINI_POINTS_PER_1K_CHARS: z
+    .string()
+    .regex(/^\d+(\.\d+)?$/)
+    .default('10')
+    .transform(Number),
+  TTS_GEMINI_COST_PER_1K_CHARS: z
+    .string()
+    .regex(/^\d+(\.\d+)?$/)
+    .default('0.1')
+    .transform(Number),
+  TTS_MINIMAX_POINTS_PER_1K_CHARS: z
+    .string()
+    .regex(/^\d+(\.\d+)?$/)
+    .default('30')
+    .transform(Number),
+  TTS_MINIMAX_COST_PER_1K_CHARS: z
+    .string()
+    .regex(/^\d+(\.\d+)?$/)
+    .default('0.35')
+    .transform(Number),
+  TTS_VERTEXAI_POINTS_PER_1K_CHARS: z
+    .string()
+    .regex(/^\d+(\.\d+)?$/)
+    .default('10')
+    .transform(Number),
+  TTS_VERTEXAI_COST_PER_1K_CHARS: z
+    .string()
+    .regex(/^\d+(\.\d+)?$/)
+    .default('0.12')
+    .transform(Number),
 });
 
 export const validateEnv = () => {
@@ -0,0 +1,41 @@
+/** 各 TTS 提供商使用的语音合成模型 */
+export const TTS_PROVIDER_MODELS: Record<string, string> = {
+  gemini: 'gemini-2.5-flash-preview-tts',
+  minimax: 'speech-2.5-hd-preview',
+  vertexai: 'cloud-text-to-speech-v1',
+};
+
+/**
+ * 各 TTS 提供商单次请求的文本长度上限，超出时分块合成
+ * Gemini、MiniMax 按字符数计；VertexAI 按请求中 text 或 SSML 的 UTF-8 字节数计，
+ * 发音词典生成的 SSML 标签也计入
+ */
+export const TTS_PROVIDER_TEXT_LIMITS: Record<string, number> = {
+  gemini: 3000,
+  minimax: 5000,
+  vertexai: 5000,
+};
+
+/** 可选的朗读情绪，取值与 MiniMax 的 emotion 参数一致 */
+export const TTS_EMOTIONS = [
+  'happy',
+  'sad',
+  'angry',
+  'fearful',
+  'disgusted',
+  'surprised',
+  'neutral',
+] as const;
+
+export type TtsEmotion = (typeof TTS_EMOTIONS)[number];
+
+/** 情绪对应的 Gemini 风格指令 */
+export const GEMINI_EMOTION_STYLES: Record<TtsEmotion, string> = {
+  happy: 'cheerfully',
+  sad: 'sadly',
+  angry: 'angrily',
+  fearful: 'fearfully',
+  disgusted: 'with disgust',
+  surprised: 'with surprise',
+  neutral: 'in a neutral tone',
+};
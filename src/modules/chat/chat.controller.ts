@@ -126,7 +126,13 @@ export class ChatController {
   )
   async handleGenerateVoice(@Body() body: GenerateVoiceRequestDto) {
     try {
-      const { text, voiceName, outputFile = 'out.wav', provider } = body;
+      const {
+        text,
+        voiceName,
+        outputFile = 'out.wav',
+        provider,
+        format = 'wav',
+      } = body;
 
       this.logger.log(
         `文本转语音请求 - 提供商: ${provider}, 语音: ${voiceName}, 文本长度: ${text.length}`,
@@ -137,6 +143,8 @@ export class ChatController {
         voiceName,
         outputFile,
         provider,
+        {},
+        format,
       );
 
       this.logger.log(`文本转语音成功，音频 URL: ${audioUrl}`);
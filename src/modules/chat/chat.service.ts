@@ -7,13 +7,34 @@ import {
 } from '@google-cloud/vertexai';
 import { TextToSpeechClient } from '@google-cloud/text-to-speech';
 import { pcmToWavBuffer } from '../../utils/pcmToWavBuffer';
+import { concatWavBuffers } from '../../utils/concatWavBuffers';
+import { splitTextChunks } from '../../utils/splitTextChunks';
+import {
+  AUDIO_FORMATS,
+  AudioFormat,
+  encodeAudio,
+  withAudioExtension,
+} from '../../utils/encodeAudio';
+import {
+  applyRespelling,
+  buildLexiconSsml,
+  buildMinimaxPronunciationDict,
+  LexiconEntry,
+  matchLexicon,
+} from '../../utils/pronunciationLexicon';
 import { PutObjectCommand } from '@aws-sdk/client-s3';
 import { OssService } from '../../common/oss/oss.service';
 import { env } from '../../config/config';
 import { s3 } from '../../utils/s3';
 import { createVertexAI } from '../../utils/vertexai';
 import * as dayjs from 'dayjs';
-import { MinimaxTTSResponse } from './types';
+import { MinimaxTTSResponse, VoicedSpan, VoiceSynthesisOptions } from './types';
+import { ProviderRateLimitError } from './errors/provider-rate-limit.error';
+import {
+  GEMINI_EMOTION_STYLES,
+  TTS_PROVIDER_MODELS,
+  TTS_PROVIDER_TEXT_LIMITS,
+} from './chat.constants';
 import OpenAI from 'openai';
 import {
   ChatResponseDto,
@@ -407,11 +428,13 @@ export class ChatService {
 
   /**
    * 文本转语音生成服务
-   * 支持多种 TTS 提供商：Gemini TTS、MiniMax TTS
+   * 支持多种 TTS 提供商：Gemini TTS、MiniMax TTS、VertexAI TTS
    * @param text 要合成的文本内容
-   * @param voiceName 语音名称 (Gemini: 'Kore' 等, MiniMax: voice_id)
+   * @param voiceName 语音名称 (Gemini: 'Kore' 等, MiniMax: voice_id, VertexAI: 'en-US-Wavenet-A' 等)
    * @param outputFile 输出文件名
-   * @param provider TTS 提供商 ('gemini' | 'minimax')
+   * @param provider TTS 提供商 ('gemini' | 'minimax' | 'vertexai')
+   * @param options 合成参数（语速等）
+   * @param format 输出音频格式（wav、mp3、opus）
    * @returns 音频文件的访问 URL
    */
   async generateVoiceFromText(
@@ -419,33 +442,299 @@ export class ChatService {
     voiceName = 'Kore',
     outputFile = 'out.wav',
     provider: string = 'gemini',
+    options: VoiceSynthesisOptions = {},
+    format: AudioFormat = 'wav',
   ): Promise<string> {
+    const audioBuffer = await this.synthesizeVoice(
+      text,
+      voiceName,
+      provider,
+      options,
+    );
+    return this.uploadBufferToOss(
+      await encodeAudio(audioBuffer, format),
+      outputFile,
+      format,
+    );
+  }
+
+  /**
+   * 合成语音，返回 WAV 音频数据（不上传）
+   * 文本超过提供商单次请求上限时按句子切分，分块合成后拼接为一个音频
+   * @param text 要合成的文本内容
+   * @param voiceName 语音名称
+   * @param provider TTS 提供商 ('gemini' | 'minimax' | 'vertexai')
+   * @param options 合成参数（语速等）
+   * @returns WAV 音频数据
+   * @throws ProviderRateLimitError 提供商触发限流
+   */
+  async synthesizeVoice(
+    text: string,
+    voiceName = 'Kore',
+    provider: string = 'gemini',
+    options: VoiceSynthesisOptions = {},
+  ): Promise<Buffer> {
     this.logger.log(
       `开始文本转语音，提供商: ${provider}, 文本长度: ${text.length}`,
     );
 
-    if (provider === 'gemini') {
-      return this.generateGeminiVoice(text, voiceName, outputFile);
-    } else if (provider === 'minimax') {
-      return this.generateMinimaxVoice(text, voiceName, outputFile);
+    const chunks = this.splitTextForProvider(text, provider, options.lexicon);
+    if (chunks.length === 1) {
+      return this.synthesizeChunk(chunks[0], voiceName, provider, options);
+    }
+
+    this.logger.log(
+      `文本超出 ${provider} 单次上限，切分为 ${chunks.length} 块`,
+    );
+
+    // 按配置的并发数分块合成，结果按原顺序拼接
+    const buffers: Buffer[] = new Array<Buffer>(chunks.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < chunks.length) {
+        const index = next++;
+        buffers[index] = await this.synthesizeChunk(
+          chunks[index],
+          voiceName,
+          provider,
+          options,
+        );
+      }
+    };
+    await Promise.all(
+      Array.from(
+        { length: Math.min(env.TTS_CHUNK_CONCURRENCY, chunks.length) },
+        worker,
+      ),
+    );
+
+    return concatWavBuffers(buffers);
+  }
+
+  /**
+   * 多声音合成：按片段分别使用不同语音朗读后拼接为一个音频
+   * Gemini 在恰好两个声音且文本未超出单次上限时使用多说话人合成，一次请求完成；其余情况逐段合成
+   * @param spans 按朗读顺序排列的片段
+   * @param provider TTS 提供商
+   * @param options 合成参数（语速、发音词典等）
+   * @returns WAV 音频数据
+   * @throws ProviderRateLimitError 提供商触发限流
+   */
+  async synthesizeMultiVoice(
+    spans: VoicedSpan[],
+    provider: string,
+    options: VoiceSynthesisOptions = {},
+  ): Promise<Buffer> {
+    const voices = [...new Set(spans.map((span) => span.voiceName))];
+    if (voices.length === 1) {
+      return this.synthesizeVoice(
+        spans.map((span) => span.text).join(''),
+        voices[0],
+        provider,
+        { ...options, languageCode: spans[0].languageCode },
+      );
+    }
+
+    const totalLength = spans.reduce((sum, span) => sum + span.text.length, 0);
+    if (
+      provider === 'gemini' &&
+      voices.length === 2 &&
+      totalLength <= TTS_PROVIDER_TEXT_LIMITS.gemini
+    ) {
+      try {
+        return await this.synthesizeGeminiMultiSpeaker(spans, voices, options);
+      } catch (error: any) {
+        throw this.toRateLimitError(provider, error) ?? error;
+      }
+    }
+
+    this.logger.log(
+      `多声音合成，提供商: ${provider}, 声音数: ${voices.length}, 片段数: ${spans.length}`,
+    );
+
+    const buffers: Buffer[] = [];
+    for (const span of spans) {
+      buffers.push(
+        await this.synthesizeVoice(span.text, span.voiceName, provider, {
+          ...options,
+          languageCode: span.languageCode,
+        }),
+      );
+    }
+    return concatWavBuffers(buffers);
+  }
+
+  /**
+   * 使用 Gemini 多说话人 TTS 合成两个声音的对话
+   */
+  private async synthesizeGeminiMultiSpeaker(
+    spans: VoicedSpan[],
+    voices: string[],
+    options: VoiceSynthesisOptions,
+  ): Promise<Buffer> {
+    // 说话人名称只用于对应声音，使用固定标签避免角色名中的特殊字符干扰
+    const speakers = voices.map((_, index) => `Speaker${index + 1}`);
+    const lines = spans.map((span) => {
+      const speaker = speakers[voices.indexOf(span.voiceName)];
+      const text = applyRespelling(span.text, options.lexicon ?? []);
+      return `${speaker}: ${text.replace(/\s+/g, ' ').trim()}`;
+    });
+
+    const style = this.buildGeminiStyle(options);
+    const response = await this.genAI.models.generateContent({
+      model: TTS_PROVIDER_MODELS.gemini,
+      contents: [
+        {
+          parts: [
+            {
+              text: `TTS the following conversation between ${speakers.join(' and ')}${style ? `, spoken ${style}` : ''}:\n${lines.join('\n')}`,
+            },
+          ],
+        },
+      ],
+      config: {
+        responseModalities: ['AUDIO'],
+        speechConfig: {
+          multiSpeakerVoiceConfig: {
+            speakerVoiceConfigs: voices.map((voiceName, index) => ({
+              speaker: speakers[index],
+              voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+            })),
+          },
+        },
+      },
+    });
+
+    const audioData =
+      response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!audioData) {
+      throw new Error('Gemini 多说话人 TTS 未返回音频数据');
+    }
+
+    return pcmToWavBuffer(Buffer.from(audioData, 'base64'));
+  }
+
+  /**
+   * 按提供商单次请求的文本上限切分文本
+   * VertexAI 的上限按字节计，按每块实际提交的 text 或 SSML 计算字节数
+   * @param text 要合成的文本内容
+   * @param provider TTS 提供商
+   * @param lexicon 发音词典，VertexAI 命中词条时改用 SSML，标签计入长度
+   * @returns 文本块，未超限时只有一块
+   */
+  splitTextForProvider(
+    text: string,
+    provider: string,
+    lexicon: LexiconEntry[] = [],
+  ): string[] {
+    const maxLength = TTS_PROVIDER_TEXT_LIMITS[provider];
+    if (!maxLength) return [text];
+    if (provider !== 'vertexai') return splitTextChunks(text, maxLength);
+
+    return splitTextChunks(text, maxLength, (chunk) => {
+      const input = this.buildVertexAIInput(chunk, lexicon);
+      return Buffer.byteLength(input.ssml ?? input.text!);
+    });
+  }
+
+  /**
+   * 构建 VertexAI 的合成输入，文本中出现词典词条时改用 SSML 标注发音
+   */
+  private buildVertexAIInput(
+    text: string,
+    lexicon: LexiconEntry[],
+  ): { text?: string; ssml?: string } {
+    const matched = matchLexicon(text, lexicon);
+    return matched.length
+      ? { ssml: buildLexiconSsml(text, matched) }
+      : { text };
+  }
+
+  /**
+   * 调用提供商合成单个文本块
+   */
+  private async synthesizeChunk(
+    text: string,
+    voiceName: string,
+    provider: string,
+    options: VoiceSynthesisOptions,
+  ): Promise<Buffer> {
+    try {
+      if (provider === 'gemini') {
+        return await this.synthesizeGeminiVoice(text, voiceName, options);
+      } else if (provider === 'minimax') {
+        return await this.synthesizeMinimaxVoice(text, voiceName, options);
+      } else if (provider === 'vertexai') {
+        return await this.synthesizeVertexAIVoice(text, voiceName, options);
+      }
+    } catch (error: any) {
+      throw this.toRateLimitError(provider, error) ?? error;
     }
 
     throw new BadRequestException(
-      `不支持的 TTS 提供商: ${provider}，支持的提供商: gemini, minimax`,
+      `不支持的 TTS 提供商: ${provider}，支持的提供商: gemini, minimax, vertexai`,
     );
   }
 
+  /**
+   * 识别提供商 SDK 抛出的限流错误
+   * Gemini 返回 HTTP 429 并在错误详情中给出 retryDelay，VertexAI 返回 gRPC RESOURCE_EXHAUSTED
+   * @returns 限流错误，非限流错误返回 null
+   */
+  private toRateLimitError(
+    provider: string,
+    error: any,
+  ): ProviderRateLimitError | null {
+    if (error instanceof ProviderRateLimitError) return error;
+
+    if (error?.status === 429 || error?.code === 8) {
+      const message = String(error?.message ?? error);
+      const retryDelay = /"retryDelay":\s*"(\d+(?:\.\d+)?)s"/.exec(message);
+      return new ProviderRateLimitError(
+        provider,
+        retryDelay ? Math.ceil(Number(retryDelay[1]) * 1000) : undefined,
+        `${provider} 触发限流: ${message}`,
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Gemini 没有语速、音调等参数，将情绪、语速、音调和音量转为自然语言风格指令
+   * @returns 风格描述，如 `cheerfully, slightly faster`，未设置时返回 null
+   */
+  private buildGeminiStyle(options: VoiceSynthesisOptions): string | null {
+    const { emotion, speed, pitch, volume } = options;
+    const styles = [
+      emotion ? GEMINI_EMOTION_STYLES[emotion] : null,
+      speed && speed !== 1
+        ? speed > 1
+          ? 'slightly faster'
+          : 'slightly slower'
+        : null,
+      pitch ? (pitch > 0 ? 'with a higher pitch' : 'with a lower pitch') : null,
+      volume && volume !== 1 ? (volume > 1 ? 'loudly' : 'softly') : null,
+    ].filter(Boolean);
+    return styles.length ? styles.join(', ') : null;
+  }
+
   /**
    * 使用 Gemini TTS 生成语音
    */
-  private async generateGeminiVoice(
+  private async synthesizeGeminiVoice(
     text: string,
     voiceName: string,
-    outputFile: string,
-  ): Promise<string> {
+    options: VoiceSynthesisOptions,
+  ): Promise<Buffer> {
+    // Gemini 不支持音标标注，词典词条替换为读音相近的文本
+    const respelled = applyRespelling(text, options.lexicon ?? []);
+    const style = this.buildGeminiStyle(options);
+    const input = style ? `Say ${style}: ${respelled}` : respelled;
+
     const response = await this.genAI.models.generateContent({
-      model: 'gemini-2.5-flash-preview-tts',
-      contents: [{ parts: [{ text }] }],
+      model: TTS_PROVIDER_MODELS.gemini,
+      contents: [{ parts: [{ text: input }] }],
       config: {
         responseModalities: ['AUDIO'],
         speechConfig: {
@@ -461,21 +750,27 @@ export class ChatService {
     }
 
     const pcmBuffer = Buffer.from(audioData, 'base64');
-    const wavBuffer = await pcmToWavBuffer(pcmBuffer);
-
-    return this.uploadBufferToOss(wavBuffer, outputFile);
+    return pcmToWavBuffer(pcmBuffer);
   }
 
   /**
    * 使用 MiniMax TTS 生成语音
    */
-  private async generateMinimaxVoice(
+  private async synthesizeMinimaxVoice(
     text: string,
     voiceName: string,
-    outputFile: string,
-  ): Promise<string> {
+    options: VoiceSynthesisOptions,
+  ): Promise<Buffer> {
     const url = `https://api-bj.minimaxi.com/v1/t2a_v2?GroupId=${this.miniMaxGroupId}`;
 
+    // 有拼音的词条走发音字典，其余词条替换为读音文本
+    const lexicon = options.lexicon ?? [];
+    const tone = buildMinimaxPronunciationDict(text, lexicon);
+    const input = applyRespelling(
+      text,
+      lexicon.filter((entry) => !entry.pronunciation),
+    );
+
     const response = await fetch(url, {
       method: 'POST',
       headers: {
@@ -483,14 +778,16 @@ export class ChatService {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        model: 'speech-2.5-hd-preview',
-        text,
+        model: TTS_PROVIDER_MODELS.minimax,
+        text: input,
         stream: false,
         voice_setting: {
           voice_id: voiceName,
-          speed: 1,
-          vol: 1,
-          pitch: 0,
+          speed: options.speed ?? 1,
+          // vol 取值 (0, 10]，pitch 为 -12 ~ 12 的整数
+          vol: Math.min(Math.max(options.volume ?? 1, 0.01), 10),
+          pitch: Math.round(Math.min(Math.max(options.pitch ?? 0, -12), 12)),
+          ...(options.emotion ? { emotion: options.emotion } : {}),
         },
         audio_setting: {
           sample_rate: 32000,
@@ -498,33 +795,55 @@ export class ChatService {
           format: 'wav',
           channel: 1,
         },
+        ...(tone.length ? { pronunciation_dict: { tone } } : {}),
       }),
     });
 
+    if (response.status === 429) {
+      const retryAfter = Number(response.headers.get('retry-after'));
+      throw new ProviderRateLimitError(
+        'minimax',
+        retryAfter > 0 ? retryAfter * 1000 : undefined,
+      );
+    }
+
     const data = (await response.json()) as MinimaxTTSResponse;
 
+    // 1002: 触发 RPM 限流，1039: 触发 TPM 限流
+    if ([1002, 1039].includes(data.base_resp.status_code)) {
+      throw new ProviderRateLimitError(
+        'minimax',
+        undefined,
+        `MiniMax TTS 限流: ${data.base_resp.status_msg}`,
+      );
+    }
+
     if (data.base_resp.status_code !== 0) {
       throw new Error(`MiniMax TTS 错误: ${data.base_resp.status_msg}`);
     }
 
-    const audioBuffer = Buffer.from(data.data.audio, 'hex');
-    return this.uploadBufferToOss(audioBuffer, outputFile);
+    return Buffer.from(data.data.audio, 'hex');
   }
 
   /**
    * 上传 Buffer 到 OSS，按日期文件夹存储
+   * 文件扩展名和 Content-Type 按音频格式设置
+   * @param audioBuffer 已编码为对应格式的音频数据
+   * @param fileName 文件名
+   * @param format 音频格式
    */
-  private async uploadBufferToOss(
+  async uploadBufferToOss(
     audioBuffer: Buffer,
     fileName: string,
+    format: AudioFormat = 'wav',
   ): Promise<string> {
     const currentDate = dayjs().format('YYYY-MM-DD');
-    const ossKey = `audio/${currentDate}/${fileName}`;
+    const ossKey = `audio/${currentDate}/${withAudioExtension(fileName, format)}`;
 
     const result = await this.ossService.uploadBuffer(
       audioBuffer,
       ossKey,
-      'audio/wav',
+      AUDIO_FORMATS[format].contentType,
     );
 
     return result.url;
@@ -1122,33 +1441,11 @@ export class ChatService {
         `开始 VertexAI TTS 语音合成，文本长度: ${text.length}, 语音: ${voiceName}`,
       );
 
-      // 构建语音合成请求
-      const ttsRequest = {
-        input: { text },
-        voice: {
-          languageCode,
-          name: voiceName,
-        },
-        audioConfig: {
-          audioEncoding: 'LINEAR16' as const,
-          speakingRate,
-          pitch,
-          sampleRateHertz: 24000,
-        },
-      };
-
-      // 调用 VertexAI Text-to-Speech API
-      const [response] = await this.ttsClient.synthesizeSpeech(ttsRequest);
-
-      if (!response.audioContent) {
-        throw new Error('VertexAI TTS 未返回音频数据');
-      }
-
-      // 将音频内容转换为 Buffer
-      const audioBuffer = Buffer.from(
-        response.audioContent as string,
-        'base64',
-      );
+      const audioBuffer = await this.synthesizeVertexAIVoice(text, voiceName, {
+        languageCode,
+        speed: speakingRate,
+        pitch,
+      });
 
       // 上传到 OSS
       const audioUrl = await this.uploadBufferToOss(audioBuffer, outputFile);
@@ -1195,6 +1492,67 @@ export class ChatService {
     }
   }
 
+  /**
+   * 使用 VertexAI Text-to-Speech 合成语音
+   * LINEAR16 编码返回的音频内容自带 WAV 文件头
+   */
+  private async synthesizeVertexAIVoice(
+    text: string,
+    voiceName: string,
+    options: VoiceSynthesisOptions,
+  ): Promise<Buffer> {
+    const languageCode =
+      options.languageCode ??
+      this.findVertexAIVoice(voiceName)?.languageCode ??
+      'zh-CN';
+
+    // 构建语音合成请求，文本中出现词典词条时改用 SSML 标注发音
+    const ttsRequest = {
+      input: this.buildVertexAIInput(text, options.lexicon ?? []),
+      voice: {
+        languageCode,
+        name: voiceName,
+      },
+      audioConfig: {
+        audioEncoding: 'LINEAR16' as const,
+        speakingRate: options.speed ?? 1.0,
+        pitch: options.pitch ?? 0.0,
+        // 音量倍率换算为增益，VertexAI 允许 -96 ~ 16 dB
+        volumeGainDb: options.volume
+          ? Math.min(Math.max(20 * Math.log10(options.volume), -96), 16)
+          : 0,
+        sampleRateHertz: 24000,
+      },
+    };
+
+    // 调用 VertexAI Text-to-Speech API
+    const [response] = await this.ttsClient.synthesizeSpeech(ttsRequest);
+
+    if (!response.audioContent) {
+      throw new Error('VertexAI TTS 未返回音频数据');
+    }
+
+    // 将音频内容转换为 Buffer
+    return Buffer.from(response.audioContent as string, 'base64');
+  }
+
+  /**
+   * 在 VertexAI 语音列表中查找语音
+   * @param voiceName 语音名称
+   * @returns 语音名称及其语言代码，不存在时返回 null
+   */
+  findVertexAIVoice(
+    voiceName: string,
+  ): { name: string; languageCode: string } | null {
+    for (const group of Object.values(this.getVertexAIVoices())) {
+      const voices = [...group.standard, ...group.wavenet];
+      if (voices.some((voice) => voice.name === voiceName)) {
+        return { name: voiceName, languageCode: group.languageCode };
+      }
+    }
+    return null;
+  }
+
   /**
    * 上传 Buffer 到 S3，按日期文件夹存储
    * @deprecated 当前项目主要使用 OSS，保留此方法以备不时之需
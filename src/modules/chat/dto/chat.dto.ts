@@ -1,6 +1,7 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { IsIn, IsNotEmpty, IsOptional, IsString } from 'class-validator';
 import { Transform } from 'class-transformer';
+import { AUDIO_FORMATS, AudioFormat } from '../../../utils/encodeAudio';
 
 /**
  * 普通聊天请求dto
@@ -62,12 +63,24 @@ export class GenerateVoiceRequestDto {
   @ApiProperty({
     description: 'TTS 提供商',
     example: 'gemini',
-    enum: ['gemini', 'minimax'],
+    enum: ['gemini', 'minimax', 'vertexai'],
     default: 'gemini',
   })
   @IsString()
   @Transform(({ value }) => value.toLowerCase())
   provider: string;
+
+  @ApiProperty({
+    description: '输出音频格式，文件扩展名按格式自动替换',
+    enum: Object.keys(AUDIO_FORMATS),
+    default: 'wav',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(Object.keys(AUDIO_FORMATS), {
+    message: 'format 只能是 wav、mp3 或 opus',
+  })
+  format?: AudioFormat;
 }
 
 /**
@@ -0,0 +1,14 @@
+/**
+ * TTS 提供商限流错误
+ * 提供商返回 429（或等价的限流错误码）时抛出，携带建议的等待时间
+ */
+export class ProviderRateLimitError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly retryAfterMs?: number,
+    message = `${provider} 触发限流`,
+  ) {
+    super(message);
+    this.name = 'ProviderRateLimitError';
+  }
+}
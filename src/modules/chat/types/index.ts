@@ -1,3 +1,6 @@
+import { LexiconEntry } from '../../../utils/pronunciationLexicon';
+import { TtsEmotion } from '../chat.constants';
+
 // MiniMax TTS API 响应类型
 export interface MinimaxTTSResponse {
   data: {
@@ -20,3 +23,20 @@ export interface MinimaxTTSResponse {
     status_msg: string; // 错误信息（如果有）
   };
 }
+
+// 语音合成参数
+export interface VoiceSynthesisOptions {
+  speed?: number; // 语速倍率，1 为正常语速（仅部分提供商支持）
+  languageCode?: string; // 语言代码，如 en-US（VertexAI）
+  pitch?: number; // 音调（半音），VertexAI -20.0 ~ 20.0，MiniMax 取整到 -12 ~ 12，Gemini 转为风格指令
+  volume?: number; // 音量倍率，1 为正常音量（MiniMax vol、VertexAI volumeGainDb、Gemini 风格指令）
+  emotion?: TtsEmotion; // 情绪（MiniMax emotion、Gemini 风格指令，VertexAI 不支持）
+  lexicon?: LexiconEntry[]; // 发音词典，按提供商转换为读音替换、发音字典或 SSML 音标
+}
+
+// 多声音合成中由单一声音朗读的片段
+export interface VoicedSpan {
+  voiceName: string; // 语音名称
+  text: string; // 片段文本
+  languageCode?: string; // 语言代码，未指定时按语音推断（VertexAI）
+}
@@ -0,0 +1,153 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+/** SSML 支持的音标字母表 */
+export const LEXICON_ALPHABETS = ['ipa', 'x-sampa'];
+
+/**
+ * 新增发音词条请求DTO
+ * respelling、phoneme、pronunciation 至少填写一项
+ */
+export class CreateFilmLexiconDto {
+  @ApiProperty({ description: '词语（角色名、专有名词等）', example: '燕青' })
+  @IsString()
+  @IsNotEmpty({ message: 'term 不能为空' })
+  @MaxLength(100)
+  term: string;
+
+  @ApiProperty({
+    description: '读音替换文本，Gemini 及未配置拼音的 MiniMax 词条使用',
+    example: '烟青',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  respelling?: string;
+
+  @ApiProperty({
+    description: 'SSML 音标，VertexAI 使用',
+    example: 'jɛn tɕʰiŋ',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  phoneme?: string;
+
+  @ApiProperty({
+    description: '音标字母表',
+    enum: LEXICON_ALPHABETS,
+    default: 'ipa',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(LEXICON_ALPHABETS, { message: 'alphabet 只能是 ipa 或 x-sampa' })
+  alphabet?: string;
+
+  @ApiProperty({
+    description: 'MiniMax 发音字典读音，按字标注拼音和声调',
+    example: '(yan1)(qing1)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  pronunciation?: string;
+
+  @ApiProperty({ description: '备注', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  remark?: string;
+}
+
+/**
+ * 修改发音词条请求DTO，未传的字段保持不变
+ */
+export class UpdateFilmLexiconDto {
+  @ApiProperty({ description: '词语', required: false })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty({ message: 'term 不能为空' })
+  @MaxLength(100)
+  term?: string;
+
+  @ApiProperty({ description: '读音替换文本', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  respelling?: string;
+
+  @ApiProperty({ description: 'SSML 音标', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  phoneme?: string;
+
+  @ApiProperty({
+    description: '音标字母表',
+    enum: LEXICON_ALPHABETS,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(LEXICON_ALPHABETS, { message: 'alphabet 只能是 ipa 或 x-sampa' })
+  alphabet?: string;
+
+  @ApiProperty({ description: 'MiniMax 发音字典读音', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  pronunciation?: string;
+
+  @ApiProperty({ description: '备注', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  remark?: string;
+}
+
+/**
+ * 发音词条DTO
+ */
+export class FilmLexiconDto {
+  @ApiProperty({ description: '词条 ID' })
+  id: number;
+
+  @ApiProperty({ description: '影片库 ID' })
+  filmId: number;
+
+  @ApiProperty({ description: '词语' })
+  term: string;
+
+  @ApiProperty({ description: '读音替换文本', nullable: true, type: String })
+  respelling: string | null;
+
+  @ApiProperty({ description: 'SSML 音标', nullable: true, type: String })
+  phoneme: string | null;
+
+  @ApiProperty({ description: '音标字母表', nullable: true, type: String })
+  alphabet: string | null;
+
+  @ApiProperty({
+    description: 'MiniMax 发音字典读音',
+    nullable: true,
+    type: String,
+  })
+  pronunciation: string | null;
+
+  @ApiProperty({ description: '备注', nullable: true, type: String })
+  remark: string | null;
+
+  @ApiProperty({ description: '创建时间', nullable: true, type: Date })
+  createTime: Date | null;
+
+  @ApiProperty({ description: '更新时间', nullable: true, type: Date })
+  updateTime: Date | null;
+}
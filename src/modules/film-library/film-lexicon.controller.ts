@@ -0,0 +1,75 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Logger,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { ApiResponseDto } from '../../common/decorators/api-response.decorator';
+import { FilmLexiconService } from './film-lexicon.service';
+import {
+  CreateFilmLexiconDto,
+  FilmLexiconDto,
+  UpdateFilmLexiconDto,
+} from './dto/film-lexicon.dto';
+
+/**
+ * 影片发音词典控制器
+ * 维护影片的角色名、专有名词读音，合成旁白时自动应用
+ */
+@ApiTags('影片发音词典')
+@Controller('film-library/:filmId/lexicon')
+export class FilmLexiconController {
+  private readonly logger = new Logger(FilmLexiconController.name);
+
+  constructor(private readonly filmLexiconService: FilmLexiconService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: '查询发音词典',
+    description: '查询影片的全部发音词条',
+  })
+  @ApiResponseDto(FilmLexiconDto, true)
+  async findAll(@Param('filmId') filmId: string) {
+    return this.filmLexiconService.findAll(+filmId);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: '新增发音词条',
+    description:
+      '为影片新增词条，读音替换文本用于 Gemini，拼音用于 MiniMax 发音字典，音标用于 VertexAI SSML',
+  })
+  @ApiResponseDto(FilmLexiconDto)
+  async create(
+    @Param('filmId') filmId: string,
+    @Body() body: CreateFilmLexiconDto,
+  ) {
+    this.logger.log(`新增发音词条请求 [filmId: ${filmId}, term: ${body.term}]`);
+    return this.filmLexiconService.create(+filmId, body);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: '修改发音词条',
+    description: '修改词条的词语或读音，传入空字符串清空对应读音',
+  })
+  @ApiResponseDto(FilmLexiconDto)
+  async update(
+    @Param('filmId') filmId: string,
+    @Param('id') id: string,
+    @Body() body: UpdateFilmLexiconDto,
+  ) {
+    return this.filmLexiconService.update(+filmId, +id, body);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '删除发音词条', description: '删除影片的发音词条' })
+  async remove(@Param('filmId') filmId: string, @Param('id') id: string) {
+    await this.filmLexiconService.remove(+filmId, +id);
+  }
+}
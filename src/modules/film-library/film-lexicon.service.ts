@@ -0,0 +1,181 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { sys_film_lexicon } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LexiconEntry } from '../../utils/pronunciationLexicon';
+import {
+  CreateFilmLexiconDto,
+  UpdateFilmLexiconDto,
+} from './dto/film-lexicon.dto';
+
+/**
+ * 影片发音词典服务
+ * 维护影片的角色名、专有名词读音，供旁白合成时纠正发音
+ */
+@Injectable()
+export class FilmLexiconService {
+  private readonly logger = new Logger(FilmLexiconService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * 校验影片存在
+   */
+  private async assertFilmExists(filmId: number): Promise<void> {
+    const film = await this.prisma.sys_film_library.findFirst({
+      where: { id: filmId, is_delete: 0 },
+      select: { id: true },
+    });
+    if (!film) {
+      throw new NotFoundException(`影片 ${filmId} 不存在`);
+    }
+  }
+
+  /**
+   * 查找影片下的词条
+   */
+  private async findEntry(
+    filmId: number,
+    id: number,
+  ): Promise<sys_film_lexicon> {
+    const entry = await this.prisma.sys_film_lexicon.findFirst({
+      where: { id, film_id: filmId },
+    });
+    if (!entry) {
+      throw new NotFoundException(`影片 ${filmId} 下不存在词条 ${id}`);
+    }
+    return entry;
+  }
+
+  /**
+   * 校验词条至少配置了一种读音，且词语在影片内不重复
+   */
+  private async validateEntry(
+    filmId: number,
+    entry: Pick<
+      sys_film_lexicon,
+      'term' | 'respelling' | 'phoneme' | 'pronunciation'
+    >,
+    excludeId?: number,
+  ): Promise<void> {
+    if (!entry.respelling && !entry.phoneme && !entry.pronunciation) {
+      throw new BadRequestException(
+        'respelling、phoneme、pronunciation 至少填写一项',
+      );
+    }
+
+    const duplicate = await this.prisma.sys_film_lexicon.findUnique({
+      where: { film_id_term: { film_id: filmId, term: entry.term } },
+      select: { id: true },
+    });
+    if (duplicate && duplicate.id !== excludeId) {
+      throw new ConflictException(`词语「${entry.term}」已存在`);
+    }
+  }
+
+  /**
+   * 查询影片的全部词条
+   * @param filmId 影片库 ID
+   */
+  async findAll(filmId: number): Promise<sys_film_lexicon[]> {
+    await this.assertFilmExists(filmId);
+    return this.prisma.sys_film_lexicon.findMany({
+      where: { film_id: filmId },
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  /**
+   * 新增词条
+   * @param filmId 影片库 ID
+   * @param dto 词条内容
+   */
+  async create(
+    filmId: number,
+    dto: CreateFilmLexiconDto,
+  ): Promise<sys_film_lexicon> {
+    await this.assertFilmExists(filmId);
+
+    const data = {
+      term: dto.term.trim(),
+      respelling: dto.respelling || null,
+      phoneme: dto.phoneme || null,
+      alphabet: dto.alphabet ?? 'ipa',
+      pronunciation: dto.pronunciation || null,
+      remark: dto.remark ?? null,
+    };
+    await this.validateEntry(filmId, data);
+
+    const entry = await this.prisma.sys_film_lexicon.create({
+      data: { film_id: filmId, ...data },
+    });
+    this.logger.log(`影片 ${filmId} 新增发音词条「${entry.term}」`);
+    return entry;
+  }
+
+  /**
+   * 修改词条
+   * @param filmId 影片库 ID
+   * @param id 词条 ID
+   * @param dto 需要修改的字段
+   */
+  async update(
+    filmId: number,
+    id: number,
+    dto: UpdateFilmLexiconDto,
+  ): Promise<sys_film_lexicon> {
+    const current = await this.findEntry(filmId, id);
+
+    // 传入空字符串表示清空该读音
+    const pick = (value: string | undefined, fallback: string | null) =>
+      value === undefined ? fallback : value || null;
+    const data = {
+      term: dto.term?.trim() ?? current.term,
+      respelling: pick(dto.respelling, current.respelling),
+      phoneme: pick(dto.phoneme, current.phoneme),
+      alphabet: dto.alphabet ?? current.alphabet,
+      pronunciation: pick(dto.pronunciation, current.pronunciation),
+      remark: dto.remark ?? current.remark,
+    };
+    await this.validateEntry(filmId, data, id);
+
+    return this.prisma.sys_film_lexicon.update({
+      where: { id },
+      data: { ...data, update_time: new Date() },
+    });
+  }
+
+  /**
+   * 删除词条
+   * @param filmId 影片库 ID
+   * @param id 词条 ID
+   */
+  async remove(filmId: number, id: number): Promise<void> {
+    const entry = await this.findEntry(filmId, id);
+    await this.prisma.sys_film_lexicon.delete({ where: { id } });
+    this.logger.log(`影片 ${filmId} 删除发音词条「${entry.term}」`);
+  }
+
+  /**
+   * 获取影片词典，用于语音合成
+   * @param filmId 影片库 ID
+   */
+  async getEntries(filmId: number): Promise<LexiconEntry[]> {
+    const entries = await this.prisma.sys_film_lexicon.findMany({
+      where: { film_id: filmId },
+      orderBy: { id: 'asc' },
+    });
+    return entries.map((entry) => ({
+      term: entry.term,
+      respelling: entry.respelling ?? undefined,
+      phoneme: entry.phoneme ?? undefined,
+      alphabet: entry.alphabet ?? undefined,
+      pronunciation: entry.pronunciation ?? undefined,
+    }));
+  }
+}
@@ -1,9 +1,12 @@
 import { Module } from '@nestjs/common';
 import { FilmLibraryService } from './film-library.service';
 import { FilmLibraryController } from './film-library.controller';
+import { FilmLexiconService } from './film-lexicon.service';
+import { FilmLexiconController } from './film-lexicon.controller';
 
 @Module({
-  controllers: [FilmLibraryController],
-  providers: [FilmLibraryService],
+  controllers: [FilmLibraryController, FilmLexiconController],
+  providers: [FilmLibraryService, FilmLexiconService],
+  exports: [FilmLexiconService],
 })
 export class FilmLibraryModule {}
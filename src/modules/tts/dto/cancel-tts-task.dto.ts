@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNumber } from 'class-validator';
+
+/**
+ * 取消任务请求DTO
+ */
+export class CancelTtsTaskDto {
+  @ApiProperty({ description: '方案 ID', example: 1 })
+  @IsNumber({}, { message: 'schemeId 必须是数字' })
+  schemeId: number;
+}
+
+/**
+ * 取消任务结果DTO
+ */
+export class CancelResultDto {
+  @ApiProperty({ description: '方案 ID' })
+  schemeId: number;
+
+  @ApiProperty({ description: '标记为已取消的任务数量' })
+  cancelledTasks: number;
+
+  @ApiProperty({ description: '从队列中移除的任务数量' })
+  removedJobs: number;
+
+  @ApiProperty({ description: '正在执行、将在完成前终止的任务数量' })
+  activeJobs: number;
+}
@@ -1,6 +1,22 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsArray, ValidateNested, IsString, IsNumber } from 'class-validator';
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { AUDIO_FORMATS, AudioFormat } from '../../../utils/encodeAudio';
 import { Transform, Type } from 'class-transformer';
+import { sys_tts_task_segment_key } from '@prisma/client';
+import { TTS_EMOTIONS, TtsEmotion } from '../../chat/chat.constants';
+import { SegmentStylesDto } from './voice-style.dto';
 
 class TranslationDto {
   @ApiProperty({ description: '开头文本', example: 'Hello' })
@@ -21,6 +37,33 @@ class ActualSchemeDto {
   @ValidateNested()
   @Type(() => TranslationDto)
   translation: TranslationDto;
+
+  @ApiProperty({
+    description: '各片段的朗读风格，覆盖方案默认值',
+    type: SegmentStylesDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SegmentStylesDto)
+  styles?: SegmentStylesDto;
+}
+
+/**
+ * 片段处理结果 dto
+ */
+export class SegmentChangeDto {
+  @ApiProperty({ description: '方案索引' })
+  schemeIndex: number;
+
+  @ApiProperty({ description: '片段键值', enum: ['begin', 'middle', 'end'] })
+  segmentKey: sys_tts_task_segment_key;
+
+  @ApiProperty({
+    description: 'kept：沿用原音频；regenerated：重新合成',
+    enum: ['kept', 'regenerated'],
+  })
+  action: 'kept' | 'regenerated';
 }
 
 /**
@@ -32,6 +75,25 @@ export class TaskExecuteDto {
 
   @ApiProperty({ description: '当前执行的方案id' })
   schemeId: number;
+
+  @ApiProperty({
+    description: '重新合成的片段数（创建任务时返回）',
+    required: false,
+  })
+  regeneratedTasks?: number;
+
+  @ApiProperty({
+    description: '文本和语音参数未变化、沿用原音频的片段数（创建任务时返回）',
+    required: false,
+  })
+  keptTasks?: number;
+
+  @ApiProperty({
+    description: '各片段的处理结果（创建任务时返回）',
+    type: () => [SegmentChangeDto],
+    required: false,
+  })
+  segments?: SegmentChangeDto[];
 }
 
 /**
@@ -66,8 +128,125 @@ export class CreateTtsTaskDto {
   @ApiProperty({
     description: 'AI模型名称',
     example: 'Gemini',
+    enum: ['gemini', 'minimax', 'vertexai'],
   })
   @IsString()
   @Transform(({ value }) => value.toLowerCase())
+  @IsIn(['gemini', 'minimax', 'vertexai'], {
+    message: 'provider 必须是 gemini、minimax 或 vertexai',
+  })
   provider: string;
+
+  @ApiProperty({
+    description: '语言代码（VertexAI），不传时按语音推断',
+    example: 'en-US',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  languageCode?: string;
+
+  @ApiProperty({
+    description:
+      '语速（VertexAI 0.25 ~ 4.0，MiniMax 0.5 ~ 2.0，Gemini 转为风格指令），作为方案默认值',
+    example: 1.0,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'speakingRate 必须是数字' })
+  @Min(0.25)
+  @Max(4.0)
+  speakingRate?: number;
+
+  @ApiProperty({
+    description:
+      '音调（半音，VertexAI -20.0 ~ 20.0，MiniMax 取整到 -12 ~ 12，Gemini 转为风格指令），作为方案默认值',
+    example: 0.0,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'pitch 必须是数字' })
+  @Min(-20.0)
+  @Max(20.0)
+  pitch?: number;
+
+  @ApiProperty({
+    description:
+      '音量倍率，1 为正常音量（MiniMax、VertexAI，Gemini 转为风格指令），作为方案默认值',
+    example: 1.0,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'volume 必须是数字' })
+  @Min(0.1)
+  @Max(10)
+  volume?: number;
+
+  @ApiProperty({
+    description:
+      '朗读情绪（MiniMax emotion，Gemini 转为风格指令，VertexAI 不支持），作为方案默认值',
+    enum: TTS_EMOTIONS,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(TTS_EMOTIONS, {
+    message: `emotion 只能是 ${TTS_EMOTIONS.join('、')}`,
+  })
+  emotion?: TtsEmotion;
+
+  @ApiProperty({
+    description:
+      '回调地址，方案 TTS 完成（成功或失败）后 POST 签名的 JSON，与用户级回调同时生效；必须是 https 地址，不能指向内网',
+    example: 'https://render.example.com/hooks/tts',
+    required: false,
+  })
+  @IsOptional()
+  @IsUrl(
+    { protocols: ['https'], require_protocol: true, require_tld: true },
+    { message: 'callbackUrl 必须是合法的 https 地址' },
+  )
+  callbackUrl?: string;
+
+  @ApiProperty({
+    description:
+      '是否保留历史版本：为 true 时旧音频归档到历史表，可通过回滚接口恢复',
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  keepHistory?: boolean;
+
+  @ApiProperty({
+    description:
+      '角色语音映射（角色名 -> 语音名称）。旁白中【角色】/[角色] 标签之后的文本、以及「角色：“台词”」中的台词使用对应语音朗读，其余文本使用 voiceName',
+    example: { 张三: 'Puck', 李四: 'Leda' },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject({ message: 'roleVoices 必须是对象' })
+  roleVoices?: Record<string, string>;
+
+  @ApiProperty({
+    description:
+      '输出音频格式。片段和拼接后的旁白均按该格式上传，另保留 WAV 母版用于拼接',
+    enum: Object.keys(AUDIO_FORMATS),
+    default: 'wav',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(Object.keys(AUDIO_FORMATS), {
+    message: 'outputFormat 只能是 wav、mp3 或 opus',
+  })
+  outputFormat?: AudioFormat;
+
+  @ApiProperty({
+    description:
+      '是否强制重新合成全部片段。默认只重新合成文本或语音参数有变化的片段，发音词典等方案外的配置变化后需强制重新合成',
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  forceRegenerate?: boolean;
 }
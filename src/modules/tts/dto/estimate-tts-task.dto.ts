@@ -0,0 +1,65 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 单个提供商的费用估算 dto
+ */
+export class ProviderEstimateDto {
+  @ApiProperty({ description: 'TTS 提供商', example: 'gemini' })
+  provider: string;
+
+  @ApiProperty({ description: '需要合成的字符数' })
+  characters: number;
+
+  @ApiProperty({ description: '预计的提供商成本（元）' })
+  estimatedCost: number;
+
+  @ApiProperty({ description: '预计消耗的积分' })
+  points: number;
+}
+
+/**
+ * 创建任务的费用估算 dto
+ */
+export class TtsEstimateDto {
+  @ApiProperty({ description: '方案 ID' })
+  schemeId: number;
+
+  @ApiProperty({ description: '本次使用的 TTS 提供商', example: 'gemini' })
+  provider: string;
+
+  @ApiProperty({ description: '片段总数' })
+  totalSegments: number;
+
+  @ApiProperty({ description: '需要重新合成的片段数' })
+  regeneratedSegments: number;
+
+  @ApiProperty({ description: '沿用原音频、不计费的片段数' })
+  keptSegments: number;
+
+  @ApiProperty({ description: '本次提供商需要合成的字符数' })
+  characters: number;
+
+  @ApiProperty({ description: '本次提供商预计的成本（元）' })
+  estimatedCost: number;
+
+  @ApiProperty({
+    description:
+      '预计消耗的积分，即创建任务时预扣的积分；实际扣除不超过该值，降级到其他提供商时也按该值封顶',
+  })
+  points: number;
+
+  @ApiProperty({
+    description: '方案所属用户的积分余额，方案没有所属用户时为 null',
+    nullable: true,
+  })
+  balance: number | null;
+
+  @ApiProperty({ description: '积分余额是否足够' })
+  sufficient: boolean;
+
+  @ApiProperty({
+    description: '各提供商的估算结果，供比较',
+    type: [ProviderEstimateDto],
+  })
+  providers: ProviderEstimateDto[];
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNumber } from 'class-validator';
+
+/**
+ * 按目标时长调整语速请求DTO
+ */
+export class FitTimingDto {
+  @ApiProperty({ description: '方案 ID', example: 1 })
+  @IsNumber({}, { message: 'schemeId 必须是数字' })
+  schemeId: number;
+}
@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 提供商限流预算 dto
+ */
+export class ProviderBudgetDto {
+  @ApiProperty({ description: 'TTS 提供商', example: 'gemini' })
+  provider: string;
+
+  @ApiProperty({ description: '每分钟请求数上限' })
+  rpm: number;
+
+  @ApiProperty({ description: '当前窗口已使用的请求数' })
+  rpmUsed: number;
+
+  @ApiProperty({ description: '当前窗口剩余时间（毫秒）' })
+  windowResetMs: number;
+
+  @ApiProperty({ description: '最大并发数' })
+  concurrency: number;
+
+  @ApiProperty({ description: '正在执行的请求数' })
+  active: number;
+
+  @ApiProperty({ description: '429 冷却剩余时间（毫秒），0 表示未冷却' })
+  cooldownMs: number;
+}
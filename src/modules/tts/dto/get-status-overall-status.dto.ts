@@ -13,17 +13,143 @@ export class StatsDto {
   @ApiProperty({ description: '未完成数量' })
   unfinished: number;
 
+  @ApiProperty({ description: '已取消数量' })
+  cancelled: number;
+
   @ApiProperty({ description: '总数' })
   total: number;
+
+  @ApiProperty({ description: '命中音频缓存的片段数量' })
+  cacheHits: number;
+
+  @ApiProperty({
+    description: '质检未通过（疑似截断、近乎静音或削波）的片段数量',
+  })
+  qaSuspicious: number;
+}
+
+/**
+ * 方案项时长对账 dto
+ */
+export class TimingReportItemDto {
+  @ApiProperty({ description: '方案索引' })
+  schemeIndex: number;
+
+  @ApiProperty({ description: '目标时长（秒）', nullable: true })
+  targetSeconds: number | null;
+
+  @ApiProperty({
+    description: '拼接后旁白的实际时长（秒），片段未全部生成时为空',
+    nullable: true,
+  })
+  actualSeconds: number | null;
+
+  @ApiProperty({ description: '实际时长 - 目标时长（秒）', nullable: true })
+  diffSeconds: number | null;
+
+  @ApiProperty({
+    description:
+      '对账结果：fit 符合、overrun 超时、underrun 不足、pending 未完成、unknown 无目标时长',
+    enum: ['fit', 'overrun', 'underrun', 'pending', 'unknown'],
+  })
+  status: 'fit' | 'overrun' | 'underrun' | 'pending' | 'unknown';
+}
+
+/**
+ * 配音计费 dto
+ */
+export class SchemeChargeDto {
+  @ApiProperty({ description: '配音累计扣除的积分' })
+  chargedPoints: number;
+
+  @ApiProperty({
+    description: '最近一次结算扣除的积分，尚未结算时为空',
+    nullable: true,
+  })
+  lastChargedPoints: number | null;
+
+  @ApiProperty({
+    description:
+      '累计退还的预扣积分（失败、取消、命中缓存的片段以及预扣多于实际费用的部分）',
+  })
+  refundedPoints: number;
+
+  @ApiProperty({ description: '已预扣尚未结算的积分' })
+  heldPoints: number;
+
+  @ApiProperty({
+    description: '最近一次结算写入的配音记录 ID，尚未结算时为空',
+    nullable: true,
+  })
+  narrateRecordId: number | null;
+
+  @ApiProperty({
+    description: '最近一次结算时间，尚未结算时为空',
+    nullable: true,
+  })
+  chargedAt: Date | null;
 }
 
 /**
  * 总体响应 dto
  */
 export class OverallResponseDto {
-  @ApiProperty({ description: '总体状态，例如 success/fail' })
+  @ApiProperty({
+    description: '总体状态，例如 success/failed/unfinished/cancelled',
+  })
   overall: string;
 
   @ApiProperty({ description: '统计信息', type: StatsDto })
   stats: StatsDto;
+
+  @ApiProperty({
+    description: '整个方案拼接后的旁白音频 URL，全部成功后生成',
+    nullable: true,
+  })
+  schemeAudioUrl: string | null;
+
+  @ApiProperty({ description: '时长对账报告', type: [TimingReportItemDto] })
+  timing: TimingReportItemDto[];
+
+  @ApiProperty({ description: '配音计费', type: SchemeChargeDto })
+  charge: SchemeChargeDto;
+}
+
+/**
+ * 语速调整的方案项 dto
+ */
+export class AdjustedItemDto {
+  @ApiProperty({ description: '方案索引' })
+  schemeIndex: number;
+
+  @ApiProperty({ description: '调整前语速' })
+  previousSpeed: number;
+
+  @ApiProperty({ description: '调整后语速' })
+  speed: number;
+}
+
+/**
+ * 跳过的方案项 dto
+ */
+export class SkippedItemDto {
+  @ApiProperty({ description: '方案索引' })
+  schemeIndex: number;
+
+  @ApiProperty({ description: '跳过原因' })
+  reason: string;
+}
+
+/**
+ * 按目标时长调整语速结果 dto
+ */
+export class FitTimingResultDto {
+  @ApiProperty({
+    description: '已调整语速并重新合成的方案项',
+    type: [AdjustedItemDto],
+  })
+  adjusted: AdjustedItemDto[];
+
+  @ApiProperty({ description: '跳过的方案项', type: [SkippedItemDto] })
+  skipped: SkippedItemDto[];
 }
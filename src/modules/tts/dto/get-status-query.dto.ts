@@ -91,6 +91,12 @@ export class DownloadContentDto {
 
   @ApiProperty({ description: '音频 URL 对象' })
   audioUrl: AudioUrlDto;
+
+  @ApiProperty({
+    description: 'begin/middle/end 拼接后的完整旁白音频 URL',
+    required: false,
+  })
+  mergedAudioUrl?: string;
 }
 
 /**
@@ -115,7 +121,9 @@ export class SegmentDto {
   @ApiProperty({ description: '音频 URL' })
   audioUrl: string;
 
-  @ApiProperty({ description: '状态，1 成功、0 待处理、2 失败' })
+  @ApiProperty({
+    description: '状态，1 成功、0 待处理、2 失败、3 废弃、4 已取消',
+  })
   status: number;
 
   @ApiProperty({ description: '当前重试次数' })
@@ -136,6 +144,16 @@ export class SegmentDto {
   @ApiProperty({ description: '使用的声音名称' })
   voiceName: string;
 
+  @ApiProperty({ description: '音频是否命中缓存（未调用提供商）' })
+  cacheHit: boolean;
+
+  @ApiProperty({
+    description: '响度归一化施加的增益（dB），未做归一化时为空',
+    nullable: true,
+    type: Number,
+  })
+  gainDb: number | null;
+
   @ApiProperty({ description: '下载内容数组', type: [DownloadContentDto] })
   downloadContent: DownloadContentDto[];
 }
@@ -0,0 +1,64 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNumber } from 'class-validator';
+
+/**
+ * 生成方案字幕请求DTO
+ */
+export class GenerateSubtitlesDto {
+  @ApiProperty({ description: '方案 ID', example: 1 })
+  @IsNumber({}, { message: 'schemeId 必须是数字' })
+  schemeId: number;
+}
+
+/**
+ * 单条字幕轨道的文件地址 dto
+ */
+export class SubtitleFileDto {
+  @ApiProperty({ description: 'SRT 字幕文件 URL' })
+  srtUrl: string;
+
+  @ApiProperty({ description: 'WebVTT 字幕文件 URL' })
+  vttUrl: string;
+}
+
+/**
+ * 单条字幕轨道 dto
+ */
+export class SubtitleTrackDto extends SubtitleFileDto {
+  @ApiProperty({ description: 'SRT 字幕内容' })
+  srt: string;
+
+  @ApiProperty({ description: 'WebVTT 字幕内容' })
+  vtt: string;
+}
+
+/**
+ * 方案项字幕 dto
+ */
+export class SchemeSubtitleDto {
+  @ApiProperty({ description: '方案索引' })
+  schemeIndex: number;
+
+  @ApiProperty({ description: '旁白总时长（毫秒）' })
+  durationMs: number;
+
+  @ApiProperty({ description: '英文翻译字幕', type: SubtitleTrackDto })
+  translation: SubtitleTrackDto;
+
+  @ApiProperty({ description: '中文叙述字幕', type: SubtitleTrackDto })
+  chineseNarration: SubtitleTrackDto;
+}
+
+/**
+ * 方案项已生成的字幕文件 dto
+ */
+export class SchemeSubtitleUrlDto {
+  @ApiProperty({ description: '方案索引' })
+  schemeIndex: number;
+
+  @ApiProperty({ description: '英文翻译字幕', type: SubtitleFileDto })
+  translation: SubtitleFileDto;
+
+  @ApiProperty({ description: '中文叙述字幕', type: SubtitleFileDto })
+  chineseNarration: SubtitleFileDto;
+}
@@ -0,0 +1,50 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 方案排队位置 dto
+ */
+export class QueuePositionDto {
+  @ApiProperty({ description: '方案 ID' })
+  schemeId: number;
+
+  @ApiProperty({ description: '方案在队列中等待执行的任务数' })
+  queued: number;
+
+  @ApiProperty({ description: '因限流或失败重试而延迟的任务数' })
+  delayed: number;
+
+  @ApiProperty({ description: '正在执行的任务数' })
+  active: number;
+
+  @ApiProperty({ description: '队列中等待执行的任务总数（所有方案）' })
+  totalQueued: number;
+
+  @ApiProperty({
+    description:
+      '方案最靠前的任务在队列中的位置（从 1 开始），没有排队任务时为 null',
+    nullable: true,
+  })
+  position: number | null;
+
+  @ApiProperty({ description: '排在方案之前的任务数' })
+  jobsAhead: number;
+
+  @ApiProperty({
+    description: '最近任务的平均耗时（毫秒），没有记录时为 null',
+    nullable: true,
+  })
+  avgJobMs: number | null;
+
+  @ApiProperty({
+    description: '预计多久后开始执行（毫秒），无法估算时为 null',
+    nullable: true,
+  })
+  startEtaMs: number | null;
+
+  @ApiProperty({
+    description:
+      '预计多久后排队任务全部完成（毫秒），不含延迟任务，无法估算时为 null',
+    nullable: true,
+  })
+  finishEtaMs: number | null;
+}
@@ -0,0 +1,65 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 巡检处理的任务 dto
+ */
+export class ReaperTaskDto {
+  @ApiProperty({ description: '任务 ID' })
+  taskId: string;
+
+  @ApiProperty({ description: '方案 ID' })
+  schemeId: number;
+
+  @ApiProperty({ description: '方案索引' })
+  schemeIndex: number;
+
+  @ApiProperty({ description: '分段 key' })
+  segmentKey: string;
+}
+
+/**
+ * 巡检移除的队列任务 dto
+ */
+export class ReaperJobDto {
+  @ApiProperty({ description: '队列任务 ID' })
+  jobId: string;
+
+  @ApiProperty({ description: '任务 ID' })
+  taskId: string;
+
+  @ApiProperty({ description: '移除原因' })
+  reason: string;
+}
+
+/**
+ * 巡检报告 dto
+ */
+export class ReaperReportDto {
+  @ApiProperty({ description: '开始时间（毫秒时间戳）' })
+  startedAt: number;
+
+  @ApiProperty({ description: '结束时间（毫秒时间戳）' })
+  finishedAt: number;
+
+  @ApiProperty({
+    description: '队列任务丢失、已重新入队的任务',
+    type: [ReaperTaskDto],
+  })
+  requeued: ReaperTaskDto[];
+
+  @ApiProperty({
+    description:
+      '队列任务丢失且重试次数耗尽（或无法恢复语音配置）、已标记失败的任务',
+    type: [ReaperTaskDto],
+  })
+  failed: ReaperTaskDto[];
+
+  @ApiProperty({
+    description: '对应任务已不存在或已结束、从队列中移除的孤儿任务',
+    type: [ReaperJobDto],
+  })
+  removedJobs: ReaperJobDto[];
+
+  @ApiProperty({ description: '重新计算了 TTS 状态的方案 ID', type: [Number] })
+  recomputedSchemes: number[];
+}
@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 方案角色DTO
+ */
+export class SchemeRoleDto {
+  @ApiProperty({ description: '角色名' })
+  name: string;
+
+  @ApiProperty({
+    description: '已配置的语音名称，未配置时由旁白语音朗读',
+    nullable: true,
+    type: String,
+  })
+  voiceName: string | null;
+
+  @ApiProperty({ description: '是否来自影片角色表' })
+  inRoleTable: boolean;
+}
+
+/**
+ * 方案角色列表DTO
+ */
+export class SchemeRolesDto {
+  @ApiProperty({ description: '方案 ID' })
+  schemeId: number;
+
+  @ApiProperty({ description: '影片库 ID', nullable: true, type: Number })
+  filmId: number | null;
+
+  @ApiProperty({
+    description: '角色语音所属的提供商',
+    nullable: true,
+    type: String,
+  })
+  provider: string | null;
+
+  @ApiProperty({ description: '角色列表', type: [SchemeRoleDto] })
+  roles: SchemeRoleDto[];
+}
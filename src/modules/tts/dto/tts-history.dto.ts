@@ -0,0 +1,89 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsNumber, IsNumberString } from 'class-validator';
+import { sys_tts_task_segment_key } from '@prisma/client';
+
+/**
+ * 查询片段历史版本请求DTO
+ */
+export class GetTaskHistoryQueryDto {
+  @ApiProperty({ description: '方案 ID', example: 1 })
+  @IsNumberString({}, { message: 'schemeId 必须是数字字符串' })
+  schemeId: string;
+
+  @ApiProperty({ description: '方案索引（从0开始）', example: 0 })
+  @IsNumberString({}, { message: 'schemeIndex 必须是数字字符串' })
+  schemeIndex: string;
+
+  @ApiProperty({ description: '分段 key', enum: sys_tts_task_segment_key })
+  @IsIn(Object.values(sys_tts_task_segment_key), {
+    message: 'segmentKey 必须是 begin、middle 或 end',
+  })
+  segmentKey: sys_tts_task_segment_key;
+}
+
+/**
+ * 回滚历史版本请求DTO
+ */
+export class PromoteTakeDto {
+  @ApiProperty({ description: '历史版本 ID', example: 1 })
+  @IsNumber({}, { message: 'historyId 必须是数字' })
+  historyId: number;
+}
+
+/**
+ * 片段音频历史版本DTO
+ */
+export class TtsTakeDto {
+  @ApiProperty({ description: '历史版本 ID' })
+  id: string;
+
+  @ApiProperty({ description: '生成该版本的任务 ID' })
+  taskId: string;
+
+  @ApiProperty({ description: '文本内容' })
+  textContent: string;
+
+  @ApiProperty({ description: '音频 URL' })
+  audioUrl: string;
+
+  @ApiProperty({ description: '语音名称', nullable: true })
+  voiceName: string | null;
+
+  @ApiProperty({ description: 'TTS 提供商', nullable: true })
+  ttsModel: string | null;
+
+  @ApiProperty({ description: '语言代码', nullable: true })
+  language: string | null;
+
+  @ApiProperty({ description: '语速倍率', nullable: true })
+  speed: number | null;
+
+  @ApiProperty({ description: '音调', nullable: true })
+  pitch: number | null;
+
+  @ApiProperty({ description: '音频时长（毫秒）', nullable: true })
+  durationMs: number | null;
+
+  @ApiProperty({ description: '音频生成时间', nullable: true })
+  generateTime: string | null;
+
+  @ApiProperty({ description: '归档时间' })
+  createTime: string;
+}
+
+/**
+ * 回滚结果DTO
+ */
+export class PromoteResultDto {
+  @ApiProperty({ description: '方案 ID' })
+  schemeId: number;
+
+  @ApiProperty({ description: '方案索引' })
+  schemeIndex: number;
+
+  @ApiProperty({ description: '分段 key' })
+  segmentKey: string;
+
+  @ApiProperty({ description: '回滚后的音频 URL' })
+  audioUrl: string;
+}
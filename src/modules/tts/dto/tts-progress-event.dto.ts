@@ -0,0 +1,52 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * TTS 进度事件 dto
+ */
+export class TtsProgressEventDto {
+  @ApiProperty({
+    description:
+      '事件类型：queued 已排队、started 开始合成、succeeded 成功、failed 失败、finished 方案完成',
+    enum: ['queued', 'started', 'succeeded', 'failed', 'finished'],
+  })
+  type: string;
+
+  @ApiProperty({ description: '方案 ID' })
+  schemeId: number;
+
+  @ApiProperty({ description: '任务 ID', required: false })
+  taskId?: string;
+
+  @ApiProperty({ description: '方案索引', required: false })
+  schemeIndex?: number;
+
+  @ApiProperty({ description: '分段 key', required: false })
+  segmentKey?: string;
+
+  @ApiProperty({ description: 'TTS 提供商', required: false })
+  provider?: string;
+
+  @ApiProperty({
+    description: '音频 URL（succeeded 为片段音频，finished 为方案旁白）',
+    required: false,
+  })
+  audioUrl?: string;
+
+  @ApiProperty({ description: '错误信息（failed）', required: false })
+  error?: string;
+
+  @ApiProperty({
+    description: '是否还会重试或降级到其他提供商（failed）',
+    required: false,
+  })
+  willRetry?: boolean;
+
+  @ApiProperty({
+    description: '方案最终状态（finished）：2 成功、3 失败、4 已取消',
+    required: false,
+  })
+  state?: number;
+
+  @ApiProperty({ description: '事件时间戳（毫秒）' })
+  timestamp: number;
+}
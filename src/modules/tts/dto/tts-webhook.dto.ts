@@ -0,0 +1,113 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsNumber,
+  IsNumberString,
+  IsOptional,
+  IsUrl,
+} from 'class-validator';
+
+/**
+ * 注册用户级回调请求DTO
+ */
+export class RegisterWebhookDto {
+  @ApiProperty({ description: '用户 ID', example: 1 })
+  @IsNumber({}, { message: 'userId 必须是数字' })
+  userId: number;
+
+  @ApiProperty({
+    description:
+      '回调地址，方案 TTS 完成后 POST 签名的 JSON；必须是 https 地址，不能指向内网',
+    example: 'https://render.example.com/hooks/tts',
+  })
+  @IsUrl(
+    { protocols: ['https'], require_protocol: true, require_tld: true },
+    { message: 'callbackUrl 必须是合法的 https 地址' },
+  )
+  callbackUrl: string;
+
+  @ApiProperty({ description: '是否启用', default: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiProperty({
+    description: '是否重新生成签名密钥，新密钥在本次响应中返回，旧密钥立即失效',
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  rotateSecret?: boolean;
+}
+
+/**
+ * 查询用户级回调请求DTO
+ */
+export class GetWebhookQueryDto {
+  @ApiProperty({ description: '用户 ID', example: 1 })
+  @IsNumberString({}, { message: 'userId 必须是数字字符串' })
+  userId: string;
+}
+
+/**
+ * 用户级回调配置DTO
+ */
+export class WebhookDto {
+  @ApiProperty({ description: '用户 ID' })
+  userId: number;
+
+  @ApiProperty({ description: '回调地址' })
+  callbackUrl: string;
+
+  @ApiProperty({
+    description:
+      '签名密钥，只在首次注册或轮换密钥时返回；回调请求头 X-TTS-Signature 为 sha256=HMAC-SHA256(secret, `${X-TTS-Timestamp}.${body}`)',
+    required: false,
+  })
+  secret?: string;
+
+  @ApiProperty({ description: '是否启用' })
+  enabled: boolean;
+}
+
+/**
+ * 回调投递记录DTO
+ */
+export class WebhookDeliveryDto {
+  @ApiProperty({ description: '投递记录 ID' })
+  id: string;
+
+  @ApiProperty({ description: '方案 ID' })
+  schemeId: string;
+
+  @ApiProperty({ description: '回调地址' })
+  callbackUrl: string;
+
+  @ApiProperty({ description: '事件类型', example: 'tts.finished' })
+  event: string;
+
+  @ApiProperty({ description: '回调内容（JSON 字符串）' })
+  payload: string;
+
+  @ApiProperty({ description: '状态，0 投递中、1 成功、2 失败' })
+  status: number;
+
+  @ApiProperty({ description: '已投递次数' })
+  attempts: number;
+
+  @ApiProperty({ description: '最近一次响应状态码', nullable: true })
+  responseStatus: number | null;
+
+  @ApiProperty({ description: '最近一次响应内容', nullable: true })
+  responseBody: string | null;
+
+  @ApiProperty({ description: '最近一次错误信息', nullable: true })
+  errorLog: string | null;
+
+  @ApiProperty({ description: '创建时间' })
+  createTime: string;
+
+  @ApiProperty({ description: '更新时间' })
+  updateTime: string;
+}
@@ -1,13 +1,16 @@
 import { ApiProperty } from '@nestjs/swagger';
 import {
   IsArray,
+  IsBoolean,
   IsInt,
   IsNotEmpty,
+  IsOptional,
   IsString,
   ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { sys_tts_task_segment_key } from '@prisma/client';
+import { VoiceStyleDto } from './voice-style.dto';
 
 // 单个更新项 dto
 export class UpdateTtsTaskItemDto {
@@ -23,6 +26,16 @@ export class UpdateTtsTaskItemDto {
   @IsString()
   @IsNotEmpty()
   newText: string;
+
+  @ApiProperty({
+    description: '片段的朗读风格，未传的字段沿用片段原有的风格',
+    type: VoiceStyleDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => VoiceStyleDto)
+  style?: VoiceStyleDto;
 }
 
 // 批量更新 dto
@@ -39,4 +52,14 @@ export class UpdateTtsTasksDto {
   @ValidateNested({ each: true })
   @Type(() => UpdateTtsTaskItemDto)
   updates: UpdateTtsTaskItemDto[];
+
+  @ApiProperty({
+    description:
+      '是否保留历史版本：为 true 时旧音频归档到历史表，可通过回滚接口恢复',
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  keepHistory?: boolean;
 }
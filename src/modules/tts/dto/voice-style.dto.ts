@@ -0,0 +1,88 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { TTS_EMOTIONS, TtsEmotion } from '../../chat/chat.constants';
+
+/**
+ * 朗读风格 dto
+ * 未传的字段沿用方案默认值
+ */
+export class VoiceStyleDto {
+  @ApiProperty({
+    description:
+      '语速（VertexAI 0.25 ~ 4.0，MiniMax 0.5 ~ 2.0，Gemini 转为快慢的风格指令）',
+    example: 1.0,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'speakingRate 必须是数字' })
+  @Min(0.25)
+  @Max(4.0)
+  speakingRate?: number;
+
+  @ApiProperty({
+    description:
+      '音调（半音，VertexAI -20.0 ~ 20.0，MiniMax 取整到 -12 ~ 12，Gemini 转为高低的风格指令）',
+    example: 0.0,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'pitch 必须是数字' })
+  @Min(-20.0)
+  @Max(20.0)
+  pitch?: number;
+
+  @ApiProperty({
+    description:
+      '音量倍率，1 为正常音量（MiniMax vol、VertexAI volumeGainDb，Gemini 转为轻重的风格指令）。开启响度归一化时输出响度仍会被统一',
+    example: 1.0,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'volume 必须是数字' })
+  @Min(0.1)
+  @Max(10)
+  volume?: number;
+
+  @ApiProperty({
+    description:
+      '朗读情绪（MiniMax emotion，Gemini 转为情绪的风格指令，VertexAI 不支持）',
+    enum: TTS_EMOTIONS,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(TTS_EMOTIONS, {
+    message: `emotion 只能是 ${TTS_EMOTIONS.join('、')}`,
+  })
+  emotion?: TtsEmotion;
+}
+
+/**
+ * 方案项各片段的朗读风格 dto
+ */
+export class SegmentStylesDto {
+  @ApiProperty({ type: VoiceStyleDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => VoiceStyleDto)
+  begin?: VoiceStyleDto;
+
+  @ApiProperty({ type: VoiceStyleDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => VoiceStyleDto)
+  middle?: VoiceStyleDto;
+
+  @ApiProperty({ type: VoiceStyleDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => VoiceStyleDto)
+  end?: VoiceStyleDto;
+}
@@ -0,0 +1,13 @@
+/**
+ * 方案锁丢失错误
+ * 锁租约过期后已被其他实例获取，持有过期锁的操作写入方案时抛出，避免覆盖新持有者的数据
+ */
+export class SchemeLockLostError extends Error {
+  constructor(
+    readonly schemeId: number,
+    message = `方案 ${schemeId} 的锁已失效`,
+  ) {
+    super(message);
+    this.name = 'SchemeLockLostError';
+  }
+}
@@ -0,0 +1,122 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { sys_tts_audio_cache } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TTS_PROVIDER_MODELS } from '../chat/chat.constants';
+import { TtsSynthesisOptions } from './types';
+import { LexiconEntry } from '../../utils/pronunciationLexicon';
+import { AudioFormat } from '../../utils/encodeAudio';
+
+/** 计算缓存键所需的合成参数 */
+export interface AudioCacheParams extends TtsSynthesisOptions {
+  provider: string;
+  voiceName: string;
+  text: string;
+  lexicon?: LexiconEntry[]; // 文本中出现的发音词条
+  roleVoices?: Record<string, string>; // 文本中出现的角色语音
+  postProcess?: string | null; // 后处理参数签名
+  format?: AudioFormat; // 输出音频格式
+}
+
+/** 写入缓存的音频信息 */
+export interface CachedAudio {
+  audioUrl: string; // 输出格式的音频 URL
+  masterUrl: string | null; // WAV 母版 URL
+  durationMs: number; // 音频时长（毫秒）
+  gainDb: number | null; // 响度归一化施加的增益（dB）
+}
+
+/**
+ * 合成音频缓存服务
+ * 以提供商、模型、语音、规范化文本和合成参数的哈希为键复用已生成的音频，避免重复调用付费接口
+ */
+@Injectable()
+export class TtsAudioCacheService {
+  private readonly logger = new Logger(TtsAudioCacheService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * 规范化文本：统一全半角、合并空白，避免无意义的差异导致缓存失效
+   */
+  private normalizeText(text: string): string {
+    return text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * 计算缓存键
+   * @param params 合成参数
+   * @returns SHA-256 十六进制字符串
+   */
+  buildKey(params: AudioCacheParams): string {
+    const payload = JSON.stringify([
+      params.provider,
+      TTS_PROVIDER_MODELS[params.provider] ?? '',
+      params.voiceName,
+      this.normalizeText(params.text),
+      params.speed ?? null,
+      params.languageCode ?? null,
+      params.pitch ?? null,
+      // 以下参数未使用时不参与计算，保持与未启用这些功能前的缓存键一致
+      ...(params.lexicon?.length ? [params.lexicon] : []),
+      ...(params.roleVoices && Object.keys(params.roleVoices).length
+        ? [params.roleVoices]
+        : []),
+      ...(params.postProcess ? [params.postProcess] : []),
+      ...(params.format && params.format !== 'wav' ? [params.format] : []),
+      ...(params.volume !== undefined || params.emotion
+        ? [params.volume ?? null, params.emotion ?? null]
+        : []),
+    ]);
+    return createHash('sha256').update(payload).digest('hex');
+  }
+
+  /**
+   * 查找缓存，命中时累加命中次数
+   * @param cacheKey 缓存键
+   * @returns 缓存记录，未命中返回 null
+   */
+  async find(cacheKey: string): Promise<sys_tts_audio_cache | null> {
+    const cached = await this.prisma.sys_tts_audio_cache.findUnique({
+      where: { cache_key: cacheKey },
+    });
+    if (!cached) return null;
+
+    await this.prisma.sys_tts_audio_cache.update({
+      where: { id: cached.id },
+      data: { hit_count: { increment: 1 } },
+    });
+    return cached;
+  }
+
+  /**
+   * 写入缓存，同一缓存键已存在时覆盖
+   * @param cacheKey 缓存键
+   * @param params 合成参数
+   * @param audio 音频信息
+   */
+  async save(
+    cacheKey: string,
+    params: AudioCacheParams,
+    audio: CachedAudio,
+  ): Promise<void> {
+    const data = {
+      provider: params.provider,
+      model: TTS_PROVIDER_MODELS[params.provider] ?? '',
+      voice_name: params.voiceName,
+      text_content: this.normalizeText(params.text),
+      audio_url: audio.audioUrl,
+      master_url: audio.masterUrl,
+      duration_ms: audio.durationMs,
+      gain_db: audio.gainDb,
+    };
+
+    await this.prisma.sys_tts_audio_cache.upsert({
+      where: { cache_key: cacheKey },
+      update: { ...data, update_time: new Date() },
+      create: { cache_key: cacheKey, ...data },
+    });
+
+    this.logger.log(`音频已写入缓存 [key: ${cacheKey}]`);
+  }
+}
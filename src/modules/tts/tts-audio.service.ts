@@ -0,0 +1,80 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as dayjs from 'dayjs';
+import { OssService } from '../../common/oss/oss.service';
+import { concatWavBuffers } from '../../utils/concatWavBuffers';
+import { env } from '../../config/config';
+import {
+  AUDIO_FORMATS,
+  AudioFormat,
+  encodeAudio,
+  withAudioExtension,
+} from '../../utils/encodeAudio';
+
+/**
+ * TTS 音频处理服务
+ * 负责下载已生成的片段音频、拼接成完整旁白并按输出格式上传到 OSS
+ */
+@Injectable()
+export class TtsAudioService {
+  private readonly logger = new Logger(TtsAudioService.name);
+
+  constructor(private readonly ossService: OssService) {}
+
+  /**
+   * 下载音频文件
+   * @param url 音频文件 URL
+   */
+  async downloadAudio(url: string): Promise<Buffer> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`下载音频失败 [${response.status}]: ${url}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  /**
+   * 拼接单个方案项的 begin/middle/end 片段
+   * @param segmentUrls 按顺序排列的片段音频 URL
+   * @returns 拼接后的 WAV 数据
+   */
+  async buildItemNarration(segmentUrls: string[]): Promise<Buffer> {
+    const buffers = await Promise.all(
+      segmentUrls.map((url) => this.downloadAudio(url)),
+    );
+    return concatWavBuffers(buffers, env.TTS_SEGMENT_SILENCE_MS);
+  }
+
+  /**
+   * 拼接整个方案的旁白音轨
+   * @param itemBuffers 按方案索引排列的方案项音频
+   * @returns 拼接后的 WAV 数据
+   */
+  buildSchemeNarration(itemBuffers: Buffer[]): Promise<Buffer> {
+    return concatWavBuffers(itemBuffers, env.TTS_ITEM_SILENCE_MS);
+  }
+
+  /**
+   * 将拼接后的旁白音频编码为输出格式并上传，按日期文件夹存储
+   * @param buffer WAV 数据
+   * @param fileName 文件名，扩展名按输出格式替换
+   * @param format 输出音频格式
+   * @returns 音频文件 URL
+   */
+  async uploadNarration(
+    buffer: Buffer,
+    fileName: string,
+    format: AudioFormat = 'wav',
+  ): Promise<string> {
+    const currentDate = dayjs().format('YYYY-MM-DD');
+    const ossKey = `audio/${currentDate}/narration/${withAudioExtension(fileName, format)}`;
+
+    const result = await this.ossService.uploadBuffer(
+      await encodeAudio(buffer, format),
+      ossKey,
+      AUDIO_FORMATS[format].contentType,
+    );
+
+    this.logger.log(`旁白音频已上传: ${ossKey}`);
+    return result.url;
+  }
+}
@@ -0,0 +1,490 @@
+import { BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TtsBillingService } from './tts-billing.service';
+import { TtsSchemeLockService } from './tts-scheme-lock.service';
+import { TaskStatus } from './tts.constants';
+
+jest.mock('../../config/config', () => ({
+  env: {
+    TTS_GEMINI_POINTS_PER_1K_CHARS: 10,
+    TTS_GEMINI_COST_PER_1K_CHARS: 0.1,
+    TTS_MINIMAX_POINTS_PER_1K_CHARS: 30,
+    TTS_MINIMAX_COST_PER_1K_CHARS: 0.35,
+    TTS_VERTEXAI_POINTS_PER_1K_CHARS: 10,
+    TTS_VERTEXAI_COST_PER_1K_CHARS: 0.12,
+  },
+}));
+
+describe('TtsBillingService', () => {
+  const prisma = {
+    sys_generate_scheme_manage: { findUnique: jest.fn() },
+    sys_user: { findUnique: jest.fn() },
+  };
+  const service = new TtsBillingService(
+    prisma as unknown as PrismaService,
+    {} as TtsSchemeLockService,
+  );
+
+  beforeEach(() => jest.resetAllMocks());
+
+  describe('countCharacters', () => {
+    it('counts code points of the trimmed text', () => {
+      expect(service.countCharacters('  你好 world \n')).toBe(8);
+      expect(service.countCharacters('𠮷野家')).toBe(3);
+    });
+  });
+
+  describe('toPoints', () => {
+    it('rounds partial points up', () => {
+      expect(service.toPoints(1, 'gemini')).toBe(1);
+      expect(service.toPoints(1000, 'gemini')).toBe(10);
+      expect(service.toPoints(1001, 'gemini')).toBe(11);
+      expect(service.toPoints(1001, 'minimax')).toBe(31);
+    });
+
+    it('charges nothing for no characters or unknown providers', () => {
+      expect(service.toPoints(0, 'gemini')).toBe(0);
+      expect(service.toPoints(1000, 'unknown')).toBe(0);
+    });
+  });
+
+  describe('estimate', () => {
+    it('rounds the total of all texts rather than each text', () => {
+      const texts = Array.from({ length: 10 }, () => '一'.repeat(10));
+
+      expect(service.estimate(texts, 'gemini')).toEqual({
+        characters: 100,
+        estimatedCost: 0.01,
+        points: 1,
+      });
+    });
+
+    it('uses the rate of the provider', () => {
+      expect(service.estimate(['一'.repeat(1500)], 'minimax')).toEqual({
+        characters: 1500,
+        estimatedCost: 0.525,
+        points: 45,
+      });
+    });
+
+    it('rejects unknown providers', () => {
+      expect(() => service.estimate(['你好'], 'unknown')).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('estimateAll', () => {
+    it('estimates every provider', () => {
+      expect(service.estimateAll(['一'.repeat(2000)])).toEqual([
+        {
+          provider: 'gemini',
+          characters: 2000,
+          estimatedCost: 0.2,
+          points: 20,
+        },
+        {
+          provider: 'minimax',
+          characters: 2000,
+          estimatedCost: 0.7,
+          points: 60,
+        },
+        {
+          provider: 'vertexai',
+          characters: 2000,
+          estimatedCost: 0.24,
+          points: 20,
+        },
+      ]);
+    });
+  });
+});
+
+/** 内存中的积分账户和方案，模拟预扣、退还和结算用到的查询与更新 */
+describe('TtsBillingService points ledger', () => {
+  interface FakeTask {
+    id: number;
+    status: TaskStatus;
+    text_content: string;
+    tts_model: string;
+    duration_ms: number | null;
+    cache_hit: boolean;
+    billed_characters: number | null;
+  }
+
+  interface FakeScheme {
+    user_id: number | null;
+    tts_held_points: bigint;
+    tts_charged_points: bigint;
+    tts_refunded_points: bigint;
+  }
+
+  interface FakeUser {
+    id: number;
+    user_name: string;
+    balance: number;
+    consume_sum_points: number;
+  }
+
+  type BigIntUpdate = { increment?: bigint; decrement?: bigint };
+
+  let tasks: FakeTask[];
+  let scheme: FakeScheme;
+  let user: FakeUser;
+  let prisma: ReturnType<typeof createPrisma>;
+  let service: TtsBillingService;
+
+  function applyUpdate(value: bigint, update: BigIntUpdate): bigint {
+    return value + (update.increment ?? 0n) - (update.decrement ?? 0n);
+  }
+
+  /** $executeRaw 以模板字符串调用，按语句内容模拟对 sys_user 的更新 */
+  function executeRaw(strings: TemplateStringsArray, ...values: number[]) {
+    const sql = strings.join('?');
+    if (sql.includes('balance >=')) {
+      const [points, , minimum] = values;
+      if (user.balance < minimum) return Promise.resolve(0);
+      user.balance -= points;
+    } else if (sql.includes('consume_sum_points')) {
+      const [refunded, charged] = values;
+      user.balance += refunded;
+      user.consume_sum_points += charged;
+    } else {
+      user.balance += values[0];
+    }
+    return Promise.resolve(1);
+  }
+
+  function createPrisma() {
+    const client = {
+      sys_tts_task: {
+        count: jest.fn(({ where }: { where: { status: TaskStatus } }) =>
+          Promise.resolve(
+            tasks.filter((item) => item.status === where.status).length,
+          ),
+        ),
+        findMany: jest.fn(({ where }: { where: { status: TaskStatus } }) =>
+          Promise.resolve(
+            tasks
+              .filter(
+                (item) =>
+                  item.status === where.status &&
+                  item.billed_characters === null,
+              )
+              .map((item) => ({ ...item })),
+          ),
+        ),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { id: number };
+            data: { billed_characters: number };
+          }) => {
+            const task = tasks.find(
+              (item) => item.id === where.id && item.billed_characters === null,
+            );
+            if (task) Object.assign(task, data);
+            return Promise.resolve({ count: task ? 1 : 0 });
+          },
+        ),
+      },
+      sys_generate_scheme_manage: {
+        findUnique: jest.fn(() => Promise.resolve({ ...scheme })),
+        update: jest.fn(({ data }: { data: Record<string, BigIntUpdate> }) => {
+          for (const [field, update] of Object.entries(data)) {
+            const key = field as keyof Omit<FakeScheme, 'user_id'>;
+            scheme[key] = applyUpdate(scheme[key], update);
+          }
+          return Promise.resolve(scheme);
+        }),
+      },
+      sys_user: {
+        findUnique: jest.fn(() => Promise.resolve({ ...user })),
+      },
+      sys_narrate_record: { create: jest.fn() },
+      $executeRaw: jest.fn(executeRaw),
+    };
+    return client;
+  }
+
+  function task(
+    id: number,
+    status: TaskStatus,
+    characters: number,
+    extra: Partial<FakeTask> = {},
+  ): FakeTask {
+    return {
+      id,
+      status,
+      text_content: '一'.repeat(characters),
+      tts_model: 'gemini',
+      duration_ms: 1000,
+      cache_hit: false,
+      billed_characters: null,
+      ...extra,
+    };
+  }
+
+  beforeEach(() => {
+    tasks = [];
+    scheme = {
+      user_id: 7,
+      tts_held_points: 0n,
+      tts_charged_points: 0n,
+      tts_refunded_points: 0n,
+    };
+    user = { id: 7, user_name: '张三', balance: 100, consume_sum_points: 0 };
+    prisma = createPrisma();
+    const ttsSchemeLockService = {
+      transaction: jest.fn(
+        (_schemeId: number, fn: (tx: unknown) => Promise<unknown>) =>
+          fn(prisma),
+      ),
+    };
+    service = new TtsBillingService(
+      prisma as unknown as PrismaService,
+      ttsSchemeLockService as unknown as TtsSchemeLockService,
+    );
+  });
+
+  describe('holdPoints', () => {
+    it('deducts the points and records them as held on the scheme', async () => {
+      await service.holdPoints(1, 30);
+
+      expect(user.balance).toBe(70);
+      expect(scheme.tts_held_points).toBe(30n);
+    });
+
+    it('rejects when the balance is lower than the points', async () => {
+      user.balance = 5;
+
+      await expect(service.holdPoints(1, 6)).rejects.toThrow(
+        '积分余额不足：本次预计消耗 6 积分，当前余额 5 积分',
+      );
+      expect(user.balance).toBe(5);
+      expect(scheme.tts_held_points).toBe(0n);
+    });
+
+    it('never lets concurrent holds overdraw the balance', async () => {
+      user.balance = 10;
+
+      const results = await Promise.allSettled([
+        service.holdPoints(1, 6),
+        service.holdPoints(1, 6),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+      expect(user.balance).toBe(4);
+      expect(scheme.tts_held_points).toBe(6n);
+    });
+
+    it('records the hold without deducting for schemes without an owner', async () => {
+      scheme.user_id = null;
+
+      await service.holdPoints(1, 30);
+
+      expect(prisma.$executeRaw).not.toHaveBeenCalled();
+      expect(scheme.tts_held_points).toBe(30n);
+    });
+
+    it('does nothing when nothing is charged', async () => {
+      await service.holdPoints(1, 0);
+
+      expect(prisma.$executeRaw).not.toHaveBeenCalled();
+      expect(prisma.sys_generate_scheme_manage.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releasePoints', () => {
+    it('returns held points to the owner', async () => {
+      await service.holdPoints(1, 30);
+      await service.releasePoints(1, 30);
+
+      expect(user.balance).toBe(100);
+      expect(scheme.tts_held_points).toBe(0n);
+    });
+  });
+
+  describe('settleScheme', () => {
+    it('charges successful segments per provider and refunds the rest of the hold', async () => {
+      await service.holdPoints(1, 40);
+      tasks = [
+        task(1, TaskStatus.SUCCESS, 1500, { duration_ms: 2400 }),
+        task(2, TaskStatus.SUCCESS, 500, {
+          tts_model: 'minimax',
+          duration_ms: 1300,
+        }),
+      ];
+
+      await service.settleScheme(1);
+
+      // gemini 1500 字 15 积分，minimax 500 字 15 积分
+      expect(user).toMatchObject({ balance: 70, consume_sum_points: 30 });
+      expect(scheme).toMatchObject({
+        tts_held_points: 0n,
+        tts_charged_points: 30n,
+        tts_refunded_points: 10n,
+      });
+      expect(prisma.sys_narrate_record.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          scheme_id: 1,
+          user_id: 7,
+          user_name: '张三',
+          duration: 4,
+          consumption_points: 30,
+          dub_number: 2,
+        }),
+      });
+      expect(tasks.map((item) => item.billed_characters)).toEqual([1500, 500]);
+    });
+
+    it('never charges more than was held', async () => {
+      await service.holdPoints(1, 10);
+      tasks = [task(1, TaskStatus.SUCCESS, 1000, { tts_model: 'minimax' })];
+
+      await service.settleScheme(1);
+
+      expect(user).toMatchObject({ balance: 90, consume_sum_points: 10 });
+      expect(scheme.tts_charged_points).toBe(10n);
+    });
+
+    it('caps the charge at the estimate when falling back to a pricier provider', async () => {
+      const texts = ['一'.repeat(1000)];
+      const { points } = service.estimate(texts, 'gemini');
+      await service.holdPoints(1, points);
+      tasks = [task(1, TaskStatus.SUCCESS, 1000, { tts_model: 'minimax' })];
+
+      await service.settleScheme(1);
+
+      expect(service.estimate(texts, 'minimax').points).toBeGreaterThan(points);
+      expect(user).toMatchObject({
+        balance: 100 - points,
+        consume_sum_points: points,
+      });
+      expect(scheme.tts_refunded_points).toBe(0n);
+    });
+
+    it('refunds segments served from the audio cache', async () => {
+      await service.holdPoints(1, 20);
+      tasks = [
+        task(1, TaskStatus.SUCCESS, 1000),
+        task(2, TaskStatus.SUCCESS, 1000, { cache_hit: true }),
+      ];
+
+      await service.settleScheme(1);
+
+      expect(user.balance).toBe(90);
+      expect(scheme.tts_refunded_points).toBe(10n);
+      expect(tasks.map((item) => item.billed_characters)).toEqual([1000, 0]);
+    });
+
+    it('refunds failed segments and charges them once a retry succeeds', async () => {
+      await service.holdPoints(1, 30);
+      tasks = [
+        task(1, TaskStatus.SUCCESS, 1000),
+        task(2, TaskStatus.FAILED, 2000),
+      ];
+
+      await service.settleScheme(1);
+
+      expect(user.balance).toBe(90);
+      expect(scheme.tts_refunded_points).toBe(20n);
+      expect(tasks[1].billed_characters).toBeNull();
+
+      await service.holdPoints(1, 20);
+      tasks[1].status = TaskStatus.SUCCESS;
+      await service.settleScheme(1);
+
+      expect(user).toMatchObject({ balance: 70, consume_sum_points: 30 });
+      expect(scheme).toMatchObject({
+        tts_held_points: 0n,
+        tts_charged_points: 30n,
+        tts_refunded_points: 20n,
+      });
+      expect(prisma.sys_narrate_record.create).toHaveBeenLastCalledWith({
+        data: expect.objectContaining({
+          consumption_points: 20,
+          dub_number: 1,
+        }),
+      });
+    });
+
+    it('refunds the whole hold when every segment was cancelled', async () => {
+      await service.holdPoints(1, 20);
+      tasks = [task(1, TaskStatus.CANCELLED, 2000)];
+
+      await service.settleScheme(1);
+
+      expect(user.balance).toBe(100);
+      expect(scheme.tts_refunded_points).toBe(20n);
+      expect(prisma.sys_narrate_record.create).not.toHaveBeenCalled();
+    });
+
+    it('charges each segment only once when settled twice', async () => {
+      await service.holdPoints(1, 10);
+      tasks = [task(1, TaskStatus.SUCCESS, 1000)];
+
+      await service.settleScheme(1);
+      await service.settleScheme(1);
+
+      expect(user).toMatchObject({ balance: 90, consume_sum_points: 10 });
+      expect(prisma.sys_narrate_record.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('rolls back when a segment was settled concurrently', async () => {
+      tasks = [task(1, TaskStatus.SUCCESS, 1000)];
+      prisma.sys_tts_task.findMany.mockImplementationOnce(() => {
+        const snapshot = tasks.map((item) => ({ ...item }));
+        tasks[0].billed_characters = 1000;
+        return Promise.resolve(snapshot);
+      });
+
+      await expect(service.settleScheme(1)).rejects.toThrow(
+        '片段 1 已被其他操作结算',
+      );
+      expect(prisma.sys_narrate_record.create).not.toHaveBeenCalled();
+    });
+
+    it('records schemes without an owner without touching balances', async () => {
+      scheme.user_id = null;
+      await service.holdPoints(1, 10);
+      tasks = [task(1, TaskStatus.SUCCESS, 1000)];
+
+      await service.settleScheme(1);
+
+      expect(prisma.$executeRaw).not.toHaveBeenCalled();
+      expect(prisma.sys_narrate_record.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          user_id: null,
+          consumption_points: 10,
+        }),
+      });
+    });
+
+    it('waits while tasks are still pending', async () => {
+      await service.holdPoints(1, 20);
+      tasks = [
+        task(1, TaskStatus.SUCCESS, 1000),
+        task(2, TaskStatus.PENDING, 1000),
+      ];
+
+      await service.settleScheme(1);
+
+      expect(scheme.tts_held_points).toBe(20n);
+      expect(tasks[0].billed_characters).toBeNull();
+    });
+
+    it('does nothing when there is nothing to settle', async () => {
+      tasks = [task(1, TaskStatus.SUCCESS, 1000, { billed_characters: 1000 })];
+
+      await service.settleScheme(1);
+
+      expect(prisma.sys_generate_scheme_manage.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,367 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Prisma, sys_tts_task } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { env } from '../../config/config';
+import { TaskStatus } from './tts.constants';
+import { TtsSchemeLockService } from './tts-scheme-lock.service';
+import { ProviderEstimateDto } from './dto/estimate-tts-task.dto';
+import { SchemeChargeDto } from './dto/get-status-overall-status.dto';
+
+/** 提供商的计费标准 */
+interface ProviderRate {
+  pointsPer1kChars: number; // 每千字符消耗的积分
+  costPer1kChars: number; // 每千字符的提供商成本（元）
+}
+
+/** 单个提供商的费用估算 */
+export type ChargeEstimate = Omit<ProviderEstimateDto, 'provider'>;
+
+/** 参与结算的片段字段 */
+type BillableTask = Pick<sys_tts_task, 'text_content' | 'tts_model'>;
+
+/**
+ * TTS 计费服务
+ * 按字符数估算各提供商的成本和消耗的积分；创建任务时预扣方案所属用户的积分，
+ * 配音完成或取消后按实际费用结算，未用完的预扣积分退还
+ */
+@Injectable()
+export class TtsBillingService {
+  private readonly logger = new Logger(TtsBillingService.name);
+
+  /** 各提供商的计费标准 */
+  private readonly rates: Record<string, ProviderRate> = {
+    gemini: {
+      pointsPer1kChars: env.TTS_GEMINI_POINTS_PER_1K_CHARS,
+      costPer1kChars: env.TTS_GEMINI_COST_PER_1K_CHARS,
+    },
+    minimax: {
+      pointsPer1kChars: env.TTS_MINIMAX_POINTS_PER_1K_CHARS,
+      costPer1kChars: env.TTS_MINIMAX_COST_PER_1K_CHARS,
+    },
+    vertexai: {
+      pointsPer1kChars: env.TTS_VERTEXAI_POINTS_PER_1K_CHARS,
+      costPer1kChars: env.TTS_VERTEXAI_COST_PER_1K_CHARS,
+    },
+  };
+
+  constructor(
+    private prisma: PrismaService,
+    private ttsSchemeLockService: TtsSchemeLockService,
+  ) {}
+
+  /**
+   * 计费字符数：去除首尾空白后按 Unicode 字符计
+   * @param text 合成的文本
+   */
+  countCharacters(text: string): number {
+    return [...text.trim()].length;
+  }
+
+  /**
+   * 估算合成一组文本的字符数、提供商成本和消耗的积分
+   * @param texts 要合成的文本
+   * @param provider TTS 提供商
+   */
+  estimate(texts: string[], provider: string): ChargeEstimate {
+    const rate = this.rates[provider];
+    if (!rate) {
+      throw new BadRequestException(`不支持的 TTS 提供商: ${provider}`);
+    }
+
+    const characters = texts.reduce(
+      (sum, text) => sum + this.countCharacters(text),
+      0,
+    );
+    return {
+      characters,
+      estimatedCost:
+        Math.round((characters / 1000) * rate.costPer1kChars * 10000) / 10000,
+      points: this.toPoints(characters, provider),
+    };
+  }
+
+  /**
+   * 按所有提供商分别估算，供用户比较
+   * @param texts 要合成的文本
+   */
+  estimateAll(texts: string[]): ProviderEstimateDto[] {
+    return Object.keys(this.rates).map((provider) => ({
+      provider,
+      ...this.estimate(texts, provider),
+    }));
+  }
+
+  /**
+   * 字符数换算为积分，不足 1 积分按 1 积分计
+   * @param characters 字符数
+   * @param provider TTS 提供商
+   */
+  toPoints(characters: number, provider: string): number {
+    const rate = this.rates[provider];
+    if (!rate || !characters) return 0;
+    return Math.ceil((characters / 1000) * rate.pointsPer1kChars);
+  }
+
+  /**
+   * 查询方案所属用户的积分余额
+   * @param schemeId 方案 ID
+   * @param db 数据库客户端，事务内查询时传入事务客户端
+   * @returns 积分余额，方案没有所属用户时返回 null
+   */
+  async getSchemeBalance(
+    schemeId: number,
+    db: Prisma.TransactionClient = this.prisma,
+  ): Promise<number | null> {
+    const userId = await this.getSchemeUserId(schemeId, db);
+    if (!userId) return null;
+
+    const user = await db.sys_user.findUnique({
+      where: { id: userId },
+      select: { balance: true },
+    });
+    return Number(user?.balance ?? 0);
+  }
+
+  /**
+   * 预扣积分：余额足够时从方案所属用户扣除，记入方案的预扣积分，结算时多余部分退还
+   * 扣除以余额足够为条件，并发的预扣不会使余额变为负数
+   * @param schemeId 方案 ID
+   * @param points 预计消耗的积分
+   * @throws BadRequestException 积分余额不足
+   */
+  async holdPoints(schemeId: number, points: number): Promise<void> {
+    if (points <= 0) return;
+
+    await this.ttsSchemeLockService.transaction(schemeId, async (tx) => {
+      const userId = await this.getSchemeUserId(schemeId, tx);
+      if (userId) {
+        const deducted = await tx.$executeRaw`
+          UPDATE sys_user
+          SET balance = balance - ${points}
+          WHERE id = ${userId} AND balance >= ${points}`;
+        if (!deducted) {
+          const balance = await this.getSchemeBalance(schemeId, tx);
+          throw new BadRequestException(
+            `积分余额不足：本次预计消耗 ${points} 积分，当前余额 ${balance} 积分`,
+          );
+        }
+      }
+
+      await tx.sys_generate_scheme_manage.update({
+        where: { id: schemeId },
+        data: { tts_held_points: { increment: BigInt(points) } },
+      });
+    });
+
+    this.logger.log(`方案 [ID: ${schemeId}] 预扣 ${points} 积分`);
+  }
+
+  /**
+   * 退还预扣的积分，预扣后未能创建任务时调用
+   * @param schemeId 方案 ID
+   * @param points 预扣的积分
+   */
+  async releasePoints(schemeId: number, points: number): Promise<void> {
+    if (points <= 0) return;
+
+    await this.ttsSchemeLockService.transaction(schemeId, async (tx) => {
+      const userId = await this.getSchemeUserId(schemeId, tx);
+      if (userId) {
+        await tx.$executeRaw`
+          UPDATE sys_user
+          SET balance = IFNULL(balance, 0) + ${points}
+          WHERE id = ${userId}`;
+      }
+      await tx.sys_generate_scheme_manage.update({
+        where: { id: schemeId },
+        data: { tts_held_points: { decrement: BigInt(points) } },
+      });
+    });
+
+    this.logger.log(`方案 [ID: ${schemeId}] 退还预扣的 ${points} 积分`);
+  }
+
+  /**
+   * 结算方案的配音费用，在方案锁内、方案全部完成或取消时调用
+   * 计费规则：
+   * - 成功片段按实际使用的提供商和字符数扣费，每个片段只结算一次
+   * - 命中音频缓存、最终失败和已取消的片段不扣费
+   * - 实际扣除不超过预扣积分（降级到更贵的提供商时按预扣封顶），多余的预扣积分退还给用户；
+   *   失败片段重试时重新预扣，重试成功后在下次结算时扣费
+   * 扣除余额、退还预扣、写入配音记录和标记片段已结算在同一事务内完成
+   * @param schemeId 方案 ID
+   */
+  async settleScheme(schemeId: number): Promise<void> {
+    const pendingCount = await this.prisma.sys_tts_task.count({
+      where: { scheme_id: schemeId, status: TaskStatus.PENDING },
+    });
+    if (pendingCount) {
+      this.logger.warn(
+        `方案 [ID: ${schemeId}] 仍有 ${pendingCount} 个待处理任务，暂不结算`,
+      );
+      return;
+    }
+
+    const succeeded = await this.prisma.sys_tts_task.findMany({
+      where: {
+        scheme_id: schemeId,
+        status: TaskStatus.SUCCESS,
+        billed_characters: null,
+      },
+      select: {
+        id: true,
+        text_content: true,
+        tts_model: true,
+        duration_ms: true,
+        cache_hit: true,
+      },
+    });
+    const billed = succeeded.filter((task) => !task.cache_hit);
+
+    const result = await this.ttsSchemeLockService.transaction(
+      schemeId,
+      async (tx) => {
+        const scheme = await tx.sys_generate_scheme_manage.findUnique({
+          where: { id: schemeId },
+          select: { user_id: true, tts_held_points: true },
+        });
+        const heldPoints = Number(scheme?.tts_held_points ?? 0);
+        if (!succeeded.length && !heldPoints) return null;
+
+        const points = Math.min(this.sumPoints(billed), heldPoints);
+        const refundedPoints = heldPoints - points;
+
+        for (const task of succeeded) {
+          const { count } = await tx.sys_tts_task.updateMany({
+            where: { id: task.id, billed_characters: null },
+            data: {
+              billed_characters: task.cache_hit
+                ? 0
+                : this.countCharacters(task.text_content),
+            },
+          });
+          if (!count) {
+            throw new Error(`片段 ${task.id} 已被其他操作结算`);
+          }
+        }
+
+        const user = scheme?.user_id
+          ? await tx.sys_user.findUnique({
+              where: { id: scheme.user_id },
+              select: { id: true, user_name: true },
+            })
+          : null;
+        if (user) {
+          await tx.$executeRaw`
+            UPDATE sys_user
+            SET balance = IFNULL(balance, 0) + ${refundedPoints},
+                consume_sum_points = IFNULL(consume_sum_points, 0) + ${points}
+            WHERE id = ${user.id}`;
+        }
+
+        if (succeeded.length) {
+          const now = new Date();
+          await tx.sys_narrate_record.create({
+            data: {
+              scheme_id: schemeId,
+              user_id: user?.id ?? null,
+              user_name: user?.user_name ?? null,
+              narrate_date: now,
+              duration: Math.round(
+                succeeded.reduce(
+                  (sum, task) => sum + (task.duration_ms ?? 0),
+                  0,
+                ) / 1000,
+              ),
+              consumption_points: points,
+              dub_number: succeeded.length,
+              create_id: user?.id ?? null,
+              create_by: user?.user_name ?? null,
+              create_time: now,
+            },
+          });
+        }
+
+        await tx.sys_generate_scheme_manage.update({
+          where: { id: schemeId },
+          data: {
+            tts_held_points: { decrement: BigInt(heldPoints) },
+            tts_charged_points: { increment: BigInt(points) },
+            tts_refunded_points: { increment: BigInt(refundedPoints) },
+          },
+        });
+        return { points, refundedPoints };
+      },
+    );
+    if (!result) return;
+
+    this.logger.log(
+      `方案 [ID: ${schemeId}] 配音结算完成 - 扣除 ${result.points} 积分 (${billed.length} 个片段，${succeeded.length - billed.length} 个命中缓存)，退还预扣 ${result.refundedPoints} 积分`,
+    );
+  }
+
+  /**
+   * 查询方案的配音计费情况
+   * @param schemeId 方案 ID
+   */
+  async getSchemeCharge(schemeId: number): Promise<SchemeChargeDto> {
+    const [scheme, lastRecord] = await Promise.all([
+      this.prisma.sys_generate_scheme_manage.findUnique({
+        where: { id: schemeId },
+        select: {
+          tts_charged_points: true,
+          tts_refunded_points: true,
+          tts_held_points: true,
+        },
+      }),
+      this.prisma.sys_narrate_record.findFirst({
+        where: { scheme_id: schemeId },
+        orderBy: { id: 'desc' },
+      }),
+    ]);
+
+    return {
+      chargedPoints: Number(scheme?.tts_charged_points ?? 0),
+      lastChargedPoints: lastRecord
+        ? Number(lastRecord.consumption_points ?? 0)
+        : null,
+      refundedPoints: Number(scheme?.tts_refunded_points ?? 0),
+      heldPoints: Number(scheme?.tts_held_points ?? 0),
+      narrateRecordId: lastRecord?.id ?? null,
+      chargedAt: lastRecord?.create_time ?? null,
+    };
+  }
+
+  /**
+   * 查询方案所属用户 ID
+   */
+  private async getSchemeUserId(
+    schemeId: number,
+    db: Prisma.TransactionClient,
+  ): Promise<number | null> {
+    const scheme = await db.sys_generate_scheme_manage.findUnique({
+      where: { id: schemeId },
+      select: { user_id: true },
+    });
+    return scheme?.user_id ?? null;
+  }
+
+  /**
+   * 按片段实际使用的提供商分别换算积分后求和
+   */
+  private sumPoints(tasks: BillableTask[]): number {
+    const characters = new Map<string, number>();
+    for (const task of tasks) {
+      const provider = task.tts_model ?? '';
+      characters.set(
+        provider,
+        (characters.get(provider) ?? 0) +
+          this.countCharacters(task.text_content),
+      );
+    }
+    return [...characters].reduce(
+      (sum, [provider, count]) => sum + this.toPoints(count, provider),
+      0,
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { TtsJobData, TtsProgressEvent } from './types';
+
+type TtsEventListener = (event: TtsProgressEvent) => void;
+
+/**
+ * TTS 进度事件服务
+ * 通过 Redis 发布订阅转发 Worker 产生的进度事件，多实例部署时任一实例的 SSE 连接都能收到
+ */
+@Injectable()
+export class TtsEventsService implements OnModuleDestroy {
+  private readonly logger = new Logger(TtsEventsService.name);
+
+  /** 订阅专用连接，Redis 连接进入订阅模式后不能再执行普通命令 */
+  private subscriber?: Promise<Awaited<Queue['client']>>;
+
+  /** 各方案频道的本地监听器 */
+  private listeners = new Map<string, Set<TtsEventListener>>();
+
+  constructor(@InjectQueue('ttsQueue') private ttsQueue: Queue<TtsJobData>) {}
+
+  private channel(schemeId: number): string {
+    return `tts:events:${schemeId}`;
+  }
+
+  /**
+   * 发布进度事件，发布失败只记录日志，不影响任务处理
+   * @param event 进度事件（不含时间戳）
+   */
+  async publish(event: Omit<TtsProgressEvent, 'timestamp'>): Promise<void> {
+    try {
+      const client = await this.ttsQueue.client;
+      await client.publish(
+        this.channel(event.schemeId),
+        JSON.stringify({ ...event, timestamp: Date.now() }),
+      );
+    } catch (error) {
+      this.logger.error(`发布 TTS 进度事件失败 [type: ${event.type}]`, error);
+    }
+  }
+
+  /**
+   * 订阅方案的进度事件
+   * @param schemeId 方案 ID
+   * @param listener 事件回调
+   * @returns 取消订阅函数
+   */
+  async subscribe(
+    schemeId: number,
+    listener: TtsEventListener,
+  ): Promise<() => Promise<void>> {
+    const channel = this.channel(schemeId);
+    const subscriber = await this.getSubscriber();
+
+    let channelListeners = this.listeners.get(channel);
+    if (!channelListeners) {
+      channelListeners = new Set();
+      this.listeners.set(channel, channelListeners);
+      await subscriber.subscribe(channel);
+    }
+    channelListeners.add(listener);
+
+    return async () => {
+      channelListeners.delete(listener);
+      if (
+        !channelListeners.size &&
+        this.listeners.get(channel) === channelListeners
+      ) {
+        this.listeners.delete(channel);
+        await subscriber.unsubscribe(channel);
+      }
+    };
+  }
+
+  private getSubscriber() {
+    this.subscriber ??= this.ttsQueue.client.then((client) => {
+      const subscriber = client.duplicate();
+      subscriber.on('message', (channel: string, message: string) => {
+        const event = JSON.parse(message) as TtsProgressEvent;
+        this.listeners.get(channel)?.forEach((listener) => listener(event));
+      });
+      return subscriber;
+    });
+    return this.subscriber;
+  }
+
+  async onModuleDestroy() {
+    if (this.subscriber) {
+      await (await this.subscriber).quit();
+    }
+  }
+}
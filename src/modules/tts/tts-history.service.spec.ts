@@ -0,0 +1,121 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TtsTaskService } from './tts.service';
+import { TtsSchemeStateService } from './tts-scheme-state.service';
+import { TtsSchemeContentService } from './tts-scheme-content.service';
+import { TtsSchemeLockService } from './tts-scheme-lock.service';
+import { TtsHistoryService } from './tts-history.service';
+import { SchemeState, TaskStatus } from './tts.constants';
+
+jest.mock('../../config/config', () => ({ env: {} }));
+
+describe('TtsHistoryService.promoteTake', () => {
+  const take = {
+    id: 5,
+    scheme_id: 1n,
+    scheme_index: 0,
+    segment_key: 'begin',
+    text_content: '你好',
+    audio_url: 'https://oss/take.mp3',
+  };
+
+  const prisma = {
+    sys_tts_task_history: { findUnique: jest.fn(), delete: jest.fn() },
+    sys_tts_task: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+  };
+  const ttsTaskService = {
+    assertSchemeNotCancelled: jest.fn(),
+    archiveTask: jest.fn(),
+  };
+  const ttsSchemeStateService = { checkSchemeTasks: jest.fn() };
+  const ttsSchemeContentService = { setSegmentAudio: jest.fn() };
+  const ttsSchemeLockService = {
+    withLock: jest.fn((_schemeId: number, fn: () => Promise<unknown>) => fn()),
+    transaction: jest.fn(
+      (_schemeId: number, fn: (tx: unknown) => Promise<unknown>) => fn(prisma),
+    ),
+    updateScheme: jest.fn(),
+  };
+
+  const service = new TtsHistoryService(
+    prisma as unknown as PrismaService,
+    ttsTaskService as unknown as TtsTaskService,
+    ttsSchemeStateService as unknown as TtsSchemeStateService,
+    ttsSchemeContentService as unknown as TtsSchemeContentService,
+    ttsSchemeLockService as unknown as TtsSchemeLockService,
+  );
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    ttsSchemeLockService.withLock.mockImplementation(
+      (_schemeId: number, fn: () => Promise<unknown>) => fn(),
+    );
+    ttsSchemeLockService.transaction.mockImplementation(
+      (_schemeId: number, fn: (tx: unknown) => Promise<unknown>) => fn(prisma),
+    );
+    prisma.sys_tts_task_history.findUnique.mockResolvedValue(take);
+  });
+
+  it('archives the current audio and reopens the scheme for summary', async () => {
+    const currentTask = { id: 9, status: TaskStatus.SUCCESS };
+    prisma.sys_tts_task.findUnique.mockResolvedValue(currentTask);
+
+    await expect(service.promoteTake(5)).resolves.toEqual({
+      schemeId: 1,
+      schemeIndex: 0,
+      segmentKey: 'begin',
+      audioUrl: 'https://oss/take.mp3',
+    });
+
+    expect(ttsTaskService.archiveTask).toHaveBeenCalledWith(
+      currentTask,
+      prisma,
+    );
+    expect(prisma.sys_tts_task.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({
+          status: TaskStatus.SUCCESS,
+          billed_characters: 0,
+        }),
+      }),
+    );
+    expect(prisma.sys_tts_task_history.delete).toHaveBeenCalledWith({
+      where: { id: 5 },
+    });
+    expect(ttsSchemeLockService.updateScheme).toHaveBeenCalledWith(1, {
+      tts_task_state: SchemeState.PROCESSING,
+    });
+    expect(ttsSchemeStateService.checkSchemeTasks).toHaveBeenCalledWith(1n);
+  });
+
+  it('rejects unknown takes', async () => {
+    prisma.sys_tts_task_history.findUnique.mockResolvedValue(null);
+
+    await expect(service.promoteTake(5)).rejects.toThrow(NotFoundException);
+  });
+
+  it('refuses to promote into a cancelled scheme', async () => {
+    ttsTaskService.assertSchemeNotCancelled.mockRejectedValue(
+      new BadRequestException('方案 1 已取消'),
+    );
+
+    await expect(service.promoteTake(5)).rejects.toThrow(BadRequestException);
+    expect(prisma.sys_tts_task.upsert).not.toHaveBeenCalled();
+    expect(ttsSchemeLockService.updateScheme).not.toHaveBeenCalled();
+  });
+
+  it('refuses to promote while tasks are running', async () => {
+    prisma.sys_tts_task.findFirst.mockResolvedValue({ id: 9 });
+
+    await expect(service.promoteTake(5)).rejects.toThrow(ConflictException);
+    expect(prisma.sys_tts_task.upsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { sys_tts_task_history, sys_tts_task_segment_key } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TtsTaskService } from './tts.service';
+import { TtsSchemeStateService } from './tts-scheme-state.service';
+import { TtsSchemeContentService } from './tts-scheme-content.service';
+import { TtsSchemeLockService } from './tts-scheme-lock.service';
+import { SchemeState, TaskStatus } from './tts.constants';
+import { PromoteResultDto } from './dto/tts-history.dto';
+
+/**
+ * TTS 音频历史版本服务
+ * 查询片段被覆盖前的音频版本，并支持不重新合成直接回滚到方案中
+ */
+@Injectable()
+export class TtsHistoryService {
+  private readonly logger = new Logger(TtsHistoryService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private ttsTaskService: TtsTaskService,
+    private ttsSchemeStateService: TtsSchemeStateService,
+    private ttsSchemeContentService: TtsSchemeContentService,
+    private ttsSchemeLockService: TtsSchemeLockService,
+  ) {}
+
+  /**
+   * 查询片段的历史版本，按归档时间倒序
+   * @param schemeId 方案 ID
+   * @param schemeIndex 方案索引
+   * @param segmentKey 分段 key
+   */
+  getHistory(
+    schemeId: number,
+    schemeIndex: number,
+    segmentKey: sys_tts_task_segment_key,
+  ): Promise<sys_tts_task_history[]> {
+    return this.prisma.sys_tts_task_history.findMany({
+      where: {
+        scheme_id: schemeId,
+        scheme_index: schemeIndex,
+        segment_key: segmentKey,
+      },
+      orderBy: { id: 'desc' },
+    });
+  }
+
+  /**
+   * 将历史版本回滚为片段的当前音频
+   * 当前音频会先归档，回滚后重新汇总方案状态（全部成功时重新拼接旁白和字幕）
+   * @param historyId 历史版本 ID
+   */
+  async promoteTake(historyId: number): Promise<PromoteResultDto> {
+    const take = await this.prisma.sys_tts_task_history.findUnique({
+      where: { id: historyId },
+    });
+    if (!take) {
+      throw new NotFoundException(`历史版本 ${historyId} 不存在`);
+    }
+
+    const schemeId = Number(take.scheme_id);
+    const result = await this.ttsSchemeLockService.withLock(
+      schemeId,
+      async () => {
+        await this.ttsTaskService.assertSchemeNotCancelled(schemeId);
+
+        const runningTask = await this.prisma.sys_tts_task.findFirst({
+          where: { scheme_id: schemeId, status: TaskStatus.PENDING },
+        });
+        if (runningTask) {
+          throw new ConflictException(
+            `方案 ${schemeId} 已有任务正在执行，请等待完成后再回滚`,
+          );
+        }
+
+        const uniqueKey = {
+          scheme_id: take.scheme_id,
+          scheme_index: take.scheme_index,
+          segment_key: take.segment_key,
+        };
+        const currentTask = await this.prisma.sys_tts_task.findUnique({
+          where: { scheme_id_scheme_index_segment_key: uniqueKey },
+        });
+
+        const takeData = {
+          text_content: take.text_content,
+          audio_url: take.audio_url,
+          master_audio_url: take.master_audio_url,
+          qa_status: take.qa_status,
+          qa_reason: take.qa_reason,
+          billed_characters: 0, // 恢复历史音频不重新合成，不再扣费
+          voice_name: take.voice_name,
+          tts_model: take.tts_model,
+          language: take.language,
+          speed: take.speed,
+          pitch: take.pitch,
+          volume: take.volume,
+          emotion: take.emotion,
+          duration_ms: take.duration_ms,
+          gain_db: take.gain_db,
+          status: TaskStatus.SUCCESS,
+          retry_count: 0,
+          error_log: null,
+          cache_hit: false,
+          synthesis_key: null, // 历史版本没有记录发音词条，按旧任务比较
+          update_time: new Date(),
+        };
+        // 归档当前音频、恢复历史版本和更新方案在同一事务中完成
+        await this.ttsSchemeLockService.transaction(schemeId, async (tx) => {
+          if (currentTask) {
+            await this.ttsTaskService.archiveTask(currentTask, tx);
+          }
+
+          await tx.sys_tts_task.upsert({
+            where: { scheme_id_scheme_index_segment_key: uniqueKey },
+            update: takeData,
+            create: { ...uniqueKey, ...takeData },
+          });
+
+          // 回滚后该版本成为当前音频，从历史中移除
+          await tx.sys_tts_task_history.delete({ where: { id: take.id } });
+
+          await this.ttsSchemeContentService.setSegmentAudio(
+            take.scheme_id,
+            take.scheme_index,
+            take.segment_key,
+            take.audio_url,
+          );
+
+          await this.ttsSchemeLockService.updateScheme(schemeId, {
+            tts_task_state: SchemeState.PROCESSING,
+          });
+        });
+
+        this.logger.log(
+          `已回滚历史版本 [historyId: ${historyId}, schemeId: ${schemeId}, index: ${take.scheme_index}, key: ${take.segment_key}]`,
+        );
+        return {
+          schemeId,
+          schemeIndex: take.scheme_index,
+          segmentKey: take.segment_key,
+          audioUrl: take.audio_url,
+        };
+      },
+    );
+
+    // 释放锁后汇总方案状态，拼接旁白和字幕不占用方案锁
+    await this.ttsSchemeStateService.checkSchemeTasks(take.scheme_id);
+    return result;
+  }
+}
@@ -0,0 +1,120 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { env } from '../../config/config';
+import { parseWavBuffer } from '../../utils/parseWavBuffer';
+import { pcmToWavBuffer } from '../../utils/pcmToWavBuffer';
+import { resamplePcm16 } from '../../utils/resamplePcm16';
+import { trimPcm16Silence } from '../../utils/trimPcm16Silence';
+import { measureLoudness } from '../../utils/measureLoudness';
+
+/** 后处理结果 */
+export interface PostProcessResult {
+  buffer: Buffer; // 处理后的 WAV 数据
+  durationMs: number; // 处理后的时长（毫秒）
+  gainDb: number | null; // 响度归一化施加的增益，未归一化时为 null
+}
+
+/**
+ * TTS 音频后处理服务
+ * 在上传前统一各提供商的输出：重采样到同一采样率、裁剪首尾静音、归一化到目标响度
+ */
+@Injectable()
+export class TtsPostProcessService {
+  private readonly logger = new Logger(TtsPostProcessService.name);
+
+  /**
+   * 后处理参数签名，参与音频缓存键，参数变化后不再复用旧音频
+   * @returns 签名字符串，未启用后处理时返回 null
+   */
+  getSignature(): string | null {
+    if (!env.TTS_POSTPROCESS_ENABLED) return null;
+    return [
+      env.TTS_OUTPUT_SAMPLE_RATE,
+      env.TTS_TARGET_LOUDNESS_LUFS,
+      env.TTS_PEAK_CEILING_DB,
+      env.TTS_TRIM_SILENCE_DB,
+      env.TTS_TRIM_PADDING_MS,
+    ].join('|');
+  }
+
+  /**
+   * 处理合成的音频
+   * @param wavBuffer 提供商返回的 WAV 数据
+   */
+  async process(wavBuffer: Buffer): Promise<PostProcessResult> {
+    const wav = parseWavBuffer(wavBuffer);
+    if (!env.TTS_POSTPROCESS_ENABLED || wav.bitDepth !== 16) {
+      if (wav.bitDepth !== 16) {
+        this.logger.warn(`暂不支持 ${wav.bitDepth} 位音频后处理，跳过`);
+      }
+      return { buffer: wavBuffer, durationMs: wav.durationMs, gainDb: null };
+    }
+
+    const sampleRate = env.TTS_OUTPUT_SAMPLE_RATE;
+    const { channels } = wav;
+    const resampled = resamplePcm16(
+      wav.pcm,
+      wav.sampleRate,
+      sampleRate,
+      channels,
+      channels,
+    );
+    const trimmed = trimPcm16Silence(
+      resampled,
+      sampleRate,
+      channels,
+      env.TTS_TRIM_SILENCE_DB,
+      env.TTS_TRIM_PADDING_MS,
+    );
+
+    const { pcm, gainDb } = this.normalizeLoudness(
+      trimmed,
+      sampleRate,
+      channels,
+    );
+    const buffer = await pcmToWavBuffer(pcm, channels, sampleRate, 2);
+    const durationMs = Math.round(
+      (pcm.length / (sampleRate * channels * 2)) * 1000,
+    );
+
+    this.logger.log(
+      `音频后处理完成：${wav.sampleRate}Hz → ${sampleRate}Hz，时长 ${wav.durationMs}ms → ${durationMs}ms，增益 ${gainDb ?? '-'}dB`,
+    );
+    return { buffer, durationMs, gainDb };
+  }
+
+  /**
+   * 将 PCM 归一化到目标综合响度，增益不超过峰值上限允许的范围
+   * @returns 处理后的 PCM 及实际增益（dB），静音音频不做处理
+   */
+  private normalizeLoudness(
+    pcm: Buffer,
+    sampleRate: number,
+    channels: number,
+  ): { pcm: Buffer; gainDb: number | null } {
+    const loudness = measureLoudness(pcm, sampleRate, channels);
+    if (!Number.isFinite(loudness)) return { pcm, gainDb: null };
+
+    let peak = 0;
+    for (let offset = 0; offset + 1 < pcm.length; offset += 2) {
+      peak = Math.max(peak, Math.abs(pcm.readInt16LE(offset)));
+    }
+    const peakDb = 20 * Math.log10(peak / 32768);
+
+    const gainDb =
+      Math.round(
+        Math.min(
+          env.TTS_TARGET_LOUDNESS_LUFS - loudness,
+          env.TTS_PEAK_CEILING_DB - peakDb,
+        ) * 100,
+      ) / 100;
+    if (gainDb === 0) return { pcm, gainDb };
+
+    const factor = Math.pow(10, gainDb / 20);
+    const output = Buffer.alloc(pcm.length);
+    for (let offset = 0; offset + 1 < pcm.length; offset += 2) {
+      const sample = Math.round(pcm.readInt16LE(offset) * factor);
+      output.writeInt16LE(Math.max(-32768, Math.min(32767, sample)), offset);
+    }
+    return { pcm: output, gainDb };
+  }
+}
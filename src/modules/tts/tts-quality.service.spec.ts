@@ -0,0 +1,144 @@
+import { env } from '../../config/config';
+import { pcmToWavBuffer } from '../../utils/pcmToWavBuffer';
+import { TtsQualityService } from './tts-quality.service';
+import { QaStatus } from './tts.constants';
+
+jest.mock('../../config/config', () => ({
+  env: {
+    TTS_QA_ENABLED: true,
+    TTS_QA_MIN_RMS_DB: -40,
+    TTS_QA_MAX_CLIPPING_RATIO: 0.001,
+    TTS_QA_MIN_DURATION_RATIO: 0.4,
+    TTS_QA_MAX_DURATION_RATIO: 2.5,
+    TTS_TRIM_SILENCE_DB: -50,
+  },
+}));
+
+/** 生成 24kHz 单声道 WAV，sample 给出每个样本的值 */
+function buildWav(seconds: number, sample: (i: number) => number) {
+  const frameCount = seconds * 24000;
+  const pcm = Buffer.alloc(frameCount * 2);
+  for (let i = 0; i < frameCount; i++) {
+    pcm.writeInt16LE(Math.round(sample(i)), i * 2);
+  }
+  return pcmToWavBuffer(pcm, 1, 24000);
+}
+
+/** 约 -13 dBFS 的正弦波，模拟正常的语音电平 */
+const speech = (i: number) => 10000 * Math.sin(i / 5);
+
+describe('TtsQualityService', () => {
+  const service = new TtsQualityService();
+  /** 按默认语速约 10 秒的中文文本 */
+  const text = '天'.repeat(45);
+
+  afterEach(() => {
+    env.TTS_QA_ENABLED = true;
+  });
+
+  it('skips the check when QA is disabled', async () => {
+    env.TTS_QA_ENABLED = false;
+
+    expect(service.check(await buildWav(1, speech), 10000, text)).toBeNull();
+  });
+
+  it('passes normal audio', async () => {
+    expect(service.check(await buildWav(1, speech), 10000, text)).toEqual({
+      status: QaStatus.PASSED,
+      reason: null,
+    });
+  });
+
+  it('flags a silent buffer', async () => {
+    const result = service.check(await buildWav(1, () => 0), 10000, text);
+
+    expect(result).toEqual({
+      status: QaStatus.SUSPICIOUS,
+      reason: '音量过低（RMS -∞ dBFS）',
+    });
+  });
+
+  it('flags a quiet buffer below the RMS threshold', async () => {
+    const quiet = (i: number) => 200 * Math.sin(i / 5);
+    const result = service.check(await buildWav(1, quiet), 10000, text);
+
+    expect(result?.status).toBe(QaStatus.SUSPICIOUS);
+    expect(result?.reason).toMatch(/^音量过低（RMS -\d+\.\d dBFS）$/);
+  });
+
+  it('flags a clipped buffer', async () => {
+    const clipped = (i: number) => (i % 2 ? 32767 : -32768);
+    const result = service.check(await buildWav(1, clipped), 10000, text);
+
+    expect(result).toEqual({
+      status: QaStatus.SUSPICIOUS,
+      reason: '削波样本占比 100.00%',
+    });
+  });
+
+  it('flags a truncated clip', async () => {
+    const result = service.check(await buildWav(1, speech), 2000, text);
+
+    expect(result).toEqual({
+      status: QaStatus.SUSPICIOUS,
+      reason: '时长 2000ms 远短于按字数估算的 10000ms，疑似截断',
+    });
+  });
+
+  it('flags a clip far longer than expected', async () => {
+    const result = service.check(await buildWav(1, speech), 30000, text);
+
+    expect(result?.reason).toBe('时长 30000ms 远长于按字数估算的 10000ms');
+  });
+
+  it('joins several reasons', async () => {
+    const result = service.check(await buildWav(1, () => 0), 2000, text);
+
+    expect(result?.reason).toBe(
+      '音量过低（RMS -∞ dBFS）；时长 2000ms 远短于按字数估算的 10000ms，疑似截断',
+    );
+  });
+
+  it('does not check the duration of short text', async () => {
+    const result = service.check(await buildWav(1, speech), 100, '你好');
+
+    expect(result?.status).toBe(QaStatus.PASSED);
+  });
+
+  it('accounts for the speaking rate when checking the duration', async () => {
+    const wav = await buildWav(1, speech);
+
+    expect(service.check(wav, 5000, text, { speed: 2 })?.status).toBe(
+      QaStatus.PASSED,
+    );
+    expect(service.check(wav, 5000, text, { speed: 0.5 })?.status).toBe(
+      QaStatus.SUSPICIOUS,
+    );
+  });
+
+  describe('estimateDurationMs', () => {
+    const estimate = (value: string, options = {}) =>
+      service['estimateDurationMs'](value, options);
+
+    it('counts CJK characters at the rate of the language', () => {
+      expect(estimate('天'.repeat(9))).toBe(2000);
+      expect(estimate('あ'.repeat(14), { languageCode: 'ja-JP' })).toBe(2000);
+      expect(estimate('한'.repeat(10), { languageCode: 'ko' })).toBe(2000);
+    });
+
+    it('counts other text by words', () => {
+      expect(estimate('one two three four five six seven eight nine')).toBe(
+        3333,
+      );
+    });
+
+    it('counts mixed text by characters and words', () => {
+      expect(estimate('他用 iPhone 15 拍照')).toBe(1630);
+    });
+
+    it('divides by the speaking rate', () => {
+      expect(estimate('天'.repeat(9), { speed: 1.5 })).toBe(1333);
+      expect(estimate('天'.repeat(9), { speed: 0.5 })).toBe(4000);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { env } from '../../config/config';
+import { parseWavBuffer } from '../../utils/parseWavBuffer';
+import { trimPcm16Silence } from '../../utils/trimPcm16Silence';
+import { analyzePcm16 } from '../../utils/analyzePcm16';
+import { QaStatus } from './tts.constants';
+import { TtsSynthesisOptions } from './types';
+
+/** 中日韩文字，按字估算朗读时长 */
+const CJK_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+
+/** 其他文字按词估算朗读时长 */
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/** 各语言每秒朗读的字数，按语言代码前缀匹配 */
+const CJK_CHARS_PER_SECOND: Record<string, number> = {
+  zh: 4.5,
+  cmn: 4.5,
+  yue: 4.5,
+  ja: 7,
+  ko: 5,
+};
+
+/** 未指定语言时中日韩文字的朗读速度（字/秒） */
+const DEFAULT_CJK_CHARS_PER_SECOND = 4.5;
+
+/** 其他文字的朗读速度（词/秒） */
+const WORDS_PER_SECOND = 2.7;
+
+/** 估算时长低于该值时不检查时长，短句的实际时长波动太大 */
+const MIN_EXPECTED_MS = 1500;
+
+/** 质检结果 */
+export interface QaResult {
+  status: QaStatus;
+  reason: string | null; // 未通过的原因，多个原因以分号分隔
+}
+
+/**
+ * 合成音频质检服务
+ * 提供商偶尔返回被截断或近乎静音的音频，按整段电平、削波和按字数估算的时长检查，标记可疑的音频
+ */
+@Injectable()
+export class TtsQualityService {
+  private readonly logger = new Logger(TtsQualityService.name);
+
+  /**
+   * 检查合成的音频
+   * @param wavBuffer 提供商返回的 WAV 数据（后处理前）
+   * @param durationMs 后处理后的时长（毫秒）
+   * @param text 合成的文本
+   * @param options 合成参数，语言和语速影响估算时长
+   * @returns 质检结果，未启用质检时返回 null
+   */
+  check(
+    wavBuffer: Buffer,
+    durationMs: number,
+    text: string,
+    options: TtsSynthesisOptions = {},
+  ): QaResult | null {
+    if (!env.TTS_QA_ENABLED) return null;
+
+    const reasons: string[] = [];
+    const wav = parseWavBuffer(wavBuffer);
+    if (wav.bitDepth === 16) {
+      // 只统计有声部分，首尾静音不拉低 RMS
+      const voiced = trimPcm16Silence(
+        wav.pcm,
+        wav.sampleRate,
+        wav.channels,
+        env.TTS_TRIM_SILENCE_DB,
+        0,
+      );
+      const { rmsDb, clippedRatio } = analyzePcm16(voiced);
+      if (rmsDb < env.TTS_QA_MIN_RMS_DB) {
+        reasons.push(
+          `音量过低（RMS ${Number.isFinite(rmsDb) ? rmsDb.toFixed(1) : '-∞'} dBFS）`,
+        );
+      }
+      if (clippedRatio > env.TTS_QA_MAX_CLIPPING_RATIO) {
+        reasons.push(`削波样本占比 ${(clippedRatio * 100).toFixed(2)}%`);
+      }
+    }
+
+    const expectedMs = this.estimateDurationMs(text, options);
+    if (expectedMs >= MIN_EXPECTED_MS) {
+      const ratio = durationMs / expectedMs;
+      if (ratio < env.TTS_QA_MIN_DURATION_RATIO) {
+        reasons.push(
+          `时长 ${durationMs}ms 远短于按字数估算的 ${expectedMs}ms，疑似截断`,
+        );
+      } else if (ratio > env.TTS_QA_MAX_DURATION_RATIO) {
+        reasons.push(`时长 ${durationMs}ms 远长于按字数估算的 ${expectedMs}ms`);
+      }
+    }
+
+    if (!reasons.length) return { status: QaStatus.PASSED, reason: null };
+
+    const reason = reasons.join('；');
+    this.logger.warn(`音频质检未通过: ${reason}`);
+    return { status: QaStatus.SUSPICIOUS, reason };
+  }
+
+  /**
+   * 按字数、语言和语速估算朗读时长
+   * 中日韩文字按字计，其他文字按词计
+   * @returns 估算时长（毫秒）
+   */
+  private estimateDurationMs(
+    text: string,
+    options: TtsSynthesisOptions = {},
+  ): number {
+    const cjkCount = text.match(CJK_PATTERN)?.length ?? 0;
+    const wordCount =
+      text.replace(CJK_PATTERN, ' ').match(WORD_PATTERN)?.length ?? 0;
+
+    const language = options.languageCode?.toLowerCase().split('-')[0] ?? '';
+    const cjkRate =
+      CJK_CHARS_PER_SECOND[language] ?? DEFAULT_CJK_CHARS_PER_SECOND;
+    const seconds = cjkCount / cjkRate + wordCount / WORDS_PER_SECOND;
+    return Math.round((seconds * 1000) / (options.speed || 1));
+  }
+}
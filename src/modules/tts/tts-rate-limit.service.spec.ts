@@ -0,0 +1,83 @@
+import RedisMock from 'ioredis-mock';
+import { Queue } from 'bullmq';
+import { TtsRateLimitService } from './tts-rate-limit.service';
+import { TtsJobData } from './types';
+
+jest.mock('../../config/config', () => ({
+  env: {
+    TTS_GEMINI_RPM: 3,
+    TTS_GEMINI_CONCURRENCY: 2,
+    TTS_MINIMAX_RPM: 10,
+    TTS_MINIMAX_CONCURRENCY: 1,
+    TTS_VERTEXAI_RPM: 10,
+    TTS_VERTEXAI_CONCURRENCY: 2,
+    TTS_RATE_LIMIT_COOLDOWN_MS: 30000,
+  },
+}));
+
+describe('TtsRateLimitService', () => {
+  let redis: InstanceType<typeof RedisMock>;
+  let service: TtsRateLimitService;
+
+  beforeEach(async () => {
+    redis = new RedisMock();
+    await redis.flushall();
+    const queue = { client: Promise.resolve(redis) };
+    service = new TtsRateLimitService(queue as unknown as Queue<TtsJobData>);
+  });
+
+  afterEach(() => redis.disconnect());
+
+  it('counts the request cost of each acquired job', async () => {
+    expect(await service.acquire('gemini', 'job-1', 2)).toBe(0);
+    expect(await redis.get('tts:rate:gemini:window')).toBe('2');
+
+    await service.release('gemini', 'job-1');
+    expect(await service.acquire('gemini', 'job-2')).toBe(0);
+    expect(await redis.get('tts:rate:gemini:window')).toBe('3');
+  });
+
+  it('waits for the window when the cost exceeds the remaining budget', async () => {
+    expect(await service.acquire('gemini', 'job-1', 2)).toBe(0);
+    await service.release('gemini', 'job-1');
+
+    const waitMs = await service.acquire('gemini', 'job-2', 2);
+
+    expect(waitMs).toBeGreaterThan(0);
+    expect(waitMs).toBeLessThanOrEqual(60000);
+    expect(await redis.get('tts:rate:gemini:window')).toBe('2');
+  });
+
+  it('lets a job costing more than the RPM run in an empty window', async () => {
+    expect(await service.acquire('gemini', 'job-1', 5)).toBe(0);
+    expect(await redis.get('tts:rate:gemini:window')).toBe('5');
+  });
+
+  it('does not count a job twice when it acquires again', async () => {
+    expect(await service.acquire('gemini', 'job-1', 2)).toBe(0);
+    expect(await service.acquire('gemini', 'job-1', 2)).toBe(0);
+    expect(await redis.get('tts:rate:gemini:window')).toBe('2');
+  });
+
+  it('retries later when all concurrency slots are taken', async () => {
+    expect(await service.acquire('minimax', 'job-1')).toBe(0);
+    expect(await service.acquire('minimax', 'job-2')).toBe(1000);
+
+    await service.release('minimax', 'job-1');
+    expect(await service.acquire('minimax', 'job-2')).toBe(0);
+  });
+
+  it('delays every job during a cooldown', async () => {
+    await service.cooldown('gemini', 5000);
+
+    const waitMs = await service.acquire('gemini', 'job-1');
+
+    expect(waitMs).toBeGreaterThan(0);
+    expect(waitMs).toBeLessThanOrEqual(5000);
+    expect(await redis.get('tts:rate:gemini:window')).toBeNull();
+  });
+
+  it('does not limit unknown providers', async () => {
+    expect(await service.acquire('unknown', 'job-1', 100)).toBe(0);
+  });
+});
@@ -0,0 +1,177 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { env } from '../../config/config';
+import { TtsJobData } from './types';
+import { ProviderBudgetDto } from './dto/get-provider-budget.dto';
+
+/** 固定窗口时长（毫秒） */
+const RATE_WINDOW_MS = 60000;
+
+/** 并发占用的租约时长，Worker 异常退出未释放时到期自动回收（毫秒） */
+const ACTIVE_LEASE_MS = 10 * 60 * 1000;
+
+/** 并发已满时的重试间隔（毫秒） */
+const CONCURRENCY_RETRY_MS = 1000;
+
+/**
+ * 原子地检查冷却、并发和 RPM 预算，全部通过时占用一个并发槽位并计入请求数
+ * 返回 0 表示获取成功，-1 表示并发已满，其余为需要等待的毫秒数
+ */
+const ACQUIRE_SCRIPT = `
+local cooldown = redis.call('PTTL', KEYS[1])
+if cooldown > 0 then return cooldown end
+
+local now = tonumber(ARGV[1])
+redis.call('ZREMRANGEBYSCORE', KEYS[3], '-inf', now - tonumber(ARGV[6]))
+if redis.call('ZSCORE', KEYS[3], ARGV[5]) then return 0 end
+if redis.call('ZCARD', KEYS[3]) >= tonumber(ARGV[4]) then return -1 end
+
+local used = tonumber(redis.call('GET', KEYS[2]) or '0')
+local cost = tonumber(ARGV[7])
+-- 单个任务的请求数超过 RPM 时只在空窗口放行，避免永远无法执行
+if used > 0 and used + cost > tonumber(ARGV[3]) then
+  local ttl = redis.call('PTTL', KEYS[2])
+  if ttl > 0 then return ttl end
+  return tonumber(ARGV[2])
+end
+
+if redis.call('INCRBY', KEYS[2], cost) == cost then
+  redis.call('PEXPIRE', KEYS[2], ARGV[2])
+end
+redis.call('ZADD', KEYS[3], now, ARGV[5])
+return 0
+`;
+
+/**
+ * TTS 提供商限流服务
+ * 基于 Redis 为每个提供商维护独立的 RPM 窗口、并发槽位和 429 冷却期，多个 Worker 实例共享
+ */
+@Injectable()
+export class TtsRateLimitService {
+  private readonly logger = new Logger(TtsRateLimitService.name);
+
+  /** 各提供商的限流配置 */
+  private readonly limits: Record<
+    string,
+    { rpm: number; concurrency: number }
+  > = {
+    gemini: {
+      rpm: env.TTS_GEMINI_RPM,
+      concurrency: env.TTS_GEMINI_CONCURRENCY,
+    },
+    minimax: {
+      rpm: env.TTS_MINIMAX_RPM,
+      concurrency: env.TTS_MINIMAX_CONCURRENCY,
+    },
+    vertexai: {
+      rpm: env.TTS_VERTEXAI_RPM,
+      concurrency: env.TTS_VERTEXAI_CONCURRENCY,
+    },
+  };
+
+  constructor(@InjectQueue('ttsQueue') private ttsQueue: Queue<TtsJobData>) {}
+
+  private keys(provider: string) {
+    const prefix = `tts:rate:${provider}`;
+    return {
+      cooldown: `${prefix}:cooldown`,
+      window: `${prefix}:window`,
+      active: `${prefix}:active`,
+    };
+  }
+
+  /**
+   * 尝试占用提供商的调用预算
+   * @param provider TTS 提供商
+   * @param jobId 队列任务 ID，用于释放并发槽位
+   * @param requestCount 本次将发起的请求数（长文本分块合成时大于 1）
+   * @returns 0 表示获取成功，否则为建议的等待时长（毫秒）
+   */
+  async acquire(
+    provider: string,
+    jobId: string,
+    requestCount = 1,
+  ): Promise<number> {
+    const limit = this.limits[provider];
+    if (!limit) return 0;
+
+    const client = await this.ttsQueue.client;
+    const { cooldown, window, active } = this.keys(provider);
+    const result = Number(
+      await client.eval(
+        ACQUIRE_SCRIPT,
+        3,
+        cooldown,
+        window,
+        active,
+        Date.now(),
+        RATE_WINDOW_MS,
+        limit.rpm,
+        limit.concurrency,
+        jobId,
+        ACTIVE_LEASE_MS,
+        requestCount,
+      ),
+    );
+
+    return result === -1 ? CONCURRENCY_RETRY_MS : result;
+  }
+
+  /**
+   * 释放提供商的并发槽位
+   * @param provider TTS 提供商
+   * @param jobId 队列任务 ID
+   */
+  async release(provider: string, jobId: string): Promise<void> {
+    if (!this.limits[provider]) return;
+
+    const client = await this.ttsQueue.client;
+    await client.zrem(this.keys(provider).active, jobId);
+  }
+
+  /**
+   * 提供商返回 429 后进入冷却期，冷却期内该提供商的任务全部延迟
+   * @param provider TTS 提供商
+   * @param retryAfterMs 提供商建议的等待时长，未给出时使用默认冷却时长
+   * @returns 实际冷却时长（毫秒）
+   */
+  async cooldown(provider: string, retryAfterMs?: number): Promise<number> {
+    const cooldownMs = retryAfterMs || env.TTS_RATE_LIMIT_COOLDOWN_MS;
+    const client = await this.ttsQueue.client;
+    await client.set(this.keys(provider).cooldown, '1', 'PX', cooldownMs);
+
+    this.logger.warn(`提供商 ${provider} 触发限流，冷却 ${cooldownMs}ms`);
+    return cooldownMs;
+  }
+
+  /**
+   * 查询各提供商当前的预算使用情况
+   */
+  async getBudgets(): Promise<ProviderBudgetDto[]> {
+    const client = await this.ttsQueue.client;
+    const now = Date.now();
+
+    return Promise.all(
+      Object.entries(this.limits).map(async ([provider, limit]) => {
+        const { cooldown, window, active } = this.keys(provider);
+        const [used, windowTtl, activeCount, cooldownTtl] = await Promise.all([
+          client.get(window),
+          client.pttl(window),
+          client.zcount(active, now - ACTIVE_LEASE_MS, '+inf'),
+          client.pttl(cooldown),
+        ]);
+
+        return {
+          provider,
+          rpm: limit.rpm,
+          rpmUsed: Number(used ?? 0),
+          windowResetMs: Math.max(windowTtl, 0),
+          concurrency: limit.concurrency,
+          active: activeCount,
+          cooldownMs: Math.max(cooldownTtl, 0),
+        };
+      }),
+    );
+  }
+}
@@ -0,0 +1,232 @@
+import { Queue } from 'bullmq';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TtsReaperService } from './tts-reaper.service';
+import { TtsTaskService } from './tts.service';
+import { TtsSchemeStateService } from './tts-scheme-state.service';
+import { TtsSchemeLockService } from './tts-scheme-lock.service';
+import { SchemeState, TaskStatus } from './tts.constants';
+import { TtsJobData } from './types';
+
+jest.mock('../../config/config', () => ({
+  env: { TTS_REAPER_INTERVAL_MS: 60000, TTS_REAPER_TIMEOUT_MS: 300000 },
+}));
+
+describe('TtsReaperService', () => {
+  interface FakeJob {
+    id: string;
+    data: { taskId: string };
+    isActive: jest.Mock;
+    remove: jest.Mock;
+  }
+
+  let tasks: Record<string, unknown>[];
+  let jobs: FakeJob[];
+  let missing: Record<string, string>;
+
+  const client = {
+    set: jest.fn(),
+    eval: jest.fn(() => Promise.resolve(1)),
+    hgetall: jest.fn(() => Promise.resolve({ ...missing })),
+    hset: jest.fn((_key: string, taskId: string, value: number) => {
+      missing[taskId] = String(value);
+      return Promise.resolve(1);
+    }),
+    hdel: jest.fn((_key: string, ...taskIds: string[]) => {
+      taskIds.forEach((taskId) => delete missing[taskId]);
+      return Promise.resolve(taskIds.length);
+    }),
+    lpush: jest.fn(),
+    ltrim: jest.fn(),
+  };
+  const ttsQueue = {
+    client: Promise.resolve(client),
+    getJobs: jest.fn(() => Promise.resolve(jobs)),
+  };
+  const prisma = {
+    sys_tts_task: {
+      findMany: jest.fn(() =>
+        Promise.resolve(
+          tasks.filter((task) => task.status === TaskStatus.PENDING),
+        ),
+      ),
+      findUnique: jest.fn(({ where }: { where: { id: bigint } }) =>
+        Promise.resolve(tasks.find((task) => task.id === where.id) ?? null),
+      ),
+      update: jest.fn(
+        ({ where, data }: { where: { id: bigint }; data: object }) => {
+          Object.assign(tasks.find((task) => task.id === where.id)!, data);
+          return Promise.resolve({});
+        },
+      ),
+      count: jest.fn(() => Promise.resolve(0)),
+    },
+    sys_generate_scheme_manage: {
+      findMany: jest.fn(() => Promise.resolve([])),
+    },
+  };
+  const ttsTaskService = { requeueTask: jest.fn() };
+  const ttsSchemeStateService = { checkSchemeTasks: jest.fn() };
+  const ttsSchemeLockService = {
+    withLock: jest.fn((_schemeId: number, fn: () => Promise<unknown>) => fn()),
+    transaction: jest.fn(
+      (_schemeId: number, fn: (tx: unknown) => Promise<unknown>) => fn(prisma),
+    ),
+    updateScheme: jest.fn(),
+  };
+  const service = new TtsReaperService(
+    prisma as unknown as PrismaService,
+    ttsQueue as unknown as Queue<TtsJobData>,
+    ttsTaskService as unknown as TtsTaskService,
+    ttsSchemeStateService as unknown as TtsSchemeStateService,
+    ttsSchemeLockService as unknown as TtsSchemeLockService,
+  );
+
+  function task(id: bigint, extra: Record<string, unknown> = {}) {
+    return {
+      id,
+      scheme_id: 1n,
+      scheme_index: 0,
+      segment_key: 'begin',
+      status: TaskStatus.PENDING,
+      retry_count: 0,
+      max_retry: 3,
+      ...extra,
+    };
+  }
+
+  function job(taskId: string, active = false): FakeJob {
+    return {
+      id: `job-${taskId}`,
+      data: { taskId },
+      isActive: jest.fn(() => Promise.resolve(active)),
+      remove: jest.fn(),
+    };
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+    client.set.mockResolvedValue('OK');
+    tasks = [];
+    jobs = [];
+    missing = {};
+  });
+
+  it('skips when another instance holds the reaper lock', async () => {
+    client.set.mockResolvedValue(null);
+
+    await expect(service.reconcile()).resolves.toBeNull();
+    expect(prisma.sys_tts_task.findMany).not.toHaveBeenCalled();
+  });
+
+  it('records when a pending task is first seen without a queue job', async () => {
+    tasks = [task(1n)];
+
+    const report = await service.reconcile();
+
+    expect(missing).toHaveProperty('1');
+    expect(report!.requeued).toEqual([]);
+    expect(ttsTaskService.requeueTask).not.toHaveBeenCalled();
+  });
+
+  it('requeues tasks missing longer than the timeout under the scheme lock', async () => {
+    tasks = [task(1n)];
+    missing = { '1': String(Date.now() - 300001) };
+    ttsTaskService.requeueTask.mockResolvedValue(true);
+
+    const report = await service.reconcile();
+
+    expect(ttsSchemeLockService.withLock).toHaveBeenCalledWith(
+      1,
+      expect.any(Function),
+    );
+    expect(ttsTaskService.requeueTask).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 1n }),
+    );
+    expect(ttsSchemeLockService.updateScheme).toHaveBeenCalledWith(1, {
+      tts_task_state: SchemeState.PROCESSING,
+    });
+    expect(report!.requeued).toEqual([
+      { taskId: '1', schemeId: 1, schemeIndex: 0, segmentKey: 'begin' },
+    ]);
+    expect(ttsSchemeStateService.checkSchemeTasks).toHaveBeenCalledWith(1n);
+    expect(missing).toEqual({});
+  });
+
+  it('leaves tasks requeued by another operation while waiting for the lock', async () => {
+    tasks = [task(1n)];
+    missing = { '1': String(Date.now() - 300001) };
+    ttsQueue.getJobs
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([job('1')]);
+
+    const report = await service.reconcile();
+
+    expect(ttsTaskService.requeueTask).not.toHaveBeenCalled();
+    expect(report!.requeued).toEqual([]);
+    expect(report!.failed).toEqual([]);
+  });
+
+  it('marks tasks failed after the maximum retries', async () => {
+    tasks = [task(1n, { retry_count: 3 })];
+    missing = { '1': String(Date.now() - 300001) };
+
+    const report = await service.reconcile();
+
+    expect(ttsTaskService.requeueTask).not.toHaveBeenCalled();
+    expect(ttsSchemeLockService.transaction).toHaveBeenCalledWith(
+      1,
+      expect.any(Function),
+    );
+    expect(tasks[0].status).toBe(TaskStatus.FAILED);
+    expect(report!.failed).toHaveLength(1);
+  });
+
+  it('removes queue jobs whose task has finished or is gone', async () => {
+    tasks = [task(1n, { status: TaskStatus.SUCCESS }), task(2n)];
+    jobs = [job('1'), job('2'), job('3'), job('4', true)];
+
+    const report = await service.reconcile();
+
+    expect(jobs[0].remove).toHaveBeenCalled();
+    expect(jobs[1].remove).not.toHaveBeenCalled();
+    expect(jobs[2].remove).toHaveBeenCalled();
+    expect(jobs[3].remove).not.toHaveBeenCalled();
+    expect(report!.removedJobs).toEqual([
+      {
+        jobId: 'job-1',
+        taskId: '1',
+        reason: `任务状态为 ${TaskStatus.SUCCESS}`,
+      },
+      { jobId: 'job-3', taskId: '3', reason: '任务不存在' },
+    ]);
+  });
+
+  it('renews the reaper lock while reconciling', async () => {
+    jest.useFakeTimers();
+    let finish!: () => void;
+    prisma.sys_tts_task.findMany.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          finish = () => resolve([]);
+        }),
+    );
+
+    const reconciling = service.reconcile();
+    await jest.advanceTimersByTimeAsync(20000);
+
+    expect(client.eval).toHaveBeenCalledWith(
+      expect.stringContaining('PEXPIRE'),
+      1,
+      'tts:reaper:lock',
+      expect.any(String),
+      60000,
+    );
+
+    finish();
+    await reconciling;
+    client.eval.mockClear();
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(client.eval).not.toHaveBeenCalled();
+  });
+});
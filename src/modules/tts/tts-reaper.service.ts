@@ -0,0 +1,304 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Interval } from '@nestjs/schedule';
+import { JobType, Queue } from 'bullmq';
+import { randomUUID } from 'crypto';
+import { sys_tts_task } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { env } from '../../config/config';
+import { TtsJobData } from './types';
+import { SchemeState, TaskStatus } from './tts.constants';
+import { TtsTaskService } from './tts.service';
+import { TtsSchemeStateService } from './tts-scheme-state.service';
+import { TtsSchemeLockService } from './tts-scheme-lock.service';
+import { ReaperReportDto, ReaperTaskDto } from './dto/reaper-report.dto';
+
+/** 巡检互斥锁，多实例部署时只有一个实例执行 */
+const LOCK_KEY = 'tts:reaper:lock';
+
+/** 记录待处理任务首次发现队列任务缺失的时间 */
+const MISSING_KEY = 'tts:reaper:missing';
+
+/** 视为仍在队列中的队列任务状态 */
+const QUEUED_STATES: JobType[] = [
+  'active',
+  'waiting',
+  'delayed',
+  'prioritized',
+  'paused',
+];
+
+/** 最近的巡检报告 */
+const REPORTS_KEY = 'tts:reaper:reports';
+
+/** 保留的巡检报告数量 */
+const REPORTS_LIMIT = 50;
+
+/** 仅当锁仍属于自己时续期 */
+const RENEW_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/** 仅当锁仍属于自己时释放 */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * TTS 任务巡检服务
+ * 定期对比待处理任务与队列中实际存在的任务：进程重启等原因丢失队列任务的待处理任务超时后重新入队或标记失败，
+ * 对应任务已结束的孤儿队列任务直接移除，并重新计算受影响方案的 TTS 状态。
+ * 巡检期间持续续期巡检锁；恢复任务时持有方案锁，与用户发起的重新生成、重试等操作串行
+ */
+@Injectable()
+export class TtsReaperService {
+  private readonly logger = new Logger(TtsReaperService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    @InjectQueue('ttsQueue') private ttsQueue: Queue<TtsJobData>,
+    private ttsTaskService: TtsTaskService,
+    private ttsSchemeStateService: TtsSchemeStateService,
+    private ttsSchemeLockService: TtsSchemeLockService,
+  ) {}
+
+  @Interval('ttsReaper', env.TTS_REAPER_INTERVAL_MS)
+  async handleInterval(): Promise<void> {
+    try {
+      await this.reconcile();
+    } catch (error) {
+      this.logger.error('TTS 任务巡检失败', error);
+    }
+  }
+
+  /**
+   * 执行一次巡检
+   * @returns 巡检报告，其他实例正在巡检时返回 null
+   */
+  async reconcile(): Promise<ReaperReportDto | null> {
+    const client = await this.ttsQueue.client;
+    const lockToken = randomUUID();
+    const locked = await client.set(
+      LOCK_KEY,
+      lockToken,
+      'PX',
+      env.TTS_REAPER_INTERVAL_MS,
+      'NX',
+    );
+    if (!locked) {
+      this.logger.log('其他实例正在巡检，跳过本次');
+      return null;
+    }
+
+    const renewTimer = setInterval(
+      () => void this.renewLock(lockToken),
+      Math.floor(env.TTS_REAPER_INTERVAL_MS / 3),
+    );
+
+    try {
+      const report = await this.runReconcile();
+      await client.lpush(REPORTS_KEY, JSON.stringify(report));
+      await client.ltrim(REPORTS_KEY, 0, REPORTS_LIMIT - 1);
+      return report;
+    } finally {
+      clearInterval(renewTimer);
+      await client.eval(RELEASE_LOCK_SCRIPT, 1, LOCK_KEY, lockToken);
+    }
+  }
+
+  /**
+   * 续期巡检锁，锁已被其他实例接管时只记录日志
+   */
+  private async renewLock(lockToken: string): Promise<void> {
+    try {
+      const client = await this.ttsQueue.client;
+      const renewed = await client.eval(
+        RENEW_LOCK_SCRIPT,
+        1,
+        LOCK_KEY,
+        lockToken,
+        env.TTS_REAPER_INTERVAL_MS,
+      );
+      if (!renewed) this.logger.warn('巡检锁已失效，无法续期');
+    } catch (error) {
+      this.logger.warn('巡检锁续期失败', error);
+    }
+  }
+
+  /**
+   * 查询最近的巡检报告
+   */
+  async getReports(): Promise<ReaperReportDto[]> {
+    const client = await this.ttsQueue.client;
+    const reports = await client.lrange(REPORTS_KEY, 0, REPORTS_LIMIT - 1);
+    return reports.map((report) => JSON.parse(report) as ReaperReportDto);
+  }
+
+  private async runReconcile(): Promise<ReaperReportDto> {
+    const report: ReaperReportDto = {
+      startedAt: Date.now(),
+      finishedAt: 0,
+      requeued: [],
+      failed: [],
+      removedJobs: [],
+      recomputedSchemes: [],
+    };
+    const client = await this.ttsQueue.client;
+    const affectedSchemes = new Set<bigint>();
+
+    // 1. 先查待处理任务再查队列，避免刚入队的任务被误判为丢失
+    const pendingTasks = await this.prisma.sys_tts_task.findMany({
+      where: { status: TaskStatus.PENDING },
+    });
+    const jobs = await this.ttsQueue.getJobs(QUEUED_STATES);
+    const queuedTaskIds = new Set(jobs.map((job) => job.data.taskId));
+
+    // 2. 处理队列任务缺失的待处理任务
+    const missingSince = await client.hgetall(MISSING_KEY);
+    const stillMissing = new Set<string>();
+    const now = Date.now();
+
+    for (const task of pendingTasks) {
+      const taskId = task.id.toString();
+      if (queuedTaskIds.has(taskId)) continue;
+
+      stillMissing.add(taskId);
+      const firstSeen = Number(missingSince[taskId] ?? 0);
+      if (!firstSeen) {
+        await client.hset(MISSING_KEY, taskId, now);
+        continue;
+      }
+      if (now - firstSeen < env.TTS_REAPER_TIMEOUT_MS) continue;
+
+      if (await this.recoverTask(task, report)) {
+        affectedSchemes.add(task.scheme_id);
+      }
+      stillMissing.delete(taskId);
+    }
+
+    // 清理已恢复或已结束任务的缺失记录
+    const resolved = Object.keys(missingSince).filter(
+      (taskId) => !stillMissing.has(taskId),
+    );
+    if (resolved.length) {
+      await client.hdel(MISSING_KEY, ...resolved);
+    }
+
+    // 3. 移除对应任务已不存在或已结束的孤儿队列任务（执行中的任务由 Worker 自行结束）
+    const pendingTaskIds = new Set(
+      pendingTasks.map((task) => task.id.toString()),
+    );
+    for (const job of jobs) {
+      if (pendingTaskIds.has(job.data.taskId)) continue;
+      if (await job.isActive()) continue;
+
+      const task = await this.prisma.sys_tts_task.findUnique({
+        where: { id: BigInt(job.data.taskId) },
+        select: { status: true },
+      });
+      if (task?.status === TaskStatus.PENDING) continue;
+
+      try {
+        await job.remove();
+        report.removedJobs.push({
+          jobId: job.id!,
+          taskId: job.data.taskId,
+          reason: task ? `任务状态为 ${task.status}` : '任务不存在',
+        });
+      } catch (error) {
+        this.logger.warn(`移除孤儿队列任务失败 [jobId: ${job.id}]`, error);
+      }
+    }
+
+    // 4. 处理中但已没有待处理任务的方案（如进程在汇总状态前退出）
+    const processingSchemes =
+      await this.prisma.sys_generate_scheme_manage.findMany({
+        where: { tts_task_state: SchemeState.PROCESSING },
+        select: { id: true },
+      });
+    for (const { id } of processingSchemes) {
+      const pendingCount = await this.prisma.sys_tts_task.count({
+        where: { scheme_id: id, status: TaskStatus.PENDING },
+      });
+      if (!pendingCount) affectedSchemes.add(BigInt(id));
+    }
+
+    // 5. 重新计算受影响方案的状态
+    for (const schemeId of affectedSchemes) {
+      await this.ttsSchemeStateService.checkSchemeTasks(schemeId);
+      report.recomputedSchemes.push(Number(schemeId));
+    }
+
+    report.finishedAt = Date.now();
+    this.logger.log(
+      `TTS 任务巡检完成 - 重新入队: ${report.requeued.length}, 标记失败: ${report.failed.length}, 移除孤儿任务: ${report.removedJobs.length}, 重新计算方案: ${report.recomputedSchemes.length}`,
+    );
+    return report;
+  }
+
+  /**
+   * 恢复队列任务丢失的待处理任务：未超过最大重试次数时重新入队，否则标记失败。
+   * 持有方案锁后再次确认任务仍为待处理且没有队列任务，期间可能已被 Worker 完成或被用户重新入队
+   * @returns 是否恢复了任务
+   */
+  private async recoverTask(
+    task: sys_tts_task,
+    report: ReaperReportDto,
+  ): Promise<boolean> {
+    const schemeId = Number(task.scheme_id);
+    const item: ReaperTaskDto = {
+      taskId: task.id.toString(),
+      schemeId,
+      schemeIndex: task.scheme_index,
+      segmentKey: task.segment_key,
+    };
+
+    return this.ttsSchemeLockService.withLock(schemeId, async () => {
+      const current = await this.prisma.sys_tts_task.findUnique({
+        where: { id: task.id },
+      });
+      if (current?.status !== TaskStatus.PENDING) return false;
+      if (await this.isQueued(item.taskId)) return false;
+
+      if (
+        (current.retry_count ?? 0) < (current.max_retry ?? 3) &&
+        (await this.ttsTaskService.requeueTask(current))
+      ) {
+        await this.ttsSchemeLockService.updateScheme(schemeId, {
+          tts_task_state: SchemeState.PROCESSING,
+        });
+        report.requeued.push(item);
+        this.logger.warn(`任务 [ID: ${task.id}] 队列任务丢失，已重新入队`);
+        return true;
+      }
+
+      await this.ttsSchemeLockService.transaction(schemeId, (tx) =>
+        tx.sys_tts_task.update({
+          where: { id: task.id },
+          data: {
+            status: TaskStatus.FAILED,
+            error_log: '队列任务丢失且无法重新入队，已由巡检标记失败',
+            update_time: new Date(),
+          },
+        }),
+      );
+      report.failed.push(item);
+      this.logger.warn(`任务 [ID: ${task.id}] 队列任务丢失，已标记失败`);
+      return true;
+    });
+  }
+
+  /**
+   * 队列中是否已有该任务的待执行或执行中的队列任务
+   */
+  private async isQueued(taskId: string): Promise<boolean> {
+    const jobs = await this.ttsQueue.getJobs(QUEUED_STATES);
+    return jobs.some((job) => job.data.taskId === taskId);
+  }
+}
@@ -0,0 +1,167 @@
+import { Injectable } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Job, Queue } from 'bullmq';
+import { env } from '../../config/config';
+import { TtsJobData } from './types';
+import { TtsJobPriority } from './tts.constants';
+import { QueuePositionDto } from './dto/queue-position.dto';
+
+/** 每个优先级档位占用的数值区间，BullMQ 的优先级上限为 2^21 */
+const PRIORITY_BAND_SIZE = 1000000;
+
+/** 最近完成任务的耗时，用于估算排队时间 */
+const DURATIONS_KEY = 'tts:sched:durations';
+
+/** 参与估算的最近任务数 */
+const DURATIONS_LIMIT = 50;
+
+/**
+ * 为归属分配下一个轮次：从该归属上次分配的轮次和已开始执行的轮次中取较大者加一，
+ * 新用户从当前执行位置开始排队，而不是排到已有用户的全部任务之后
+ * KEYS[1] 各归属已分配的轮次，KEYS[2] 已开始执行的最大轮次
+ * ARGV[1] 归属，ARGV[2] 是否重置（队列已清空），ARGV[3] 轮次上限
+ */
+const ASSIGN_SCRIPT = `
+if ARGV[2] == '1' then redis.call('DEL', KEYS[1], KEYS[2]) end
+local last = tonumber(redis.call('HGET', KEYS[1], ARGV[1]) or '0')
+local served = tonumber(redis.call('GET', KEYS[2]) or '0')
+local round = math.min(math.max(last, served) + 1, tonumber(ARGV[3]))
+redis.call('HSET', KEYS[1], ARGV[1], round)
+return round
+`;
+
+/** 记录已开始执行的最大轮次 */
+const MARK_SCRIPT = `
+local served = tonumber(redis.call('GET', KEYS[1]) or '0')
+if tonumber(ARGV[1]) > served then redis.call('SET', KEYS[1], ARGV[1]) end
+return 0
+`;
+
+/**
+ * TTS 队列调度服务
+ * 为任务分配 BullMQ 优先级：单片段修改和重试排在批量生成之前，同一档位内按用户轮转，
+ * 避免一个用户的大方案占满队列；并根据最近任务的耗时估算方案的排队位置和完成时间
+ */
+@Injectable()
+export class TtsSchedulerService {
+  constructor(@InjectQueue('ttsQueue') private ttsQueue: Queue<TtsJobData>) {}
+
+  private keys(band: TtsJobPriority) {
+    const prefix = `tts:sched:${band}`;
+    return { rounds: `${prefix}:rounds`, served: `${prefix}:served` };
+  }
+
+  /**
+   * 为任务分配优先级
+   * @param owner 公平调度的归属
+   * @param band 优先级档位
+   * @returns BullMQ 优先级，数值越小越先执行
+   */
+  async assignPriority(owner: string, band: TtsJobPriority): Promise<number> {
+    const client = await this.ttsQueue.client;
+    // 队列清空后重新从第一轮开始，避免轮次无限增长
+    const queued = await this.ttsQueue.getJobCountByTypes(
+      'active',
+      'waiting',
+      'delayed',
+      'prioritized',
+      'paused',
+    );
+    const { rounds, served } = this.keys(band);
+    const round = Number(
+      await client.eval(
+        ASSIGN_SCRIPT,
+        2,
+        rounds,
+        served,
+        owner,
+        queued ? 0 : 1,
+        PRIORITY_BAND_SIZE - 1,
+      ),
+    );
+    return (band - 1) * PRIORITY_BAND_SIZE + round;
+  }
+
+  /**
+   * 任务开始执行时推进所在档位的轮次，之后加入的新用户从这里开始排队
+   * @param job BullMQ 任务对象
+   */
+  async markStarted(job: Job<TtsJobData>): Promise<void> {
+    const band = job.data.priorityBand;
+    if (!band || !job.opts.priority) return;
+
+    const client = await this.ttsQueue.client;
+    const round = job.opts.priority - (band - 1) * PRIORITY_BAND_SIZE;
+    await client.eval(MARK_SCRIPT, 1, this.keys(band).served, round);
+  }
+
+  /**
+   * 记录任务耗时
+   * @param job 已完成的 BullMQ 任务对象
+   */
+  async recordDuration(job: Job<TtsJobData>): Promise<void> {
+    if (!job.processedOn || !job.finishedOn) return;
+
+    const client = await this.ttsQueue.client;
+    await client
+      .multi()
+      .lpush(DURATIONS_KEY, job.finishedOn - job.processedOn)
+      .ltrim(DURATIONS_KEY, 0, DURATIONS_LIMIT - 1)
+      .exec();
+  }
+
+  /**
+   * 查询方案在队列中的位置，并按最近任务的平均耗时和 Worker 并发数估算开始和完成时间
+   * @param schemeId 方案 ID
+   */
+  async getQueuePosition(schemeId: number): Promise<QueuePositionDto> {
+    const [queuedJobs, delayedJobs, activeJobs] = await Promise.all([
+      this.ttsQueue.getJobs(['waiting', 'prioritized']),
+      this.ttsQueue.getJobs(['delayed']),
+      this.ttsQueue.getJobs(['active']),
+    ]);
+    const isScheme = (job: Job<TtsJobData>) =>
+      Number(job.data.schemeId) === schemeId;
+
+    // 按 Worker 取任务的顺序排列：无优先级的任务最先，其余按优先级、入队时间排序
+    const ordered = queuedJobs
+      .filter((job) => !!job)
+      .sort(
+        (a, b) =>
+          (a.opts.priority ?? 0) - (b.opts.priority ?? 0) ||
+          a.timestamp - b.timestamp,
+      );
+    const first = ordered.findIndex(isScheme);
+    const last = ordered.findLastIndex(isScheme);
+
+    const avgJobMs = await this.getAverageDuration();
+    const concurrency = env.TTS_WORKER_CONCURRENCY;
+    const estimate = (jobsAhead: number) =>
+      avgJobMs === null ? null : Math.ceil(jobsAhead / concurrency) * avgJobMs;
+
+    return {
+      schemeId,
+      queued: ordered.filter(isScheme).length,
+      delayed: delayedJobs.filter(isScheme).length,
+      active: activeJobs.filter(isScheme).length,
+      totalQueued: ordered.length,
+      position: first === -1 ? null : first + 1,
+      jobsAhead: first === -1 ? 0 : first,
+      avgJobMs,
+      startEtaMs: first === -1 ? null : estimate(first),
+      finishEtaMs: last === -1 ? null : estimate(last + 1),
+    };
+  }
+
+  /**
+   * 最近完成任务的平均耗时（毫秒），没有记录时返回 null
+   */
+  private async getAverageDuration(): Promise<number | null> {
+    const client = await this.ttsQueue.client;
+    const durations = (await client.lrange(DURATIONS_KEY, 0, -1)).map(Number);
+    if (!durations.length) return null;
+    return Math.round(
+      durations.reduce((sum, ms) => sum + ms, 0) / durations.length,
+    );
+  }
+}
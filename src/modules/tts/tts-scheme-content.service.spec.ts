@@ -0,0 +1,216 @@
+import { PrismaService } from '../../prisma/prisma.service';
+import { TtsSchemeContentService } from './tts-scheme-content.service';
+import { TtsSchemeLockService } from './tts-scheme-lock.service';
+
+jest.mock('../../config/config', () => ({ env: {} }));
+
+/** 内存中的方案项和片段音频表 */
+describe('TtsSchemeContentService.resetScheme', () => {
+  interface FakeItem {
+    id: bigint;
+    scheme_id: bigint;
+    scheme_index: number;
+    scheme_content: string | null;
+    content_as_string: boolean;
+    extra_fields: string | null;
+    merged_audio_url: string | null;
+    translation_srt_url: string | null;
+    translation_vtt_url: string | null;
+    chinese_narration_srt_url: string | null;
+    chinese_narration_vtt_url: string | null;
+  }
+
+  interface FakeAudio {
+    scheme_id: bigint;
+    scheme_index: number;
+    segment_key: string;
+    audio_url: string;
+  }
+
+  let items: FakeItem[];
+  let audios: FakeAudio[];
+  let downloadContent: string | null;
+  let nextId: bigint;
+
+  function item(schemeIndex: number, extra: Partial<FakeItem> = {}) {
+    return {
+      id: nextId++,
+      scheme_id: 1n,
+      scheme_index: schemeIndex,
+      scheme_content: null,
+      content_as_string: false,
+      extra_fields: null,
+      merged_audio_url: null,
+      translation_srt_url: null,
+      translation_vtt_url: null,
+      chinese_narration_srt_url: null,
+      chinese_narration_vtt_url: null,
+      ...extra,
+    };
+  }
+
+  const prisma = {
+    sys_generate_scheme_manage: {
+      findUnique: jest.fn(() =>
+        Promise.resolve({ download_content: downloadContent }),
+      ),
+      update: jest.fn(({ data }: { data: { download_content?: string } }) => {
+        if (data.download_content) downloadContent = data.download_content;
+        return Promise.resolve({});
+      }),
+    },
+    sys_scheme_item: {
+      count: jest.fn(() => Promise.resolve(items.length)),
+      findMany: jest.fn(() =>
+        Promise.resolve(
+          [...items].sort((a, b) => a.scheme_index - b.scheme_index),
+        ),
+      ),
+      deleteMany: jest.fn(
+        ({ where }: { where: { scheme_index?: { gte: number } } }) => {
+          const gte = where.scheme_index?.gte ?? 0;
+          items = items.filter((entry) => entry.scheme_index < gte);
+          return Promise.resolve({});
+        },
+      ),
+      createMany: jest.fn(({ data }: { data: Partial<FakeItem>[] }) => {
+        items.push(...data.map((entry) => item(entry.scheme_index!, entry)));
+        return Promise.resolve({});
+      }),
+      create: jest.fn(({ data }: { data: Partial<FakeItem> }) => {
+        items.push(item(data.scheme_index!, data));
+        return Promise.resolve({});
+      }),
+      update: jest.fn(
+        ({ where, data }: { where: { id: bigint }; data: object }) => {
+          Object.assign(items.find((entry) => entry.id === where.id)!, data);
+          return Promise.resolve({});
+        },
+      ),
+    },
+    sys_scheme_segment_audio: {
+      deleteMany: jest.fn(() => {
+        audios = [];
+        return Promise.resolve({});
+      }),
+      createMany: jest.fn(({ data }: { data: FakeAudio[] }) => {
+        audios.push(...data);
+        return Promise.resolve({});
+      }),
+      findMany: jest.fn(() => Promise.resolve(audios)),
+    },
+  };
+  const ttsSchemeLockService = {
+    withLock: jest.fn((_schemeId: number, fn: () => Promise<unknown>) => fn()),
+    transaction: jest.fn(
+      (_schemeId: number, fn: (tx: unknown) => Promise<unknown>) => fn(prisma),
+    ),
+  };
+  const service = new TtsSchemeContentService(
+    prisma as unknown as PrismaService,
+    ttsSchemeLockService as unknown as TtsSchemeLockService,
+  );
+
+  const translation = (text: string) => ({
+    begin: `${text}-begin`,
+    middle: `${text}-middle`,
+    end: `${text}-end`,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    nextId = 1n;
+    audios = [];
+    downloadContent = null;
+    items = [
+      item(0, {
+        scheme_content: JSON.stringify({
+          title: '第一集',
+          chineseNarration: { begin: '开头', middle: '中间', end: '结尾' },
+          translation: translation('old'),
+        }),
+        extra_fields: JSON.stringify({ coverUrl: 'https://oss/cover.jpg' }),
+        merged_audio_url: 'https://oss/merged-0.wav',
+        translation_srt_url: 'https://oss/0.srt',
+      }),
+      item(1),
+      item(2),
+    ];
+  });
+
+  it('rebuilds items from the stored items and the requested translations', async () => {
+    await service.resetScheme(
+      1n,
+      [{ translation: translation('new') }, { translation: translation('b') }],
+      [{ schemeIndex: 0, segmentKey: 'begin', audioUrl: 'https://oss/0.wav' }],
+    );
+
+    expect(items.map((entry) => entry.scheme_index)).toEqual([0, 1]);
+    expect(JSON.parse(items[0].scheme_content!)).toEqual({
+      title: '第一集',
+      chineseNarration: { begin: '开头', middle: '中间', end: '结尾' },
+      translation: translation('new'),
+    });
+    expect(items[0]).toMatchObject({
+      extra_fields: JSON.stringify({ coverUrl: 'https://oss/cover.jpg' }),
+      merged_audio_url: null,
+      translation_srt_url: null,
+    });
+    expect(audios).toEqual([
+      expect.objectContaining({
+        scheme_index: 0,
+        audio_url: 'https://oss/0.wav',
+      }),
+    ]);
+    // download_content 由方案项重新生成，已有方案项时不再读取
+    expect(prisma.sys_generate_scheme_manage.findUnique).not.toHaveBeenCalled();
+    const rendered = JSON.parse(downloadContent!) as Record<string, any>[];
+    expect(rendered).toHaveLength(2);
+    expect(rendered[0]).toMatchObject({
+      coverUrl: 'https://oss/cover.jpg',
+      audioUrl: { beginAudioUrl: 'https://oss/0.wav', middleAudioUrl: '' },
+      mergedAudioUrl: '',
+    });
+    expect(rendered[1].schemeContent).toEqual({
+      translation: translation('b'),
+    });
+  });
+
+  it('adds items the request has beyond the stored ones', async () => {
+    items = [item(0)];
+
+    await service.resetScheme(1n, [
+      { translation: translation('a') },
+      { translation: translation('b') },
+    ]);
+
+    expect(items.map((entry) => entry.scheme_index)).toEqual([0, 1]);
+    expect(JSON.parse(items[1].scheme_content!)).toEqual({
+      translation: translation('b'),
+    });
+  });
+
+  it('imports download_content once before the first rebuild', async () => {
+    items = [];
+    downloadContent = JSON.stringify([
+      {
+        schemeContent: { title: '导入', translation: translation('old') },
+        audioUrl: {
+          beginAudioUrl: 'https://oss/stale.wav',
+          middleAudioUrl: '',
+          endAudioUrl: '',
+        },
+        mergedAudioUrl: '',
+      },
+    ]);
+
+    await service.resetScheme(1n, [{ translation: translation('new') }]);
+
+    expect(prisma.sys_generate_scheme_manage.findUnique).toHaveBeenCalled();
+    expect(JSON.parse(items[0].scheme_content!)).toEqual({
+      title: '导入',
+      translation: translation('new'),
+    });
+    expect(audios).toEqual([]);
+  });
+});
@@ -0,0 +1,484 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  Prisma,
+  sys_scheme_item,
+  sys_scheme_segment_audio,
+  sys_tts_task_segment_key,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  DownloadContent,
+  SegmentAudio,
+  SubtitleUrl,
+  TtsSchemeItemInput,
+  VideoScript,
+} from './types';
+import { TtsSchemeLockService } from './tts-scheme-lock.service';
+
+/** 片段键对应的 download_content 音频字段 */
+const SEGMENT_AUDIO_FIELDS: Record<
+  sys_tts_task_segment_key,
+  keyof DownloadContent['audioUrl']
+> = {
+  begin: 'beginAudioUrl',
+  middle: 'middleAudioUrl',
+  end: 'endAudioUrl',
+};
+
+/**
+ * 方案内容服务
+ * 方案项和片段音频保存在 sys_scheme_item / sys_scheme_segment_audio 中，
+ * 方案的 download_content 由这两张表生成，仅供前端读取；外部系统写入的新方案在首次访问时导入。
+ * 所有修改在方案分布式锁内、校验栅栏令牌的事务中执行
+ */
+@Injectable()
+export class TtsSchemeContentService {
+  private readonly logger = new Logger(TtsSchemeContentService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private ttsSchemeLockService: TtsSchemeLockService,
+  ) {}
+
+  /**
+   * 重新生成整个方案前调用：以已保存的方案项和本次请求的方案为准重建方案项，清空音频和字幕
+   * 方案项数量与本次请求一致，多出的方案项删除，缺少的补齐；方案内容中的译文替换为本次请求的译文，
+   * 其余内容和附加字段保留。download_content 只在方案项尚未导入时读取一次
+   * @param schemeId 方案 ID
+   * @param actualScheme 本次请求的方案项
+   * @param keptAudios 无需重新合成、沿用原音频的片段
+   */
+  async resetScheme(
+    schemeId: bigint,
+    actualScheme: Pick<TtsSchemeItemInput, 'translation'>[],
+    keptAudios: SegmentAudio[] = [],
+  ): Promise<void> {
+    await this.mutate(schemeId, async (tx) => {
+      await this.ensureItems(tx, schemeId);
+      const items = await this.findItems(tx, schemeId);
+
+      await tx.sys_scheme_segment_audio.deleteMany({
+        where: { scheme_id: schemeId },
+      });
+      await tx.sys_scheme_item.deleteMany({
+        where: {
+          scheme_id: schemeId,
+          scheme_index: { gte: actualScheme.length },
+        },
+      });
+
+      for (const [schemeIndex, { translation }] of actualScheme.entries()) {
+        const item = items.find((entry) => entry.scheme_index === schemeIndex);
+        const content = {
+          ...this.parseContent(item?.scheme_content),
+          translation,
+        };
+        const data = {
+          scheme_content: JSON.stringify(content),
+          merged_audio_url: null,
+          translation_srt_url: null,
+          translation_vtt_url: null,
+          chinese_narration_srt_url: null,
+          chinese_narration_vtt_url: null,
+        };
+        if (item) {
+          await tx.sys_scheme_item.update({
+            where: { id: item.id },
+            data: { ...data, update_time: new Date() },
+          });
+        } else {
+          await tx.sys_scheme_item.create({
+            data: { ...data, scheme_id: schemeId, scheme_index: schemeIndex },
+          });
+        }
+      }
+
+      if (keptAudios.length) {
+        await tx.sys_scheme_segment_audio.createMany({
+          data: keptAudios.map((audio) => ({
+            scheme_id: schemeId,
+            scheme_index: audio.schemeIndex,
+            segment_key: audio.segmentKey,
+            audio_url: audio.audioUrl,
+          })),
+        });
+      }
+      await this.render(tx, schemeId, { audio_url: '' });
+    });
+  }
+
+  /**
+   * 更新片段音频，之前拼接的旁白随之失效
+   * @param schemeId 方案 ID
+   * @param schemeIndex 方案索引
+   * @param segmentKey 片段键值
+   * @param audioUrl 音频文件 URL
+   */
+  async setSegmentAudio(
+    schemeId: bigint,
+    schemeIndex: number,
+    segmentKey: sys_tts_task_segment_key,
+    audioUrl: string,
+  ): Promise<void> {
+    await this.mutate(schemeId, async (tx) => {
+      await this.ensureItems(tx, schemeId);
+      const { count } = await tx.sys_scheme_item.updateMany({
+        where: { scheme_id: schemeId, scheme_index: schemeIndex },
+        data: { merged_audio_url: null, update_time: new Date() },
+      });
+      if (!count) {
+        this.logger.warn(
+          `方案项不存在，跳过音频 URL 更新 [schemeId: ${schemeId}, index: ${schemeIndex}]`,
+        );
+        return;
+      }
+
+      const uniqueKey = {
+        scheme_id: schemeId,
+        scheme_index: schemeIndex,
+        segment_key: segmentKey,
+      };
+      await tx.sys_scheme_segment_audio.upsert({
+        where: { scheme_id_scheme_index_segment_key: uniqueKey },
+        update: { audio_url: audioUrl, update_time: new Date() },
+        create: { ...uniqueKey, audio_url: audioUrl },
+      });
+      await this.render(tx, schemeId, { audio_url: '' });
+
+      this.logger.log(
+        `已更新音频 URL [schemeId: ${schemeId}, index: ${schemeIndex}, key: ${segmentKey}]`,
+      );
+    });
+  }
+
+  /**
+   * 保存拼接后的旁白音轨
+   * @param schemeId 方案 ID
+   * @param itemAudioUrls 各方案项音轨 URL
+   * @param schemeAudioUrl 完整方案音轨 URL
+   */
+  async setMergedAudio(
+    schemeId: bigint,
+    itemAudioUrls: Record<number, string>,
+    schemeAudioUrl: string,
+  ): Promise<void> {
+    await this.mutate(schemeId, async (tx) => {
+      await this.ensureItems(tx, schemeId);
+      for (const [schemeIndex, url] of Object.entries(itemAudioUrls)) {
+        await tx.sys_scheme_item.updateMany({
+          where: { scheme_id: schemeId, scheme_index: Number(schemeIndex) },
+          data: { merged_audio_url: url, update_time: new Date() },
+        });
+      }
+      await this.render(tx, schemeId, { audio_url: schemeAudioUrl });
+    });
+  }
+
+  /**
+   * 保存方案项的字幕文件地址
+   * @param schemeId 方案 ID
+   * @param subtitleUrls 方案索引 -> 字幕文件地址
+   */
+  async setSubtitles(
+    schemeId: bigint,
+    subtitleUrls: Record<number, SubtitleUrl>,
+  ): Promise<void> {
+    await this.mutate(schemeId, async (tx) => {
+      await this.ensureItems(tx, schemeId);
+      for (const [schemeIndex, urls] of Object.entries(subtitleUrls)) {
+        await tx.sys_scheme_item.updateMany({
+          where: { scheme_id: schemeId, scheme_index: Number(schemeIndex) },
+          data: {
+            translation_srt_url: urls.translationSrt,
+            translation_vtt_url: urls.translationVtt,
+            chinese_narration_srt_url: urls.chineseNarrationSrt,
+            chinese_narration_vtt_url: urls.chineseNarrationVtt,
+            update_time: new Date(),
+          },
+        });
+      }
+      await this.render(tx, schemeId);
+    });
+  }
+
+  /**
+   * 持有方案锁并在校验栅栏令牌的事务内修改方案内容
+   * @param schemeId 方案 ID
+   * @param fn 使用事务客户端执行的修改
+   */
+  private mutate<T>(
+    schemeId: bigint,
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<T> {
+    return this.ttsSchemeLockService.withLock(Number(schemeId), () =>
+      this.ttsSchemeLockService.transaction(Number(schemeId), fn),
+    );
+  }
+
+  /**
+   * 查询各方案项的方案内容，数组下标为方案索引
+   * @param schemeId 方案 ID
+   */
+  async getSchemeContents(schemeId: bigint): Promise<(VideoScript | null)[]> {
+    const items = await this.getItems(schemeId);
+    const contents: (VideoScript | null)[] = [];
+    for (const item of items) {
+      contents[item.scheme_index] = this.parseContent(item.scheme_content);
+    }
+    return contents;
+  }
+
+  /**
+   * 查询各方案项已保存的字幕文件地址，未生成字幕的方案项不返回
+   * @param schemeId 方案 ID
+   * @returns 方案索引 -> 字幕文件地址
+   */
+  async getSubtitleUrls(schemeId: bigint): Promise<Map<number, SubtitleUrl>> {
+    const items = await this.getItems(schemeId);
+    const subtitleUrls = new Map<number, SubtitleUrl>();
+    for (const item of items) {
+      if (!item.translation_srt_url && !item.chinese_narration_srt_url) {
+        continue;
+      }
+      subtitleUrls.set(item.scheme_index, {
+        translationSrt: item.translation_srt_url ?? '',
+        translationVtt: item.translation_vtt_url ?? '',
+        chineseNarrationSrt: item.chinese_narration_srt_url ?? '',
+        chineseNarrationVtt: item.chinese_narration_vtt_url ?? '',
+      });
+    }
+    return subtitleUrls;
+  }
+
+  /**
+   * 查询方案的下载内容，schemeContent 为解析后的对象
+   * @param schemeId 方案 ID
+   * @returns 下载内容，方案没有方案项时返回 null
+   */
+  async getDownloadContent(
+    schemeId: bigint,
+  ): Promise<DownloadContent[] | null> {
+    const items = await this.getItems(schemeId);
+    if (!items.length) return null;
+
+    const audios = await this.prisma.sys_scheme_segment_audio.findMany({
+      where: { scheme_id: schemeId },
+    });
+    return items.map((item) => this.toDownloadContent(item, audios, false));
+  }
+
+  /**
+   * 查询方案项，尚未导入时先从 download_content 导入
+   */
+  private async getItems(schemeId: bigint): Promise<sys_scheme_item[]> {
+    const items = await this.findItems(this.prisma, schemeId);
+    if (items.length) return items;
+
+    await this.mutate(schemeId, (tx) => this.ensureItems(tx, schemeId));
+    return this.findItems(this.prisma, schemeId);
+  }
+
+  private findItems(
+    db: Prisma.TransactionClient,
+    schemeId: bigint,
+  ): Promise<sys_scheme_item[]> {
+    return db.sys_scheme_item.findMany({
+      where: { scheme_id: schemeId },
+      orderBy: { scheme_index: 'asc' },
+    });
+  }
+
+  /**
+   * 方案项尚未导入时从 download_content 导入，保留其中的音频和字幕地址（需在 mutate 内调用）
+   */
+  private async ensureItems(
+    tx: Prisma.TransactionClient,
+    schemeId: bigint,
+  ): Promise<void> {
+    const count = await tx.sys_scheme_item.count({
+      where: { scheme_id: schemeId },
+    });
+    if (!count) {
+      await this.importDownloadContent(tx, schemeId);
+    }
+  }
+
+  /**
+   * 从 download_content 导入方案项，保留其中的音频和字幕地址（需在 mutate 内调用）
+   * @param tx 事务客户端
+   * @param schemeId 方案 ID
+   */
+  private async importDownloadContent(
+    tx: Prisma.TransactionClient,
+    schemeId: bigint,
+  ): Promise<void> {
+    const scheme = await tx.sys_generate_scheme_manage.findUnique({
+      where: { id: Number(schemeId) },
+      select: { download_content: true },
+    });
+    const downloadContent = this.parseDownloadContent(scheme?.download_content);
+
+    await tx.sys_scheme_segment_audio.deleteMany({
+      where: { scheme_id: schemeId },
+    });
+    await tx.sys_scheme_item.deleteMany({
+      where: { scheme_id: schemeId },
+    });
+    if (!downloadContent.length) return;
+
+    const items: Prisma.sys_scheme_itemCreateManyInput[] = [];
+    const audios: Prisma.sys_scheme_segment_audioCreateManyInput[] = [];
+
+    downloadContent.forEach((entry, schemeIndex) => {
+      const { schemeContent, audioUrl, mergedAudioUrl, subtitleUrl, ...extra } =
+        entry ?? ({} as DownloadContent);
+      // 外部系统写入的 schemeContent 可能是 JSON 字符串，导入时统一解析
+      const rawContent = schemeContent as VideoScript | string | undefined;
+      const contentAsString = typeof rawContent === 'string';
+      const content =
+        typeof rawContent === 'string'
+          ? this.parseContent(rawContent)
+          : (rawContent ?? null);
+
+      items.push({
+        scheme_id: schemeId,
+        scheme_index: schemeIndex,
+        scheme_content: content ? JSON.stringify(content) : null,
+        content_as_string: contentAsString,
+        extra_fields: Object.keys(extra).length ? JSON.stringify(extra) : null,
+        merged_audio_url: mergedAudioUrl || null,
+        translation_srt_url: subtitleUrl?.translationSrt || null,
+        translation_vtt_url: subtitleUrl?.translationVtt || null,
+        chinese_narration_srt_url: subtitleUrl?.chineseNarrationSrt || null,
+        chinese_narration_vtt_url: subtitleUrl?.chineseNarrationVtt || null,
+      });
+
+      if (!audioUrl || typeof audioUrl !== 'object') return;
+      for (const [segmentKey, field] of Object.entries(SEGMENT_AUDIO_FIELDS)) {
+        if (!audioUrl[field]) continue;
+        audios.push({
+          scheme_id: schemeId,
+          scheme_index: schemeIndex,
+          segment_key: segmentKey as sys_tts_task_segment_key,
+          audio_url: audioUrl[field],
+        });
+      }
+    });
+
+    await tx.sys_scheme_item.createMany({ data: items });
+    if (audios.length) {
+      await tx.sys_scheme_segment_audio.createMany({ data: audios });
+    }
+
+    this.logger.log(
+      `已从 download_content 导入方案项 [schemeId: ${schemeId}, 方案项: ${items.length}]`,
+    );
+  }
+
+  /**
+   * 由方案项和片段音频重新生成 download_content（需在 mutate 内调用）
+   * @param tx 事务客户端
+   * @param schemeId 方案 ID
+   * @param extraData 同时更新的其他方案字段
+   */
+  private async render(
+    tx: Prisma.TransactionClient,
+    schemeId: bigint,
+    extraData: Prisma.sys_generate_scheme_manageUpdateManyMutationInput = {},
+  ): Promise<void> {
+    const [items, audios] = await Promise.all([
+      this.findItems(tx, schemeId),
+      tx.sys_scheme_segment_audio.findMany({
+        where: { scheme_id: schemeId },
+      }),
+    ]);
+
+    const data: Prisma.sys_generate_scheme_manageUpdateManyMutationInput = {
+      ...extraData,
+    };
+    if (items.length) {
+      data.download_content = JSON.stringify(
+        items.map((item) => this.toDownloadContent(item, audios, true)),
+      );
+    }
+    if (!Object.keys(data).length) return;
+
+    await tx.sys_generate_scheme_manage.update({
+      where: { id: Number(schemeId) },
+      data,
+    });
+  }
+
+  /**
+   * 转换为 download_content 中的一项
+   * @param item 方案项
+   * @param audios 方案的片段音频
+   * @param forStorage 写入 download_content 时按导入时的格式还原 schemeContent
+   */
+  private toDownloadContent(
+    item: sys_scheme_item,
+    audios: sys_scheme_segment_audio[],
+    forStorage: boolean,
+  ): DownloadContent {
+    const audioUrl = {
+      beginAudioUrl: '',
+      middleAudioUrl: '',
+      endAudioUrl: '',
+    };
+    for (const audio of audios) {
+      if (audio.scheme_index !== item.scheme_index) continue;
+      audioUrl[SEGMENT_AUDIO_FIELDS[audio.segment_key]] = audio.audio_url;
+    }
+
+    const subtitleUrl: SubtitleUrl | undefined =
+      item.translation_srt_url || item.chinese_narration_srt_url
+        ? {
+            translationSrt: item.translation_srt_url ?? '',
+            translationVtt: item.translation_vtt_url ?? '',
+            chineseNarrationSrt: item.chinese_narration_srt_url ?? '',
+            chineseNarrationVtt: item.chinese_narration_vtt_url ?? '',
+          }
+        : undefined;
+
+    const schemeContent =
+      forStorage && item.content_as_string
+        ? (item.scheme_content ?? '')
+        : this.parseContent(item.scheme_content);
+
+    return {
+      ...(item.extra_fields
+        ? (JSON.parse(item.extra_fields) as Record<string, unknown>)
+        : {}),
+      schemeContent: schemeContent as VideoScript,
+      audioUrl,
+      mergedAudioUrl: item.merged_audio_url ?? '',
+      ...(subtitleUrl ? { subtitleUrl } : {}),
+    };
+  }
+
+  /**
+   * 解析 download_content，格式无效时返回空数组
+   */
+  private parseDownloadContent(raw?: string | null): DownloadContent[] {
+    if (!raw) return [];
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      return Array.isArray(parsed) ? (parsed as DownloadContent[]) : [];
+    } catch (error) {
+      this.logger.error('解析 download_content 出错:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 解析方案内容 JSON，无效时返回 null
+   */
+  private parseContent(raw?: string | null): VideoScript | null {
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as VideoScript;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import RedisMock from 'ioredis-mock';
+import { ConflictException } from '@nestjs/common';
+import { Queue } from 'bullmq';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TtsSchemeLockService } from './tts-scheme-lock.service';
+import { SchemeLockLostError } from './errors/scheme-lock-lost.error';
+import { TtsJobData } from './types';
+
+jest.mock('../../config/config', () => ({
+  env: {
+    TTS_SCHEME_LOCK_LEASE_MS: 300,
+    TTS_SCHEME_LOCK_WAIT_MS: 250,
+  },
+}));
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('TtsSchemeLockService', () => {
+  /** 内存中的方案行，模拟栅栏令牌的条件更新 */
+  interface FakeScheme {
+    id: number;
+    tts_task_state: number | null;
+    tts_lock_fence: bigint | null;
+  }
+
+  let redis: InstanceType<typeof RedisMock>;
+  let schemes: FakeScheme[];
+  let service: TtsSchemeLockService;
+
+  function createPrisma() {
+    const client = {
+      sys_generate_scheme_manage: {
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { id: number; OR: { tts_lock_fence: unknown }[] };
+            data: { tts_lock_fence: number };
+          }) => {
+            const scheme = schemes.find(
+              (item) =>
+                item.id === where.id &&
+                (item.tts_lock_fence === null ||
+                  item.tts_lock_fence <= BigInt(data.tts_lock_fence)),
+            );
+            if (scheme) scheme.tts_lock_fence = BigInt(data.tts_lock_fence);
+            return Promise.resolve({ count: scheme ? 1 : 0 });
+          },
+        ),
+        update: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { id: number };
+            data: Partial<FakeScheme>;
+          }) => {
+            const scheme = schemes.find((item) => item.id === where.id)!;
+            Object.assign(scheme, data);
+            return Promise.resolve(scheme);
+          },
+        ),
+        aggregate: jest.fn(() =>
+          Promise.resolve({
+            _max: {
+              tts_lock_fence: schemes.reduce<bigint | null>(
+                (max, item) =>
+                  item.tts_lock_fence !== null &&
+                  (max === null || item.tts_lock_fence > max)
+                    ? item.tts_lock_fence
+                    : max,
+                null,
+              ),
+            },
+          }),
+        ),
+      },
+      $transaction: jest.fn((fn: (tx: unknown) => Promise<unknown>) =>
+        fn(client),
+      ),
+    };
+    return client;
+  }
+
+  beforeEach(async () => {
+    redis = new RedisMock();
+    await redis.flushall();
+    schemes = [{ id: 1, tts_task_state: null, tts_lock_fence: null }];
+    const queue = { client: Promise.resolve(redis) };
+    service = new TtsSchemeLockService(
+      createPrisma() as unknown as PrismaService,
+      queue as unknown as Queue<TtsJobData>,
+    );
+  });
+
+  afterEach(() => redis.disconnect());
+
+  it('releases the lock after the operation and records the fence on writes', async () => {
+    await service.withLock(1, async () => {
+      expect(await redis.exists('tts:scheme-lock:1')).toBe(1);
+      await service.updateScheme(1, { tts_task_state: 1 });
+    });
+
+    expect(await redis.exists('tts:scheme-lock:1')).toBe(0);
+    expect(schemes[0]).toEqual({
+      id: 1,
+      tts_task_state: 1,
+      tts_lock_fence: 1n,
+    });
+  });
+
+  it('is reentrant within the same call chain', async () => {
+    await expect(
+      service.withLock(1, () => service.withLock(1, () => Promise.resolve(7))),
+    ).resolves.toBe(7);
+  });
+
+  it('makes other callers wait and gives up after the wait timeout', async () => {
+    const order: string[] = [];
+    const first = service.withLock(1, async () => {
+      await sleep(100);
+      order.push('first');
+    });
+    await sleep(10);
+    const second = service.withLock(1, () => {
+      order.push('second');
+      return Promise.resolve();
+    });
+    await Promise.all([first, second]);
+    expect(order).toEqual(['first', 'second']);
+
+    const holder = service.withLock(1, () => sleep(400));
+    await sleep(10);
+    await expect(service.withLock(1, () => Promise.resolve())).rejects.toThrow(
+      ConflictException,
+    );
+    await holder;
+  });
+
+  it('renews the lease while the operation runs', async () => {
+    await service.withLock(1, async () => {
+      await sleep(450);
+      expect(await redis.exists('tts:scheme-lock:1')).toBe(1);
+    });
+  });
+
+  it('rejects writes after another holder has written with a newer fence', async () => {
+    const write = jest.fn();
+
+    await expect(
+      service.withLock(1, async () => {
+        // 租约过期后其他实例获取锁并写入了方案
+        schemes[0].tts_lock_fence = 2n;
+        await service.transaction(1, write);
+      }),
+    ).rejects.toThrow(SchemeLockLostError);
+    expect(write).not.toHaveBeenCalled();
+
+    await expect(
+      service.withLock(1, async () => {
+        schemes[0].tts_lock_fence = 99n;
+        await service.updateScheme(1, { tts_task_state: 2 });
+      }),
+    ).rejects.toThrow(SchemeLockLostError);
+    expect(schemes[0].tts_task_state).toBeNull();
+  });
+
+  it('writes without a fence check when the lock is not held', async () => {
+    schemes[0].tts_lock_fence = 5n;
+
+    await service.updateScheme(1, { tts_task_state: 3 });
+
+    expect(schemes[0]).toEqual({
+      id: 1,
+      tts_task_state: 3,
+      tts_lock_fence: 5n,
+    });
+  });
+
+  it('seeds a missing fence counter from the largest fence in the database', async () => {
+    schemes.push({ id: 2, tts_task_state: null, tts_lock_fence: 41n });
+
+    await service.withLock(1, () =>
+      service.updateScheme(1, { tts_task_state: 1 }),
+    );
+
+    expect(schemes[0].tts_lock_fence).toBe(42n);
+    expect(await redis.get('tts:scheme-lock:fence')).toBe('42');
+  });
+});
@@ -0,0 +1,252 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { env } from '../../config/config';
+import { TtsJobData } from './types';
+import { SchemeLockLostError } from './errors/scheme-lock-lost.error';
+
+/** 锁键前缀 */
+const LOCK_PREFIX = 'tts:scheme-lock';
+
+/** 栅栏令牌计数器，每次获取锁递增 */
+const FENCE_KEY = `${LOCK_PREFIX}:fence`;
+
+/** 锁被占用时的重试间隔（毫秒） */
+const ACQUIRE_RETRY_MS = 100;
+
+/** 获取锁成功时返回递增的栅栏令牌，锁被占用时返回 0 */
+const ACQUIRE_SCRIPT = `
+if redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2], 'NX') then
+  return redis.call('INCR', KEYS[2])
+end
+return 0
+`;
+
+/** 仅当锁仍属于自己时续期 */
+const RENEW_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/** 仅当锁仍属于自己时释放 */
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/** 当前调用链持有的锁 */
+interface HeldLock {
+  token: string; // 锁持有者标识
+  fence: number; // 栅栏令牌
+}
+
+/** 当前调用链所在的事务 */
+interface ActiveTransaction {
+  tx: Prisma.TransactionClient;
+  fencedSchemes: Set<number>; // 已在事务内校验过栅栏令牌的方案
+}
+
+/**
+ * 方案分布式锁服务
+ * 基于 Redis 的租约锁，多个实例之间串行执行同一方案的修改；持有期间自动续期，实例崩溃后租约到期释放。
+ * 每次获取锁得到递增的栅栏令牌，锁内的写入通过 transaction 在同一事务中校验令牌，
+ * 租约过期后被接管的旧持有者无法再覆盖方案、方案项、片段音频和任务数据。
+ * 同一调用链内可重入
+ */
+@Injectable()
+export class TtsSchemeLockService {
+  private readonly logger = new Logger(TtsSchemeLockService.name);
+
+  /** 当前异步调用链持有的锁，方案 ID -> 锁 */
+  private readonly heldLocks = new AsyncLocalStorage<Map<number, HeldLock>>();
+
+  /** 当前异步调用链所在的事务 */
+  private readonly transactions = new AsyncLocalStorage<ActiveTransaction>();
+
+  constructor(
+    private prisma: PrismaService,
+    @InjectQueue('ttsQueue') private ttsQueue: Queue<TtsJobData>,
+  ) {}
+
+  private lockKey(schemeId: number): string {
+    return `${LOCK_PREFIX}:${schemeId}`;
+  }
+
+  /**
+   * 持有方案锁执行操作
+   * @param schemeId 方案 ID
+   * @param fn 要执行的函数
+   * @throws ConflictException 等待超时仍未获取到锁
+   */
+  async withLock<T>(schemeId: number, fn: () => Promise<T>): Promise<T> {
+    const heldLocks = this.heldLocks.getStore();
+    if (heldLocks?.has(schemeId)) return fn();
+
+    const lock = await this.acquire(schemeId);
+    const renewTimer = setInterval(
+      () => void this.renew(schemeId, lock),
+      Math.floor(env.TTS_SCHEME_LOCK_LEASE_MS / 3),
+    );
+
+    try {
+      return await this.heldLocks.run(
+        new Map(heldLocks).set(schemeId, lock),
+        fn,
+      );
+    } finally {
+      clearInterval(renewTimer);
+      await this.release(schemeId, lock);
+    }
+  }
+
+  /**
+   * 在事务内执行方案相关的写入
+   * 持有方案锁时先在事务内校验并记录栅栏令牌，方案行在事务提交前保持锁定，
+   * 新的锁持有者写入前会等待本事务结束，之后旧持有者的事务因令牌过期而失败。
+   * 已在事务中时复用当前事务
+   * @param schemeId 方案 ID
+   * @param fn 使用事务客户端执行的写入
+   * @throws SchemeLockLostError 方案已被持有更新令牌的操作写入
+   */
+  async transaction<T>(
+    schemeId: number,
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<T> {
+    const active = this.transactions.getStore();
+    if (active) {
+      await this.checkFence(active, schemeId);
+      return fn(active.tx);
+    }
+
+    return this.prisma.$transaction((tx) => {
+      const transaction = { tx, fencedSchemes: new Set<number>() };
+      return this.transactions.run(transaction, async () => {
+        await this.checkFence(transaction, schemeId);
+        return fn(tx);
+      });
+    });
+  }
+
+  /**
+   * 更新方案字段，持有方案锁时校验栅栏令牌
+   * @param schemeId 方案 ID
+   * @param data 更新内容
+   * @throws SchemeLockLostError 方案已被持有更新令牌的操作写入
+   */
+  async updateScheme(
+    schemeId: number,
+    data: Prisma.sys_generate_scheme_manageUpdateManyMutationInput,
+  ): Promise<void> {
+    await this.transaction(schemeId, (tx) =>
+      tx.sys_generate_scheme_manage.update({
+        where: { id: schemeId },
+        data,
+      }),
+    );
+  }
+
+  /**
+   * 持有方案锁时在事务内推进方案的栅栏令牌，令牌已被更新的持有者推进过时抛出
+   */
+  private async checkFence(
+    transaction: ActiveTransaction,
+    schemeId: number,
+  ): Promise<void> {
+    const lock = this.heldLocks.getStore()?.get(schemeId);
+    if (!lock || transaction.fencedSchemes.has(schemeId)) return;
+
+    const { count } =
+      await transaction.tx.sys_generate_scheme_manage.updateMany({
+        where: {
+          id: schemeId,
+          OR: [
+            { tts_lock_fence: null },
+            { tts_lock_fence: { lte: lock.fence } },
+          ],
+        },
+        data: { tts_lock_fence: lock.fence },
+      });
+    if (!count) {
+      throw new SchemeLockLostError(schemeId);
+    }
+    transaction.fencedSchemes.add(schemeId);
+  }
+
+  /**
+   * 获取方案锁，被占用时轮询等待
+   */
+  private async acquire(schemeId: number): Promise<HeldLock> {
+    const client = await this.ttsQueue.client;
+    await this.seedFence(client);
+    const token = randomUUID();
+    const deadline = Date.now() + env.TTS_SCHEME_LOCK_WAIT_MS;
+
+    for (;;) {
+      const fence = Number(
+        await client.eval(
+          ACQUIRE_SCRIPT,
+          2,
+          this.lockKey(schemeId),
+          FENCE_KEY,
+          token,
+          env.TTS_SCHEME_LOCK_LEASE_MS,
+        ),
+      );
+      if (fence) return { token, fence };
+
+      if (Date.now() >= deadline) {
+        throw new ConflictException(
+          `方案 ${schemeId} 正在被其他操作修改，请稍后重试`,
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, ACQUIRE_RETRY_MS));
+    }
+  }
+
+  /**
+   * 栅栏令牌计数器丢失（如 Redis 数据被清空）时，从数据库中已写入的最大令牌继续递增，
+   * 避免新发放的令牌小于已写入的令牌而被误判为过期
+   */
+  private async seedFence(client: Awaited<Queue['client']>): Promise<void> {
+    if (await client.exists(FENCE_KEY)) return;
+
+    const { _max } = await this.prisma.sys_generate_scheme_manage.aggregate({
+      _max: { tts_lock_fence: true },
+    });
+    await client.set(FENCE_KEY, String(_max.tts_lock_fence ?? 0), 'NX');
+  }
+
+  /**
+   * 续期方案锁，锁已被接管时只记录日志，后续写入由栅栏令牌拦截
+   */
+  private async renew(schemeId: number, lock: HeldLock): Promise<void> {
+    try {
+      const client = await this.ttsQueue.client;
+      const renewed = await client.eval(
+        RENEW_SCRIPT,
+        1,
+        this.lockKey(schemeId),
+        lock.token,
+        env.TTS_SCHEME_LOCK_LEASE_MS,
+      );
+      if (!renewed) {
+        this.logger.warn(`方案锁已过期 [schemeId=${schemeId}]`);
+      }
+    } catch (error) {
+      this.logger.error(`方案锁续期失败 [schemeId=${schemeId}]`, error);
+    }
+  }
+
+  private async release(schemeId: number, lock: HeldLock): Promise<void> {
+    const client = await this.ttsQueue.client;
+    await client.eval(RELEASE_SCRIPT, 1, this.lockKey(schemeId), lock.token);
+  }
+}
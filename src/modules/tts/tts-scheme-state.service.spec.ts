@@ -0,0 +1,156 @@
+import { PrismaService } from '../../prisma/prisma.service';
+import { TtsTaskService } from './tts.service';
+import { TtsSubtitleService } from './tts-subtitle.service';
+import { TtsEventsService } from './tts-events.service';
+import { TtsWebhookService } from './tts-webhook.service';
+import { TtsSchemeLockService } from './tts-scheme-lock.service';
+import { TtsBillingService } from './tts-billing.service';
+import { TtsSchemeStateService } from './tts-scheme-state.service';
+import { SchemeState, TaskStatus } from './tts.constants';
+
+jest.mock('../../config/config', () => ({ env: {} }));
+
+describe('TtsSchemeStateService.checkSchemeTasks', () => {
+  let schemeState: SchemeState | null;
+  let counts: Partial<Record<TaskStatus, number>>;
+
+  const prisma = {
+    sys_generate_scheme_manage: {
+      findUnique: jest.fn(() =>
+        Promise.resolve(
+          schemeState === null ? null : { tts_task_state: schemeState },
+        ),
+      ),
+    },
+    sys_tts_task: {
+      count: jest.fn(({ where }: { where: { status: TaskStatus } }) =>
+        Promise.resolve(counts[where.status] ?? 0),
+      ),
+    },
+  };
+  const ttsTaskService = {
+    mergeSchemeAudio: jest.fn(() =>
+      Promise.resolve({ schemeAudioUrl: 'https://oss/scheme.mp3' }),
+    ),
+  };
+  const ttsSubtitleService = { generateSubtitles: jest.fn() };
+  const ttsEventsService = { publish: jest.fn() };
+  const ttsWebhookService = { notifySchemeFinished: jest.fn() };
+  let locked = false;
+  const ttsSchemeLockService = {
+    withLock: jest.fn(async (_schemeId: number, fn: () => Promise<unknown>) => {
+      locked = true;
+      try {
+        return await fn();
+      } finally {
+        locked = false;
+      }
+    }),
+    updateScheme: jest.fn(() => {
+      expect(locked).toBe(true);
+    }),
+  };
+  const ttsBillingService = { settleScheme: jest.fn() };
+
+  const service = new TtsSchemeStateService(
+    prisma as unknown as PrismaService,
+    ttsTaskService as unknown as TtsTaskService,
+    ttsSubtitleService as unknown as TtsSubtitleService,
+    ttsEventsService as unknown as TtsEventsService,
+    ttsWebhookService as unknown as TtsWebhookService,
+    ttsSchemeLockService as unknown as TtsSchemeLockService,
+    ttsBillingService as unknown as TtsBillingService,
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    schemeState = SchemeState.PROCESSING;
+    counts = {};
+  });
+
+  it('waits while tasks are still pending', async () => {
+    counts = { [TaskStatus.PENDING]: 1, [TaskStatus.SUCCESS]: 2 };
+
+    await service.checkSchemeTasks(1n);
+
+    expect(ttsSchemeLockService.updateScheme).not.toHaveBeenCalled();
+    expect(ttsEventsService.publish).not.toHaveBeenCalled();
+  });
+
+  it('skips schemes that are no longer processing', async () => {
+    schemeState = SchemeState.SUCCESS;
+    counts = { [TaskStatus.SUCCESS]: 2 };
+
+    await service.checkSchemeTasks(1n);
+
+    expect(prisma.sys_tts_task.count).not.toHaveBeenCalled();
+    expect(ttsSchemeLockService.updateScheme).not.toHaveBeenCalled();
+  });
+
+  it('finishes a fully successful scheme with merged audio and subtitles', async () => {
+    counts = { [TaskStatus.SUCCESS]: 3 };
+
+    await service.checkSchemeTasks(1n);
+
+    expect(ttsSchemeLockService.updateScheme).toHaveBeenCalledWith(1, {
+      tts_task_state: SchemeState.SUCCESS,
+    });
+    expect(ttsBillingService.settleScheme).toHaveBeenCalledWith(1);
+    expect(ttsTaskService.mergeSchemeAudio).toHaveBeenCalledWith(1n);
+    expect(ttsSubtitleService.generateSubtitles).toHaveBeenCalledWith(1);
+    expect(ttsEventsService.publish).toHaveBeenCalledWith({
+      type: 'finished',
+      schemeId: 1,
+      state: SchemeState.SUCCESS,
+      audioUrl: 'https://oss/scheme.mp3',
+    });
+  });
+
+  it('settles under the scheme lock and merges and notifies after releasing it', async () => {
+    counts = { [TaskStatus.SUCCESS]: 1 };
+    const lockedDuring: boolean[] = [];
+    ttsBillingService.settleScheme.mockImplementationOnce(() =>
+      lockedDuring.push(locked),
+    );
+    ttsTaskService.mergeSchemeAudio.mockImplementationOnce(() => {
+      lockedDuring.push(locked);
+      return Promise.resolve({ schemeAudioUrl: 'https://oss/scheme.mp3' });
+    });
+    ttsWebhookService.notifySchemeFinished.mockImplementationOnce(() =>
+      lockedDuring.push(locked),
+    );
+
+    await service.checkSchemeTasks(1n);
+
+    expect(lockedDuring).toEqual([true, false, false]);
+  });
+
+  it('marks the scheme failed without merging when a task failed', async () => {
+    counts = { [TaskStatus.SUCCESS]: 2, [TaskStatus.FAILED]: 1 };
+
+    await service.checkSchemeTasks(1n);
+
+    expect(ttsSchemeLockService.updateScheme).toHaveBeenCalledWith(1, {
+      tts_task_state: SchemeState.FAILED,
+    });
+    expect(ttsTaskService.mergeSchemeAudio).not.toHaveBeenCalled();
+    expect(ttsWebhookService.notifySchemeFinished).toHaveBeenCalledWith(
+      1n,
+      SchemeState.FAILED,
+    );
+  });
+
+  it('keeps the scheme cancelled while cancelled tasks remain', async () => {
+    counts = { [TaskStatus.SUCCESS]: 2, [TaskStatus.CANCELLED]: 1 };
+
+    await service.checkSchemeTasks(1n);
+
+    expect(ttsSchemeLockService.updateScheme).toHaveBeenCalledWith(1, {
+      tts_task_state: SchemeState.CANCELLED,
+    });
+    expect(ttsTaskService.mergeSchemeAudio).not.toHaveBeenCalled();
+    expect(ttsEventsService.publish).toHaveBeenCalledWith(
+      expect.objectContaining({ state: SchemeState.CANCELLED }),
+    );
+  });
+});
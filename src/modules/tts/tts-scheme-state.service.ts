@@ -0,0 +1,185 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TtsTaskService } from './tts.service';
+import { TtsSubtitleService } from './tts-subtitle.service';
+import { TtsEventsService } from './tts-events.service';
+import { TtsWebhookService } from './tts-webhook.service';
+import { TtsSchemeLockService } from './tts-scheme-lock.service';
+import { TtsBillingService } from './tts-billing.service';
+import { SchemeState, TaskStatus } from './tts.constants';
+
+/**
+ * 方案 TTS 状态服务
+ * 任务结束后汇总方案状态，全部完成时结算配音费用、拼接旁白、生成字幕、发送回调和完成事件
+ */
+@Injectable()
+export class TtsSchemeStateService {
+  private readonly logger = new Logger(TtsSchemeStateService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private ttsTaskService: TtsTaskService,
+    private ttsSubtitleService: TtsSubtitleService,
+    private ttsEventsService: TtsEventsService,
+    private ttsWebhookService: TtsWebhookService,
+    private ttsSchemeLockService: TtsSchemeLockService,
+    private ttsBillingService: TtsBillingService,
+  ) {}
+
+  /**
+   * 检查方案下的所有任务是否已完成，并更新方案状态
+   * 方案锁内只汇总处理中的方案并记录最终状态：多个 Worker 同时完成最后几个任务时，
+   * 后获得锁的调用看到方案已结束直接返回；已取消的方案或仍有已取消任务的方案保持取消状态。
+   * 拼接旁白、生成字幕、回调和完成事件在释放锁后执行，不阻塞同一方案的其他操作
+   * @param schemeId 方案 ID
+   */
+  async checkSchemeTasks(schemeId: bigint): Promise<void> {
+    const finalState = await this.ttsSchemeLockService.withLock(
+      Number(schemeId),
+      () => this.recordFinalState(schemeId),
+    );
+    if (finalState !== null) {
+      await this.finishScheme(schemeId, finalState);
+    }
+  }
+
+  /**
+   * 所有任务都已结束时记录方案最终状态并结算配音费用（需在方案锁内调用）
+   * @returns 方案最终状态，方案不在处理中或仍有待处理任务时返回 null
+   */
+  private async recordFinalState(
+    schemeId: bigint,
+  ): Promise<SchemeState | null> {
+    const state = await this.getSchemeState(Number(schemeId));
+    if (state !== SchemeState.PROCESSING) {
+      this.logger.log(
+        `方案 [ID: ${schemeId}] 不在处理中 (状态: ${state ?? '无'})，跳过汇总`,
+      );
+      return null;
+    }
+
+    // 统计待处理的任务数量
+    const unfinishedCount = await this.prisma.sys_tts_task.count({
+      where: { scheme_id: schemeId, status: TaskStatus.PENDING },
+    });
+
+    this.logger.log(`方案 [ID: ${schemeId}] 待完成任务数: ${unfinishedCount}`);
+
+    // 如果还有待处理的任务，直接返回
+    if (unfinishedCount > 0) return null;
+
+    // 统计最终失败和成功的任务数量
+    const failedCount = await this.prisma.sys_tts_task.count({
+      where: { scheme_id: schemeId, status: TaskStatus.FAILED },
+    });
+
+    const successCount = await this.prisma.sys_tts_task.count({
+      where: { scheme_id: schemeId, status: TaskStatus.SUCCESS },
+    });
+
+    // 重新生成部分片段时，之前取消的片段仍保持取消状态
+    const cancelledCount = await this.prisma.sys_tts_task.count({
+      where: { scheme_id: schemeId, status: TaskStatus.CANCELLED },
+    });
+
+    const totalCompletedTasks = failedCount + successCount + cancelledCount;
+
+    // 如果没有已完成的任务，跳过状态更新
+    if (totalCompletedTasks === 0) {
+      this.logger.warn(`方案 [ID: ${schemeId}] 没有已完成的任务，跳过状态更新`);
+      return null;
+    }
+
+    // 确定方案最终状态
+    // 注：根据业务逻辑，有取消的任务时方案保持取消，否则只要有任何失败任务，整个方案状态就是失败
+    const finalState =
+      cancelledCount > 0
+        ? SchemeState.CANCELLED
+        : failedCount > 0
+          ? SchemeState.FAILED
+          : SchemeState.SUCCESS;
+
+    // 更新方案状态
+    await this.ttsSchemeLockService.updateScheme(Number(schemeId), {
+      tts_task_state: finalState,
+    });
+
+    const statusDescription = {
+      [SchemeState.SUCCESS]: '成功',
+      [SchemeState.FAILED]: '失败',
+      [SchemeState.CANCELLED]: '已取消',
+    }[finalState];
+
+    this.logger.log(
+      `方案 [ID: ${schemeId}] 所有任务已完成 - 最终状态: ${statusDescription} (成功: ${successCount}, 失败: ${failedCount}, 取消: ${cancelledCount})`,
+    );
+
+    // 成功片段扣除积分，失败片段的预扣积分退还；在锁内结算，避免与之后创建任务的预扣交叉
+    try {
+      await this.ttsBillingService.settleScheme(Number(schemeId));
+    } catch (error: any) {
+      this.logger.error(
+        `方案 [ID: ${schemeId}] 配音结算失败: ${error?.message || error}`,
+      );
+    }
+    return finalState;
+  }
+
+  /**
+   * 方案结束后全部成功时拼接旁白并生成字幕，然后发送回调和完成事件
+   * 各步骤失败只记录日志，不影响已记录的方案状态
+   */
+  private async finishScheme(
+    schemeId: bigint,
+    finalState: SchemeState,
+  ): Promise<void> {
+    // 全部成功时拼接旁白音频并生成字幕，失败不影响方案状态
+    let schemeAudioUrl: string | undefined;
+    if (finalState === SchemeState.SUCCESS) {
+      try {
+        ({ schemeAudioUrl } =
+          await this.ttsTaskService.mergeSchemeAudio(schemeId));
+      } catch (error: any) {
+        this.logger.error(
+          `方案 [ID: ${schemeId}] 旁白音频拼接失败: ${error?.message || error}`,
+        );
+      }
+
+      try {
+        await this.ttsSubtitleService.generateSubtitles(Number(schemeId));
+      } catch (error: any) {
+        this.logger.error(
+          `方案 [ID: ${schemeId}] 字幕生成失败: ${error?.message || error}`,
+        );
+      }
+    }
+
+    try {
+      await this.ttsWebhookService.notifySchemeFinished(schemeId, finalState);
+    } catch (error: any) {
+      this.logger.error(
+        `方案 [ID: ${schemeId}] 回调创建失败: ${error?.message || error}`,
+      );
+    }
+
+    await this.ttsEventsService.publish({
+      type: 'finished',
+      schemeId: Number(schemeId),
+      state: finalState,
+      audioUrl: schemeAudioUrl,
+    });
+  }
+
+  /**
+   * 查询方案的 TTS 状态
+   * @param schemeId 方案 ID
+   * @returns 方案状态（SchemeState），方案不存在或未生成过语音时返回 null
+   */
+  async getSchemeState(schemeId: number): Promise<number | null> {
+    const scheme = await this.prisma.sys_generate_scheme_manage.findUnique({
+      where: { id: schemeId },
+      select: { tts_task_state: true },
+    });
+    return scheme?.tts_task_state ?? null;
+  }
+}
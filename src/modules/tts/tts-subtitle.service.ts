@@ -0,0 +1,222 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import * as dayjs from 'dayjs';
+import { sys_tts_task, sys_tts_task_segment_key } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OssService } from '../../common/oss/oss.service';
+import { env } from '../../config/config';
+import { parseWavBuffer } from '../../utils/parseWavBuffer';
+import {
+  buildCues,
+  formatSrt,
+  formatVtt,
+  SubtitleCue,
+} from '../../utils/buildSubtitles';
+import { stripSpeakerTags } from '../../utils/speakerSpans';
+import { TtsAudioService } from './tts-audio.service';
+import { TtsTaskService } from './tts.service';
+import { TtsSchemeContentService } from './tts-scheme-content.service';
+import { TaskStatus } from './tts.constants';
+import {
+  SchemeSubtitleDto,
+  SchemeSubtitleUrlDto,
+  SubtitleTrackDto,
+} from './dto/get-subtitles.dto';
+
+/**
+ * TTS 字幕服务
+ * 根据已生成音频的真实时长生成 SRT / WebVTT 字幕，时间轴与拼接后的旁白音频一致
+ */
+@Injectable()
+export class TtsSubtitleService {
+  private readonly logger = new Logger(TtsSubtitleService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private ossService: OssService,
+    private ttsAudioService: TtsAudioService,
+    private ttsTaskService: TtsTaskService,
+    private ttsSchemeContentService: TtsSchemeContentService,
+  ) {}
+
+  /**
+   * 生成方案字幕并上传到 OSS
+   * 每个方案项生成英文翻译和中文叙述两条字幕轨道
+   * @param schemeId 方案 ID
+   * @returns 各方案项的字幕内容和文件地址
+   */
+  async generateSubtitles(schemeId: number): Promise<SchemeSubtitleDto[]> {
+    this.logger.log(`开始生成方案字幕 [schemeId: ${schemeId}]`);
+
+    const tasks = await this.prisma.sys_tts_task.findMany({
+      where: {
+        scheme_id: BigInt(schemeId),
+        status: { not: TaskStatus.DEPRECATED },
+      },
+    });
+
+    if (!tasks.length) {
+      throw new BadRequestException(`方案 ${schemeId} 没有任务记录`);
+    }
+
+    if (tasks.some((task) => task.status !== TaskStatus.SUCCESS)) {
+      throw new BadRequestException(
+        `方案 ${schemeId} 的语音任务尚未全部成功，无法生成字幕`,
+      );
+    }
+
+    const [scheme, schemeContents] = await Promise.all([
+      this.prisma.sys_generate_scheme_manage.findUnique({
+        where: { id: schemeId },
+        select: { tts_role_voices: true },
+      }),
+      this.ttsSchemeContentService.getSchemeContents(BigInt(schemeId)),
+    ]);
+    // 多声音旁白的说话人标签不出现在字幕中
+    const roles = Object.keys(
+      this.ttsTaskService.parseRoleVoices(scheme?.tts_role_voices)?.voices ??
+        {},
+    );
+
+    // 按方案索引分组
+    const grouped = new Map<number, sys_tts_task[]>();
+    for (const task of tasks) {
+      const group = grouped.get(task.scheme_index) ?? [];
+      group.push(task);
+      grouped.set(task.scheme_index, group);
+    }
+
+    const results: SchemeSubtitleDto[] = [];
+    const schemeIndexes = [...grouped.keys()].sort((a, b) => a - b);
+
+    for (const schemeIndex of schemeIndexes) {
+      const segmentTasks = this.sortSegments(grouped.get(schemeIndex)!);
+      const narration = schemeContents[schemeIndex]?.chineseNarration;
+
+      const translationCues: SubtitleCue[] = [];
+      const narrationCues: SubtitleCue[] = [];
+      let cursor = 0;
+
+      for (const [i, task] of segmentTasks.entries()) {
+        const durationMs = await this.getAudioDuration(task);
+
+        translationCues.push(
+          ...buildCues(
+            stripSpeakerTags(task.text_content, roles),
+            cursor,
+            durationMs,
+          ),
+        );
+        narrationCues.push(
+          ...buildCues(narration?.[task.segment_key] ?? '', cursor, durationMs),
+        );
+
+        cursor += durationMs;
+        if (i < segmentTasks.length - 1) {
+          cursor += env.TTS_SEGMENT_SILENCE_MS;
+        }
+      }
+
+      const filePrefix = `scheme-${schemeId}-item-${schemeIndex}-${Date.now()}`;
+      results.push({
+        schemeIndex,
+        durationMs: cursor,
+        translation: await this.uploadTrack(
+          translationCues,
+          `${filePrefix}-translation`,
+        ),
+        chineseNarration: await this.uploadTrack(
+          narrationCues,
+          `${filePrefix}-chinese-narration`,
+        ),
+      });
+    }
+
+    // 写回方案项，供下载页面使用
+    await this.ttsSchemeContentService.setSubtitles(
+      BigInt(schemeId),
+      Object.fromEntries(
+        results.map((result) => [
+          result.schemeIndex,
+          {
+            translationSrt: result.translation.srtUrl,
+            translationVtt: result.translation.vttUrl,
+            chineseNarrationSrt: result.chineseNarration.srtUrl,
+            chineseNarrationVtt: result.chineseNarration.vttUrl,
+          },
+        ]),
+      ),
+    );
+
+    this.logger.log(
+      `方案字幕生成完成 [schemeId: ${schemeId}, 方案项: ${results.length}]`,
+    );
+    return results;
+  }
+
+  /**
+   * 查询方案已生成的字幕文件地址，不重新生成
+   * @param schemeId 方案 ID
+   * @returns 各方案项的字幕文件地址，未生成字幕的方案项不返回
+   */
+  async getSubtitles(schemeId: number): Promise<SchemeSubtitleUrlDto[]> {
+    const subtitleUrls = await this.ttsSchemeContentService.getSubtitleUrls(
+      BigInt(schemeId),
+    );
+    return [...subtitleUrls].map(([schemeIndex, urls]) => ({
+      schemeIndex,
+      translation: { srtUrl: urls.translationSrt, vttUrl: urls.translationVtt },
+      chineseNarration: {
+        srtUrl: urls.chineseNarrationSrt,
+        vttUrl: urls.chineseNarrationVtt,
+      },
+    }));
+  }
+
+  /**
+   * 读取音频真实时长，优先使用生成时记录的时长，否则下载 WAV 母版解析
+   */
+  private async getAudioDuration(task: sys_tts_task): Promise<number> {
+    if (task.duration_ms) return task.duration_ms;
+    const buffer = await this.ttsAudioService.downloadAudio(
+      task.master_audio_url || task.audio_url!,
+    );
+    return parseWavBuffer(buffer).durationMs;
+  }
+
+  /**
+   * 按 begin/middle/end 顺序排列片段
+   */
+  private sortSegments(tasks: sys_tts_task[]): sys_tts_task[] {
+    const order: sys_tts_task_segment_key[] = ['begin', 'middle', 'end'];
+    return [...tasks].sort(
+      (a, b) => order.indexOf(a.segment_key) - order.indexOf(b.segment_key),
+    );
+  }
+
+  /**
+   * 生成并上传一条字幕轨道的 SRT 和 VTT 文件
+   */
+  private async uploadTrack(
+    cues: SubtitleCue[],
+    fileName: string,
+  ): Promise<SubtitleTrackDto> {
+    const srt = formatSrt(cues);
+    const vtt = formatVtt(cues);
+    const currentDate = dayjs().format('YYYY-MM-DD');
+
+    const [srtResult, vttResult] = await Promise.all([
+      this.ossService.uploadBuffer(
+        Buffer.from(srt, 'utf-8'),
+        `subtitle/${currentDate}/${fileName}.srt`,
+        'application/x-subrip; charset=utf-8',
+      ),
+      this.ossService.uploadBuffer(
+        Buffer.from(vtt, 'utf-8'),
+        `subtitle/${currentDate}/${fileName}.vtt`,
+        'text/vtt; charset=utf-8',
+      ),
+    ]);
+
+    return { srt, vtt, srtUrl: srtResult.url, vttUrl: vttResult.url };
+  }
+}
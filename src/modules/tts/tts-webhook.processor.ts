@@ -0,0 +1,40 @@
+import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { Logger } from '@nestjs/common';
+import { TtsWebhookService } from './tts-webhook.service';
+import { TtsWebhookJobData } from './types';
+
+@Processor('ttsWebhookQueue')
+export class TtsWebhookProcessor extends WorkerHost {
+  private readonly logger = new Logger(TtsWebhookProcessor.name);
+
+  constructor(private ttsWebhookService: TtsWebhookService) {
+    super();
+  }
+
+  /**
+   * 投递 TTS 完成回调
+   * @param job BullMQ 任务对象，包含投递记录 ID
+   */
+  async process(job: Job<TtsWebhookJobData>) {
+    await this.ttsWebhookService.deliver(job.data.deliveryId);
+  }
+
+  /**
+   * 投递失败事件处理，重试耗尽后标记投递失败
+   */
+  @OnWorkerEvent('failed')
+  async onFailed(job: Job<TtsWebhookJobData>, err: Error): Promise<void> {
+    if (!job.finishedOn) {
+      this.logger.warn(
+        `回调 [ID: ${job.data.deliveryId}] 第 ${job.attemptsMade} 次投递失败，等待重试: ${err.message}`,
+      );
+      return;
+    }
+
+    this.logger.error(
+      `回调 [ID: ${job.data.deliveryId}] 投递最终失败: ${err.message}`,
+    );
+    await this.ttsWebhookService.markFailed(job.data.deliveryId);
+  }
+}
@@ -0,0 +1,187 @@
+import { BadRequestException } from '@nestjs/common';
+import { Queue } from 'bullmq';
+import { createHmac } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TtsWebhookService } from './tts-webhook.service';
+import { WebhookDeliveryStatus } from './tts.constants';
+import { TtsWebhookJobData } from './types';
+
+jest.mock('../../config/config', () => ({
+  env: { TTS_WEBHOOK_SECRET: 'global-secret', TTS_WEBHOOK_TIMEOUT_MS: 1000 },
+}));
+
+describe('TtsWebhookService', () => {
+  const prisma = {
+    sys_tts_webhook: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(
+        ({
+          create,
+          update,
+        }: {
+          create: Record<string, unknown>;
+          update: Record<string, unknown>;
+        }) => Promise.resolve({ secret: 'stored', ...create, ...update }),
+      ),
+    },
+    sys_generate_scheme_manage: { findUnique: jest.fn() },
+    sys_tts_webhook_delivery: { findUnique: jest.fn(), update: jest.fn() },
+  };
+  const service = new TtsWebhookService(
+    prisma as unknown as PrismaService,
+    {} as Queue<TtsWebhookJobData>,
+  );
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(new Response('ok', { status: 200 }));
+  });
+
+  afterEach(() => fetchMock.mockRestore());
+
+  describe('registerWebhook', () => {
+    it('returns a new secret on first registration', async () => {
+      prisma.sys_tts_webhook.findUnique.mockResolvedValue(null);
+
+      const webhook = await service.registerWebhook(7, 'https://8.8.8.8/hook');
+
+      expect(webhook.secret).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('keeps and hides the secret when updating', async () => {
+      prisma.sys_tts_webhook.findUnique.mockResolvedValue({ id: 1n });
+
+      const webhook = await service.registerWebhook(7, 'https://8.8.8.8/hook');
+
+      expect(webhook).not.toHaveProperty('secret');
+      expect(prisma.sys_tts_webhook.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: expect.not.objectContaining({ secret: expect.anything() }),
+        }),
+      );
+    });
+
+    it('returns a new secret when rotating', async () => {
+      prisma.sys_tts_webhook.findUnique.mockResolvedValue({ id: 1n });
+
+      const webhook = await service.registerWebhook(
+        7,
+        'https://8.8.8.8/hook',
+        true,
+        true,
+      );
+
+      expect(webhook.secret).toMatch(/^[0-9a-f]{64}$/);
+      expect(prisma.sys_tts_webhook.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: expect.objectContaining({ secret: webhook.secret }),
+        }),
+      );
+    });
+
+    it('rejects callback urls pointing at private addresses', async () => {
+      await expect(
+        service.registerWebhook(7, 'https://10.0.0.5/hook'),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.sys_tts_webhook.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getWebhook', () => {
+    it('never returns the secret', async () => {
+      prisma.sys_tts_webhook.findUnique.mockResolvedValue({
+        user_id: 7,
+        callback_url: 'https://8.8.8.8/hook',
+        secret: 'user-secret',
+        enabled: true,
+      });
+
+      await expect(service.getWebhook(7)).resolves.toEqual({
+        userId: 7,
+        callbackUrl: 'https://8.8.8.8/hook',
+        enabled: true,
+      });
+    });
+  });
+
+  describe('deliver', () => {
+    const payload = JSON.stringify({ event: 'tts.finished', schemeId: 1 });
+
+    beforeEach(() => {
+      prisma.sys_generate_scheme_manage.findUnique.mockResolvedValue({
+        user_id: 7,
+      });
+      prisma.sys_tts_webhook.findUnique.mockResolvedValue({
+        secret: 'user-secret',
+        enabled: true,
+      });
+    });
+
+    function delivery(callbackUrl: string) {
+      prisma.sys_tts_webhook_delivery.findUnique.mockResolvedValue({
+        id: 3n,
+        scheme_id: 1n,
+        callback_url: callbackUrl,
+        event: 'tts.finished',
+        payload,
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 0,
+      });
+    }
+
+    it('signs the timestamp and body with the user secret', async () => {
+      delivery('https://8.8.8.8/hook');
+
+      await service.deliver('3');
+
+      const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+      const headers = init.headers as Record<string, string>;
+      expect(url).toBe('https://8.8.8.8/hook');
+      expect(init.redirect).toBe('manual');
+      expect(headers['X-TTS-Signature']).toBe(
+        'sha256=' +
+          createHmac('sha256', 'user-secret')
+            .update(`${headers['X-TTS-Timestamp']}.${payload}`)
+            .digest('hex'),
+      );
+      expect(prisma.sys_tts_webhook_delivery.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: WebhookDeliveryStatus.SUCCESS,
+            attempts: 1,
+          }),
+        }),
+      );
+    });
+
+    it('refuses to deliver to private addresses', async () => {
+      delivery('https://127.0.0.1/hook');
+
+      await expect(service.deliver('3')).rejects.toThrow('指向内网或保留地址');
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(prisma.sys_tts_webhook_delivery.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            attempts: 1,
+            error_log: expect.stringContaining('127.0.0.1'),
+          }),
+        }),
+      );
+    });
+
+    it('treats redirects as failed deliveries', async () => {
+      delivery('https://8.8.8.8/hook');
+      fetchMock.mockResolvedValueOnce(
+        new Response(null, {
+          status: 302,
+          headers: { Location: 'http://10.0.0.1/' },
+        }),
+      );
+
+      await expect(service.deliver('3')).rejects.toThrow('回调响应异常 [302]');
+    });
+  });
+});
@@ -0,0 +1,321 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { createHmac, randomBytes } from 'crypto';
+import { sys_tts_webhook, sys_tts_webhook_delivery } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { env } from '../../config/config';
+import { assertPublicUrl } from '../../utils/assertPublicUrl';
+import { TtsWebhookJobData, TtsWebhookPayload } from './types';
+import {
+  SchemeState,
+  TaskStatus,
+  WebhookDeliveryStatus,
+} from './tts.constants';
+import { WebhookDto } from './dto/tts-webhook.dto';
+
+/** 响应内容最多记录的字符数 */
+const RESPONSE_BODY_LIMIT = 2000;
+
+/**
+ * TTS 完成回调服务
+ * 方案 TTS 结束后向方案回调地址和用户级回调地址投递签名的 JSON，并记录每次投递结果
+ */
+@Injectable()
+export class TtsWebhookService {
+  private readonly logger = new Logger(TtsWebhookService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    @InjectQueue('ttsWebhookQueue')
+    private webhookQueue: Queue<TtsWebhookJobData>,
+  ) {}
+
+  /**
+   * 注册或更新用户级回调
+   * 签名密钥只在首次注册或轮换时生成并返回一次，之后的更新和查询不再返回
+   * @param userId 用户 ID
+   * @param callbackUrl 回调地址，必须是解析到公网地址的 https 地址
+   * @param enabled 是否启用
+   * @param rotateSecret 是否重新生成签名密钥
+   * @throws BadRequestException 回调地址不是 https 或指向内网地址
+   */
+  async registerWebhook(
+    userId: number,
+    callbackUrl: string,
+    enabled = true,
+    rotateSecret = false,
+  ): Promise<WebhookDto> {
+    try {
+      await assertPublicUrl(callbackUrl);
+    } catch (error: any) {
+      throw new BadRequestException(error?.message || String(error));
+    }
+
+    const existing = await this.prisma.sys_tts_webhook.findUnique({
+      where: { user_id: userId },
+      select: { id: true },
+    });
+    const secret =
+      !existing || rotateSecret ? randomBytes(32).toString('hex') : undefined;
+
+    const webhook = await this.prisma.sys_tts_webhook.upsert({
+      where: { user_id: userId },
+      update: {
+        callback_url: callbackUrl,
+        enabled,
+        ...(secret && { secret }),
+        update_time: new Date(),
+      },
+      create: {
+        user_id: userId,
+        callback_url: callbackUrl,
+        secret: secret!,
+        enabled,
+      },
+    });
+
+    this.logger.log(`已注册 TTS 回调 [userId: ${userId}, url: ${callbackUrl}]`);
+    return this.toWebhookDto(webhook, secret);
+  }
+
+  /**
+   * 查询用户级回调配置，不返回签名密钥
+   * @param userId 用户 ID
+   */
+  async getWebhook(userId: number): Promise<WebhookDto> {
+    const webhook = await this.prisma.sys_tts_webhook.findUnique({
+      where: { user_id: userId },
+    });
+    if (!webhook) {
+      throw new NotFoundException(`用户 ${userId} 未配置回调`);
+    }
+    return this.toWebhookDto(webhook);
+  }
+
+  private toWebhookDto(webhook: sys_tts_webhook, secret?: string): WebhookDto {
+    return {
+      userId: webhook.user_id,
+      callbackUrl: webhook.callback_url,
+      ...(secret && { secret }),
+      enabled: webhook.enabled ?? true,
+    };
+  }
+
+  /**
+   * 查询方案的回调投递记录
+   * @param schemeId 方案 ID
+   */
+  getDeliveries(schemeId: number): Promise<sys_tts_webhook_delivery[]> {
+    return this.prisma.sys_tts_webhook_delivery.findMany({
+      where: { scheme_id: schemeId },
+      orderBy: { id: 'desc' },
+    });
+  }
+
+  /**
+   * 方案 TTS 结束后创建投递记录并加入回调队列
+   * 方案回调地址和用户级回调地址都会投递，相同地址只投递一次
+   * @param schemeId 方案 ID
+   * @param state 方案最终状态
+   */
+  async notifySchemeFinished(
+    schemeId: bigint,
+    state: SchemeState,
+  ): Promise<void> {
+    const scheme = await this.prisma.sys_generate_scheme_manage.findUnique({
+      where: { id: Number(schemeId) },
+      select: { user_id: true, tts_callback_url: true, audio_url: true },
+    });
+    if (!scheme) return;
+
+    const webhook = await this.findUserWebhook(scheme.user_id);
+    const callbackUrls = [
+      ...new Set(
+        [scheme.tts_callback_url, webhook?.callback_url].filter(
+          (url): url is string => Boolean(url),
+        ),
+      ),
+    ];
+    if (!callbackUrls.length) return;
+
+    const payload = await this.buildPayload(
+      schemeId,
+      state,
+      scheme.audio_url || null,
+    );
+
+    for (const callbackUrl of callbackUrls) {
+      const delivery = await this.prisma.sys_tts_webhook_delivery.create({
+        data: {
+          scheme_id: schemeId,
+          callback_url: callbackUrl,
+          event: payload.event,
+          payload: JSON.stringify(payload),
+        },
+      });
+      await this.webhookQueue.add('deliver', {
+        deliveryId: delivery.id.toString(),
+      });
+    }
+
+    this.logger.log(
+      `方案 [ID: ${schemeId}] 已创建 ${callbackUrls.length} 个回调投递`,
+    );
+  }
+
+  /**
+   * 构建回调内容
+   */
+  private async buildPayload(
+    schemeId: bigint,
+    state: SchemeState,
+    schemeAudioUrl: string | null,
+  ): Promise<TtsWebhookPayload> {
+    const tasks = await this.prisma.sys_tts_task.findMany({
+      where: {
+        scheme_id: schemeId,
+        status: { in: [TaskStatus.SUCCESS, TaskStatus.FAILED] },
+      },
+      orderBy: [{ scheme_index: 'asc' }, { id: 'asc' }],
+    });
+
+    const success = tasks.filter(
+      (task) => task.status === TaskStatus.SUCCESS,
+    ).length;
+
+    return {
+      event: 'tts.finished',
+      schemeId: Number(schemeId),
+      state,
+      status: state === SchemeState.SUCCESS ? 'success' : 'failed',
+      stats: {
+        success,
+        failed: tasks.length - success,
+        total: tasks.length,
+      },
+      schemeAudioUrl,
+      segments: tasks.map((task) => ({
+        schemeIndex: task.scheme_index,
+        segmentKey: task.segment_key,
+        status: task.status ?? TaskStatus.PENDING,
+        audioUrl: task.audio_url,
+        durationMs: task.duration_ms,
+      })),
+      timestamp: Date.now(),
+    };
+  }
+
+  private async findUserWebhook(
+    userId: number | null,
+  ): Promise<sys_tts_webhook | null> {
+    if (!userId) return null;
+    const webhook = await this.prisma.sys_tts_webhook.findUnique({
+      where: { user_id: userId },
+    });
+    return webhook?.enabled === false ? null : webhook;
+  }
+
+  /**
+   * 执行一次投递，非 2xx 响应或请求异常时抛出错误由队列重试
+   * @param deliveryId 投递记录 ID
+   */
+  async deliver(deliveryId: string): Promise<void> {
+    const delivery = await this.prisma.sys_tts_webhook_delivery.findUnique({
+      where: { id: BigInt(deliveryId) },
+    });
+    if (!delivery || delivery.status === WebhookDeliveryStatus.SUCCESS) {
+      return;
+    }
+
+    const scheme = await this.prisma.sys_generate_scheme_manage.findUnique({
+      where: { id: Number(delivery.scheme_id) },
+      select: { user_id: true },
+    });
+    const webhook = await this.findUserWebhook(scheme?.user_id ?? null);
+    const secret = webhook?.secret || env.TTS_WEBHOOK_SECRET;
+
+    const timestamp = Date.now().toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-TTS-Event': delivery.event,
+      'X-TTS-Delivery': delivery.id.toString(),
+      'X-TTS-Timestamp': timestamp,
+    };
+    if (secret) {
+      headers['X-TTS-Signature'] =
+        'sha256=' +
+        createHmac('sha256', secret)
+          .update(`${timestamp}.${delivery.payload}`)
+          .digest('hex');
+    } else {
+      this.logger.warn(`回调 [ID: ${deliveryId}] 未配置签名密钥，未签名发送`);
+    }
+
+    const attempts = (delivery.attempts ?? 0) + 1;
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+
+    try {
+      // 地址在注册后可能被改为解析到内网，每次投递前重新校验，且不跟随重定向
+      await assertPublicUrl(delivery.callback_url);
+      const response = await fetch(delivery.callback_url, {
+        method: 'POST',
+        headers,
+        body: delivery.payload,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(env.TTS_WEBHOOK_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+
+      if (!response.ok) {
+        throw new Error(`回调响应异常 [${response.status}]`);
+      }
+
+      await this.prisma.sys_tts_webhook_delivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: WebhookDeliveryStatus.SUCCESS,
+          attempts,
+          response_status: responseStatus,
+          response_body: responseBody,
+          error_log: null,
+          update_time: new Date(),
+        },
+      });
+      this.logger.log(`回调 [ID: ${deliveryId}] 投递成功`);
+    } catch (error: any) {
+      await this.prisma.sys_tts_webhook_delivery.update({
+        where: { id: delivery.id },
+        data: {
+          attempts,
+          response_status: responseStatus,
+          response_body: responseBody,
+          error_log: error?.message || String(error),
+          update_time: new Date(),
+        },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 重试耗尽后标记投递失败
+   * @param deliveryId 投递记录 ID
+   */
+  async markFailed(deliveryId: string): Promise<void> {
+    await this.prisma.sys_tts_webhook_delivery.update({
+      where: { id: BigInt(deliveryId) },
+      data: {
+        status: WebhookDeliveryStatus.FAILED,
+        update_time: new Date(),
+      },
+    });
+  }
+}
@@ -0,0 +1,67 @@
+/** 任务状态常量 */
+export enum TaskStatus {
+  PENDING = 0, // 待处理/失败但可重试
+  SUCCESS = 1, // 成功
+  FAILED = 2, // 最终失败
+  DEPRECATED = 3, // 废弃
+  CANCELLED = 4, // 已取消
+}
+
+/** 方案状态常量 */
+export enum SchemeState {
+  PROCESSING = 1, // 处理中
+  SUCCESS = 2, // 成功
+  FAILED = 3, // 失败
+  CANCELLED = 4, // 已取消
+}
+
+/** 队列任务优先级档位，高档位的任务总是先执行，同档位内按用户轮转 */
+export enum TtsJobPriority {
+  INTERACTIVE = 1, // 单片段修改、失败重试
+  BULK = 2, // 整个方案生成、时长适配、巡检补队
+}
+
+/** 回调投递状态常量 */
+export enum WebhookDeliveryStatus {
+  PENDING = 0, // 投递中
+  SUCCESS = 1, // 成功
+  FAILED = 2, // 重试耗尽
+}
+
+/** 合成音频质检结果 */
+export enum QaStatus {
+  PASSED = 'passed', // 通过
+  SUSPICIOUS = 'suspicious', // 疑似截断、近乎静音或削波
+}
+
+/** 支持调节语速的提供商及语速范围 */
+export const SPEED_ADJUSTABLE_PROVIDERS: Record<
+  string,
+  { min: number; max: number }
+> = {
+  minimax: { min: 0.5, max: 2 },
+  vertexai: { min: 0.25, max: 4 },
+};
+
+/** 各提供商的默认语音，降级时找不到映射则使用 */
+export const DEFAULT_PROVIDER_VOICES: Record<string, string> = {
+  gemini: 'Kore',
+  minimax: 'female-chengshu',
+  vertexai: 'cm-CN-Wavenet-A',
+};
+
+/**
+ * 跨提供商语音映射表
+ * 每一项为音色相近的一组语音，降级切换提供商时按组查找对应语音
+ */
+export const VOICE_MAPPING: Record<string, string>[] = [
+  { gemini: 'Kore', minimax: 'female-chengshu', vertexai: 'cm-CN-Wavenet-A' },
+  { gemini: 'Aoede', minimax: 'female-shaonv', vertexai: 'cm-CN-Wavenet-C' },
+  { gemini: 'Puck', minimax: 'male-qn-qingse', vertexai: 'cm-CN-Wavenet-D' },
+  {
+    gemini: 'Charon',
+    minimax: 'male-qn-jingying',
+    vertexai: 'cm-CN-Wavenet-B',
+  },
+  { gemini: 'Fenrir', minimax: 'male-qn-badao' },
+];
@@ -1,13 +1,67 @@
-import { Body, Controller, Get, Post, Put, Query } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Post,
+  Put,
+  Query,
+  Req,
+  Res,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
 import { Logger } from '@nestjs/common';
 import { TtsTaskService } from './tts.service';
-import { ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { ApiOperation, ApiProduces, ApiQuery, ApiTags } from '@nestjs/swagger';
 import { CreateTtsTaskDto, TaskExecuteDto } from './dto/create-tts-task.dto';
 import { UpdateTtsTasksDto } from './dto/update-tts-task.dto';
+import { VoiceStyleDto } from './dto/voice-style.dto';
+import {
+  TtsProgressEvent,
+  TtsSchemeItemInput,
+  TtsSynthesisOptions,
+  TtsVoiceStyle,
+} from './types';
+import { SchemeState } from './tts.constants';
+import { TtsEstimateDto } from './dto/estimate-tts-task.dto';
 import { RetryFailedIndexesDto } from './dto/retry-failed-indexes.dto';
 import { GetStatusQueryDto, SegmentDto } from './dto/get-status-query.dto';
 import { ApiResponseDto } from '../../common/decorators/api-response.decorator';
-import { OverallResponseDto } from './dto/get-status-overall-status.dto';
+import {
+  FitTimingResultDto,
+  OverallResponseDto,
+} from './dto/get-status-overall-status.dto';
+import { FitTimingDto } from './dto/fit-timing.dto';
+import {
+  GenerateSubtitlesDto,
+  SchemeSubtitleDto,
+  SchemeSubtitleUrlDto,
+} from './dto/get-subtitles.dto';
+import { TtsSubtitleService } from './tts-subtitle.service';
+import { ProviderBudgetDto } from './dto/get-provider-budget.dto';
+import { TtsRateLimitService } from './tts-rate-limit.service';
+import { QueuePositionDto } from './dto/queue-position.dto';
+import { TtsSchedulerService } from './tts-scheduler.service';
+import { TtsSchemeStateService } from './tts-scheme-state.service';
+import { CancelResultDto, CancelTtsTaskDto } from './dto/cancel-tts-task.dto';
+import { TtsEventsService } from './tts-events.service';
+import { TtsProgressEventDto } from './dto/tts-progress-event.dto';
+import { TtsWebhookService } from './tts-webhook.service';
+import { TtsReaperService } from './tts-reaper.service';
+import { ReaperReportDto } from './dto/reaper-report.dto';
+import { TtsHistoryService } from './tts-history.service';
+import {
+  GetTaskHistoryQueryDto,
+  PromoteResultDto,
+  PromoteTakeDto,
+  TtsTakeDto,
+} from './dto/tts-history.dto';
+import {
+  GetWebhookQueryDto,
+  RegisterWebhookDto,
+  WebhookDeliveryDto,
+  WebhookDto,
+} from './dto/tts-webhook.dto';
+import { SchemeRolesDto } from './dto/scheme-roles.dto';
 
 /**
  * TTS 任务管理控制器
@@ -18,7 +72,17 @@ import { OverallResponseDto } from './dto/get-status-overall-status.dto';
 export class TtsTaskController {
   private readonly logger = new Logger(TtsTaskController.name);
 
-  constructor(private readonly ttsTaskService: TtsTaskService) {}
+  constructor(
+    private readonly ttsTaskService: TtsTaskService,
+    private readonly ttsSubtitleService: TtsSubtitleService,
+    private readonly ttsRateLimitService: TtsRateLimitService,
+    private readonly ttsEventsService: TtsEventsService,
+    private readonly ttsWebhookService: TtsWebhookService,
+    private readonly ttsReaperService: TtsReaperService,
+    private readonly ttsHistoryService: TtsHistoryService,
+    private readonly ttsSchedulerService: TtsSchedulerService,
+    private readonly ttsSchemeStateService: TtsSchemeStateService,
+  ) {}
 
   /**
    * 创建语音生成任务
@@ -28,7 +92,7 @@ export class TtsTaskController {
   @ApiOperation({
     summary: '创建语音生成任务',
     description:
-      '根据提供的方案数据批量创建语音合成任务，支持保留历史或覆盖模式两种创建方式',
+      '根据提供的方案数据批量创建语音合成任务，只重新合成文本或语音参数有变化的片段，支持保留历史或覆盖模式两种创建方式',
   })
   @ApiResponseDto(TaskExecuteDto)
   async create(@Body() body: CreateTtsTaskDto) {
@@ -38,17 +102,52 @@ export class TtsTaskController {
 
     const result = await this.ttsTaskService.createTasks(
       body.schemeId,
-      body.actualScheme,
+      this.toSchemeItems(body),
       body.voiceName,
       body.provider,
+      this.toSynthesisOptions(body),
+      body.callbackUrl,
+      body.keepHistory,
+      body.roleVoices,
+      body.outputFormat,
+      body.forceRegenerate,
     );
 
+    // 所有片段都沿用原音频时不会有任务完成，直接汇总方案状态（拼接旁白、生成字幕、回调）
+    if (!result.regeneratedTasks) {
+      await this.ttsSchemeStateService.checkSchemeTasks(BigInt(body.schemeId));
+    }
+
     this.logger.log(
-      `成功创建 ${result.totalTasks} 个 TTS 任务 [schemeId: ${body.schemeId}]`,
+      `成功创建 ${result.regeneratedTasks} 个 TTS 任务，沿用 ${result.keptTasks} 个片段 [schemeId: ${body.schemeId}]`,
     );
     return result;
   }
 
+  /**
+   * 估算创建语音任务的费用
+   * 参数与创建任务相同，不创建任务
+   */
+  @Post('estimate')
+  @ApiOperation({
+    summary: '估算语音任务费用',
+    description:
+      '按与创建任务相同的参数，返回需要合成的字符数、各提供商的预计成本和消耗的积分，以及用户积分余额是否足够',
+  })
+  @ApiResponseDto(TtsEstimateDto)
+  async estimate(@Body() body: CreateTtsTaskDto) {
+    return this.ttsTaskService.estimateTasks(
+      body.schemeId,
+      this.toSchemeItems(body),
+      body.voiceName,
+      body.provider,
+      this.toSynthesisOptions(body),
+      body.roleVoices,
+      body.outputFormat,
+      body.forceRegenerate,
+    );
+  }
+
   /**
    * 更新指定任务的语音内容
    * 重新生成指定片段的语音，支持批量更新
@@ -66,7 +165,11 @@ export class TtsTaskController {
 
     const result = await this.ttsTaskService.updateTasksExclusive(
       dto.schemeId,
-      dto.updates,
+      dto.updates.map(({ style, ...update }) => ({
+        ...update,
+        style: this.toVoiceStyle(style),
+      })),
+      dto.keepHistory,
     );
 
     this.logger.log(
@@ -126,6 +229,308 @@ export class TtsTaskController {
     return result;
   }
 
+  /**
+   * 查询片段的音频历史版本
+   */
+  @Get('history')
+  @ApiOperation({
+    summary: '查询片段历史版本',
+    description:
+      '查询保留历史模式下被覆盖的音频版本，包含文本、语音、提供商、音频 URL 和生成时间',
+  })
+  @ApiResponseDto(TtsTakeDto, true)
+  async history(@Query() query: GetTaskHistoryQueryDto) {
+    return this.ttsHistoryService.getHistory(
+      Number(query.schemeId),
+      Number(query.schemeIndex),
+      query.segmentKey,
+    );
+  }
+
+  /**
+   * 回滚到片段的历史版本
+   */
+  @Post('history/promote')
+  @ApiOperation({
+    summary: '回滚片段历史版本',
+    description:
+      '不重新合成，直接将历史音频恢复为片段当前音频（当前音频会先归档），并重新拼接方案旁白',
+  })
+  @ApiResponseDto(PromoteResultDto)
+  async promote(@Body() body: PromoteTakeDto) {
+    this.logger.log(`回滚历史版本请求 [historyId: ${body.historyId}]`);
+
+    return this.ttsHistoryService.promoteTake(body.historyId);
+  }
+
+  /**
+   * 实时推送方案的语音生成进度（SSE）
+   * 方案完成（成功、失败或取消）后发送 [DONE] 并关闭连接
+   */
+  @Get('events')
+  @ApiOperation({
+    summary: '语音生成进度推送（SSE）',
+    description:
+      '订阅方案的片段级进度事件：已排队、开始合成、成功（含音频 URL）、失败（含错误信息）以及方案完成',
+  })
+  @ApiProduces('text/event-stream')
+  @ApiResponseDto(TtsProgressEventDto, false, '进度事件')
+  async events(
+    @Query() query: GetStatusQueryDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const schemeId = Number(query.schemeId);
+    this.logger.log(`订阅 TTS 进度事件 [schemeId: ${schemeId}]`);
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    // 定时发送注释行，避免代理因空闲断开连接
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+    const send = (event: TtsProgressEvent) => {
+      res.write(
+        `data: ${JSON.stringify({ code: 0, msg: event.type, data: event })}\n\n`,
+      );
+      if (event.type === 'finished') {
+        res.write('data: [DONE]\n\n');
+        res.end();
+      }
+    };
+
+    // 响应头已发送，订阅失败时只能通过事件流告知客户端并关闭连接
+    let unsubscribe = async () => {};
+    let state: number | null;
+    try {
+      unsubscribe = await this.ttsEventsService.subscribe(schemeId, send);
+      state = await this.ttsSchemeStateService.getSchemeState(schemeId);
+    } catch (error: any) {
+      clearInterval(heartbeat);
+      void unsubscribe();
+      this.logger.error(
+        `订阅 TTS 进度事件失败 [schemeId: ${schemeId}]: ${error?.message || error}`,
+      );
+      res.write(
+        `data: ${JSON.stringify({ code: 500, msg: '订阅进度事件失败', data: null })}\n\n`,
+      );
+      res.end();
+      return;
+    }
+
+    const cleanup = () => {
+      clearInterval(heartbeat);
+      void unsubscribe();
+    };
+    req.on('close', cleanup);
+    res.on('finish', cleanup);
+
+    // 订阅前方案已结束（或已取消）时不会再有完成事件，直接发送当前状态并关闭
+    if (state !== SchemeState.PROCESSING && !res.writableEnded) {
+      send({
+        type: 'finished',
+        schemeId,
+        state: state ?? undefined,
+        timestamp: Date.now(),
+      });
+    }
+  }
+
+  /**
+   * 查询方案已生成的字幕
+   * 只返回已保存的字幕文件地址，不重新生成
+   */
+  @Get('subtitles')
+  @ApiOperation({
+    summary: '查询方案字幕',
+    description:
+      '返回各方案项已生成的英文翻译和中文叙述 SRT/VTT 字幕文件地址，未生成字幕的方案项不返回',
+  })
+  @ApiResponseDto(SchemeSubtitleUrlDto, true)
+  async subtitles(@Query() query: GetStatusQueryDto) {
+    return this.ttsSubtitleService.getSubtitles(Number(query.schemeId));
+  }
+
+  /**
+   * 生成方案字幕
+   * 根据已生成音频的真实时长生成 SRT/VTT 字幕并上传到 OSS
+   */
+  @Post('subtitles')
+  @ApiOperation({
+    summary: '生成方案字幕',
+    description:
+      '方案所有语音任务成功后，按音频真实时长重新生成英文翻译和中文叙述的 SRT/VTT 字幕，上传到 OSS 并保存到方案',
+  })
+  @ApiResponseDto(SchemeSubtitleDto, true)
+  async generateSubtitles(@Body() body: GenerateSubtitlesDto) {
+    this.logger.log(`生成方案字幕 [schemeId: ${body.schemeId}]`);
+
+    const result = await this.ttsSubtitleService.generateSubtitles(
+      body.schemeId,
+    );
+
+    this.logger.log(
+      `返回 ${result.length} 个方案项的字幕 [schemeId: ${body.schemeId}]`,
+    );
+    return result;
+  }
+
+  /**
+   * 按目标时长重新合成超时的方案项
+   * 对支持调节语速的提供商提高语速后重新生成
+   */
+  @Post('fit-timing')
+  @ApiOperation({
+    summary: '按目标时长调整语速',
+    description:
+      '对旁白时长超过视频目标时长的方案项，按超出比例提高语速后重新合成（仅支持可调节语速的提供商）',
+  })
+  @ApiResponseDto(FitTimingResultDto)
+  async fitTiming(@Body() body: FitTimingDto) {
+    this.logger.log(`按目标时长调整语速请求 [schemeId: ${body.schemeId}]`);
+
+    const result = await this.ttsTaskService.fitSchemeTiming(body.schemeId);
+
+    this.logger.log(
+      `语速调整完成 [schemeId: ${body.schemeId}] - 调整: ${result.adjusted.length}, 跳过: ${result.skipped.length}`,
+    );
+    return result;
+  }
+
+  /**
+   * 取消方案正在执行的语音生成
+   */
+  @Post('cancel')
+  @ApiOperation({
+    summary: '取消语音生成任务',
+    description:
+      '移除队列中尚未执行的任务，正在执行的任务完成前终止，未完成的任务标记为已取消',
+  })
+  @ApiResponseDto(CancelResultDto)
+  async cancel(@Body() body: CancelTtsTaskDto) {
+    this.logger.log(`取消 TTS 任务请求 [schemeId: ${body.schemeId}]`);
+
+    return this.ttsTaskService.cancelScheme(body.schemeId);
+  }
+
+  /**
+   * 注册或更新用户级回调
+   */
+  @Put('webhook')
+  @ApiOperation({
+    summary: '注册 TTS 完成回调',
+    description:
+      '为用户配置回调地址，该用户的方案 TTS 完成（成功或失败）后 POST 签名的 JSON。签名密钥只在首次注册或 rotateSecret 为 true 时生成并返回，请妥善保存',
+  })
+  @ApiResponseDto(WebhookDto)
+  async registerWebhook(@Body() body: RegisterWebhookDto) {
+    this.logger.log(`注册 TTS 回调请求 [userId: ${body.userId}]`);
+
+    return this.ttsWebhookService.registerWebhook(
+      body.userId,
+      body.callbackUrl,
+      body.enabled,
+      body.rotateSecret,
+    );
+  }
+
+  /**
+   * 查询用户级回调配置
+   */
+  @Get('webhook')
+  @ApiOperation({
+    summary: '查询 TTS 完成回调',
+    description: '查询用户的回调地址和启用状态，不返回签名密钥',
+  })
+  @ApiResponseDto(WebhookDto)
+  async getWebhook(@Query() query: GetWebhookQueryDto) {
+    return this.ttsWebhookService.getWebhook(Number(query.userId));
+  }
+
+  /**
+   * 查询方案的角色及已配置的语音
+   */
+  @Get('roles')
+  @ApiOperation({
+    summary: '查询方案角色',
+    description:
+      '从影片角色表中解析角色列表，并返回方案已配置的角色语音，用于多声音旁白配置',
+  })
+  @ApiResponseDto(SchemeRolesDto)
+  async getRoles(@Query() query: GetStatusQueryDto) {
+    return this.ttsTaskService.getSchemeRoles(Number(query.schemeId));
+  }
+
+  /**
+   * 查询方案的回调投递记录
+   */
+  @Get('webhook-deliveries')
+  @ApiOperation({
+    summary: '查询回调投递记录',
+    description: '查询方案的回调投递状态、投递次数以及最近一次的响应或错误',
+  })
+  @ApiResponseDto(WebhookDeliveryDto, true)
+  async getWebhookDeliveries(@Query() query: GetStatusQueryDto) {
+    return this.ttsWebhookService.getDeliveries(Number(query.schemeId));
+  }
+
+  /**
+   * 查询最近的任务巡检报告
+   */
+  @Get('reaper-reports')
+  @ApiOperation({
+    summary: '查询任务巡检报告',
+    description:
+      '返回最近的巡检记录：重新入队、标记失败的丢失任务，移除的孤儿队列任务以及重新计算状态的方案',
+  })
+  @ApiResponseDto(ReaperReportDto, true)
+  async getReaperReports() {
+    return this.ttsReaperService.getReports();
+  }
+
+  /**
+   * 立即执行一次任务巡检
+   */
+  @Post('reaper/run')
+  @ApiOperation({
+    summary: '立即执行任务巡检',
+    description: '手动触发一次巡检，其他实例正在巡检时返回 null',
+  })
+  @ApiResponseDto(ReaperReportDto)
+  async runReaper() {
+    this.logger.log('手动触发 TTS 任务巡检');
+    return this.ttsReaperService.reconcile();
+  }
+
+  /**
+   * 查询各 TTS 提供商的限流预算使用情况
+   */
+  @Get('provider-budget')
+  @ApiOperation({
+    summary: '查询提供商限流预算',
+    description:
+      '返回各提供商当前窗口的 RPM 使用量、正在执行的并发数以及 429 冷却剩余时间',
+  })
+  @ApiResponseDto(ProviderBudgetDto, true)
+  async getProviderBudget() {
+    return this.ttsRateLimitService.getBudgets();
+  }
+
+  /**
+   * 查询方案在队列中的位置和预计完成时间
+   */
+  @Get('queue-position')
+  @ApiOperation({
+    summary: '查询方案排队位置',
+    description:
+      '返回方案在队列中最靠前任务的位置、排在前面的任务数，并按最近任务的平均耗时估算开始和完成时间',
+  })
+  @ApiResponseDto(QueuePositionDto)
+  async getQueuePosition(@Query() query: GetStatusQueryDto) {
+    return this.ttsSchedulerService.getQueuePosition(Number(query.schemeId));
+  }
+
   /**
    * 重试指定的失败任务
    * 将失败的任务重新加入处理队列，支持自定义语音配置
@@ -153,4 +558,40 @@ export class TtsTaskController {
     );
     return result;
   }
+
+  /**
+   * 转换为创建任务的方案项
+   */
+  private toSchemeItems(body: CreateTtsTaskDto): TtsSchemeItemInput[] {
+    return body.actualScheme.map((item) => ({
+      translation: item.translation,
+      styles: {
+        begin: this.toVoiceStyle(item.styles?.begin),
+        middle: this.toVoiceStyle(item.styles?.middle),
+        end: this.toVoiceStyle(item.styles?.end),
+      },
+    }));
+  }
+
+  /**
+   * 转换为创建任务的合成参数：语言代码和方案默认的朗读风格
+   */
+  private toSynthesisOptions(body: CreateTtsTaskDto): TtsSynthesisOptions {
+    return { languageCode: body.languageCode, ...this.toVoiceStyle(body) };
+  }
+
+  /**
+   * 转换为任务的朗读风格，只保留请求中传入的字段
+   */
+  private toVoiceStyle(style?: VoiceStyleDto): TtsVoiceStyle {
+    const voiceStyle: TtsVoiceStyle = {
+      speed: style?.speakingRate,
+      pitch: style?.pitch,
+      volume: style?.volume,
+      emotion: style?.emotion,
+    };
+    return Object.fromEntries(
+      Object.entries(voiceStyle).filter(([, value]) => value !== undefined),
+    );
+  }
 }
@@ -22,7 +22,25 @@ import { BullModule } from '@nestjs/bullmq';
 import { TtsTaskService } from './tts.service';
 import { TtsTaskController } from './tts.controller';
 import { TtsTaskProcessor } from './tts.processor';
+import { TtsAudioService } from './tts-audio.service';
+import { TtsSubtitleService } from './tts-subtitle.service';
+import { TtsRateLimitService } from './tts-rate-limit.service';
+import { TtsAudioCacheService } from './tts-audio-cache.service';
+import { TtsEventsService } from './tts-events.service';
+import { TtsWebhookService } from './tts-webhook.service';
+import { TtsWebhookProcessor } from './tts-webhook.processor';
+import { TtsSchemeStateService } from './tts-scheme-state.service';
+import { TtsReaperService } from './tts-reaper.service';
+import { TtsHistoryService } from './tts-history.service';
+import { TtsPostProcessService } from './tts-post-process.service';
+import { TtsQualityService } from './tts-quality.service';
+import { TtsBillingService } from './tts-billing.service';
+import { TtsSchedulerService } from './tts-scheduler.service';
+import { TtsSchemeContentService } from './tts-scheme-content.service';
+import { TtsSchemeLockService } from './tts-scheme-lock.service';
+import { env } from '../../config/config';
 import { ChatModule } from '../chat/chat.module';
+import { FilmLibraryModule } from '../film-library/film-library.module';
 import { PrismaService } from '../../prisma/prisma.service';
 
 @Module({
@@ -37,9 +55,41 @@ import { PrismaService } from '../../prisma/prisma.service';
         },
       },
     }),
+    BullModule.registerQueue({
+      name: 'ttsWebhookQueue',
+      defaultJobOptions: {
+        attempts: env.TTS_WEBHOOK_MAX_ATTEMPTS,
+        backoff: {
+          type: 'exponential',
+          delay: 30000, // 初始延迟 30秒
+        },
+        removeOnComplete: true,
+      },
+    }),
     ChatModule,
+    FilmLibraryModule,
   ],
   controllers: [TtsTaskController],
-  providers: [TtsTaskService, TtsTaskProcessor, PrismaService],
+  providers: [
+    TtsTaskService,
+    TtsTaskProcessor,
+    TtsAudioService,
+    TtsSubtitleService,
+    TtsRateLimitService,
+    TtsAudioCacheService,
+    TtsEventsService,
+    TtsWebhookService,
+    TtsWebhookProcessor,
+    TtsSchemeStateService,
+    TtsReaperService,
+    TtsHistoryService,
+    TtsPostProcessService,
+    TtsQualityService,
+    TtsBillingService,
+    TtsSchedulerService,
+    TtsSchemeContentService,
+    TtsSchemeLockService,
+    PrismaService,
+  ],
 })
 export class TtsModule {}
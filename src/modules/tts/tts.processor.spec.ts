@@ -0,0 +1,92 @@
+import { ConflictException } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ChatService } from '../chat/chat.service';
+import { FilmLexiconService } from '../film-library/film-lexicon.service';
+import { TtsTaskProcessor } from './tts.processor';
+import { TtsTaskService } from './tts.service';
+import { TtsRateLimitService } from './tts-rate-limit.service';
+import { TtsAudioCacheService } from './tts-audio-cache.service';
+import { TtsEventsService } from './tts-events.service';
+import { TtsSchemeStateService } from './tts-scheme-state.service';
+import { TtsPostProcessService } from './tts-post-process.service';
+import { TtsSchedulerService } from './tts-scheduler.service';
+import { TtsSchemeContentService } from './tts-scheme-content.service';
+import { TtsQualityService } from './tts-quality.service';
+import { TaskStatus } from './tts.constants';
+import { TtsJobData } from './types';
+
+jest.mock('../../config/config', () => ({ env: {} }));
+
+describe('TtsTaskProcessor worker events', () => {
+  const prisma = {
+    sys_tts_task: { findUnique: jest.fn(), update: jest.fn() },
+  };
+  const ttsTaskService = { enqueueFallback: jest.fn() };
+  const ttsEventsService = { publish: jest.fn() };
+  const ttsSchemeStateService = { checkSchemeTasks: jest.fn() };
+  const ttsSchedulerService = { recordDuration: jest.fn() };
+
+  const processor = new TtsTaskProcessor(
+    prisma as unknown as PrismaService,
+    {} as ChatService,
+    ttsTaskService as unknown as TtsTaskService,
+    {} as TtsRateLimitService,
+    {} as TtsAudioCacheService,
+    ttsEventsService as unknown as TtsEventsService,
+    ttsSchemeStateService as unknown as TtsSchemeStateService,
+    {} as FilmLexiconService,
+    {} as TtsPostProcessService,
+    ttsSchedulerService as unknown as TtsSchedulerService,
+    {} as TtsSchemeContentService,
+    {} as TtsQualityService,
+  );
+
+  const job = {
+    id: 'job-1',
+    finishedOn: Date.now(),
+    attemptsMade: 3,
+    data: {
+      taskId: '11',
+      schemeId: 1,
+      schemeIndex: 0,
+      segmentKey: 'begin',
+      provider: 'gemini',
+    },
+  } as unknown as Job<TtsJobData>;
+
+  beforeEach(() => jest.resetAllMocks());
+
+  it('does not reject when summarizing the scheme fails after completion', async () => {
+    ttsSchemeStateService.checkSchemeTasks.mockRejectedValue(
+      new ConflictException('方案 1 正在被其他操作修改'),
+    );
+
+    await expect(processor.onCompleted(job)).resolves.toBeUndefined();
+    expect(ttsSchemeStateService.checkSchemeTasks).toHaveBeenCalledWith(1n);
+  });
+
+  it('marks the task failed once every provider is exhausted', async () => {
+    prisma.sys_tts_task.findUnique.mockResolvedValue({
+      status: TaskStatus.PENDING,
+    });
+    ttsTaskService.enqueueFallback.mockResolvedValue(null);
+
+    await processor.onFailed(job, new Error('quota'));
+
+    expect(prisma.sys_tts_task.update).toHaveBeenCalledWith({
+      where: { id: 11 },
+      data: { status: TaskStatus.FAILED, error_log: '最终失败: quota' },
+    });
+    expect(ttsSchemeStateService.checkSchemeTasks).toHaveBeenCalledWith(1n);
+  });
+
+  it('does not reject when the database write fails', async () => {
+    prisma.sys_tts_task.findUnique.mockRejectedValue(new Error('db down'));
+
+    await expect(
+      processor.onFailed(job, new Error('quota')),
+    ).resolves.toBeUndefined();
+    expect(ttsSchemeStateService.checkSchemeTasks).not.toHaveBeenCalled();
+  });
+});
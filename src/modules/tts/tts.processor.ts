@@ -1,31 +1,42 @@
 import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
-import { Job } from 'bullmq';
+import { DelayedError, Job, UnrecoverableError } from 'bullmq';
 import { Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { ChatService } from '../chat/chat.service';
 import { TtsTaskService } from './tts.service';
-import { TtsJobData } from './types';
+import { TtsJobData, TtsProgressEvent } from './types';
+import { QaStatus, TaskStatus } from './tts.constants';
 import { v4 as uuid } from 'uuid';
+import { TtsRateLimitService } from './tts-rate-limit.service';
+import { TtsAudioCacheService } from './tts-audio-cache.service';
+import { TtsEventsService } from './tts-events.service';
+import { TtsSchemeStateService } from './tts-scheme-state.service';
+import { ProviderRateLimitError } from '../chat/errors/provider-rate-limit.error';
+import { env } from '../../config/config';
+import { FilmLexiconService } from '../film-library/film-lexicon.service';
+import { TtsPostProcessService } from './tts-post-process.service';
+import { TtsSchedulerService } from './tts-scheduler.service';
+import { TtsSchemeContentService } from './tts-scheme-content.service';
+import { QaResult, TtsQualityService } from './tts-quality.service';
+import { LexiconEntry, matchLexicon } from '../../utils/pronunciationLexicon';
+import { parseSpeakerSpans } from '../../utils/speakerSpans';
+import {
+  AudioFormat,
+  encodeAudio,
+  toAudioFormat,
+} from '../../utils/encodeAudio';
+import { VoicedSpan } from '../chat/types';
 
-/** 任务状态常量 */
-enum TaskStatus {
-  PENDING = 0, // 待处理/失败但可重试
-  SUCCESS = 1, // 成功
-  FAILED = 2, // 最终失败
-}
-
-/** 方案状态常量 */
-enum SchemeState {
-  PROCESSING = 1, // 处理中
-  SUCCESS = 2, // 成功（有成功任务）
-  FAILED = 3, // 失败（全部失败）
+/** 方案级的合成设置 */
+interface SchemeSynthesisSettings {
+  lexicon: LexiconEntry[]; // 文本中出现的发音词条
+  roleVoices: Record<string, string>; // 文本中出现的角色语音
+  outputFormat: AudioFormat; // 输出音频格式
 }
 
+// 限流按提供商在 TtsRateLimitService 中控制，这里只限制 Worker 总并发
 @Processor('ttsQueue', {
-  limiter: {
-    max: 10, // 每分钟最多处理10个任务（RPM限制）
-    duration: 60000, // 1分钟时间窗口
-  },
+  concurrency: env.TTS_WORKER_CONCURRENCY,
 })
 export class TtsTaskProcessor extends WorkerHost {
   private readonly logger = new Logger(TtsTaskProcessor.name);
@@ -34,6 +45,15 @@ export class TtsTaskProcessor extends WorkerHost {
     private prisma: PrismaService,
     private chatService: ChatService,
     private ttsTaskService: TtsTaskService,
+    private ttsRateLimitService: TtsRateLimitService,
+    private ttsAudioCacheService: TtsAudioCacheService,
+    private ttsEventsService: TtsEventsService,
+    private ttsSchemeStateService: TtsSchemeStateService,
+    private filmLexiconService: FilmLexiconService,
+    private ttsPostProcessService: TtsPostProcessService,
+    private ttsSchedulerService: TtsSchedulerService,
+    private ttsSchemeContentService: TtsSchemeContentService,
+    private ttsQualityService: TtsQualityService,
   ) {
     super();
   }
@@ -41,9 +61,10 @@ export class TtsTaskProcessor extends WorkerHost {
   /**
    * 处理 TTS 任务队列中的任务
    * @param job BullMQ 任务对象，包含 TTS 任务所需的所有参数
+   * @param token Worker 锁令牌，延迟任务时使用
    * @returns 处理结果，包含成功状态和音频 URL
    */
-  async process(job: Job<TtsJobData>) {
+  async process(job: Job<TtsJobData>, token?: string) {
     const {
       taskId,
       text,
@@ -52,14 +73,20 @@ export class TtsTaskProcessor extends WorkerHost {
       segmentKey,
       voiceName,
       provider,
+      speed,
+      languageCode,
+      pitch,
+      volume,
+      emotion,
     } = job.data;
 
     this.logger.log(
       `开始处理 TTS 任务 [ID: ${taskId}] - 语音: ${voiceName}, 提供商: ${provider}`,
     );
+    await this.ttsSchedulerService.markStarted(job);
 
     try {
-      // 1. 验证任务存在性
+      // 1. 验证任务存在性，已取消的任务不再处理
       const existingTask = await this.prisma.sys_tts_task.findUnique({
         where: { id: Number(taskId) },
         select: { id: true },
@@ -67,34 +94,98 @@ export class TtsTaskProcessor extends WorkerHost {
       if (!existingTask) {
         throw new Error(`任务 ID ${taskId} 不存在`);
       }
+      await this.assertNotCancelled(taskId);
 
-      // 2. 更新任务配置信息（语音名称和 TTS 模型）
+      // 2. 更新任务配置信息（语音名称、TTS 模型和合成参数）
       await this.prisma.sys_tts_task.update({
         where: { id: Number(taskId) },
-        data: { voice_name: voiceName, tts_model: provider },
+        data: {
+          voice_name: voiceName,
+          tts_model: provider,
+          speed: speed ?? null,
+          language: languageCode ?? null,
+          pitch: pitch ?? null,
+          volume: volume ?? null,
+          emotion: emotion ?? null,
+        },
       });
 
-      // 3. 调用文本转语音服务生成语音文件
-      const audioUrl = await this.chatService.generateVoiceFromText(
-        text,
-        voiceName,
-        `${uuid()}.wav`,
+      // 3. 优先复用缓存的音频，未命中时调用提供商合成；发音词典、角色语音和输出格式参与缓存键
+      const settings = await this.loadSchemeSettings(schemeId, text, provider);
+      const { lexicon, roleVoices, outputFormat } = settings;
+      const cacheParams = {
         provider,
-      );
+        voiceName,
+        text,
+        speed,
+        languageCode,
+        pitch,
+        volume,
+        emotion,
+        lexicon,
+        roleVoices,
+        postProcess: this.ttsPostProcessService.getSignature(),
+        format: outputFormat,
+      };
+      const cacheKey = this.ttsAudioCacheService.buildKey(cacheParams);
+      const cached = await this.ttsAudioCacheService.find(cacheKey);
 
-      // 4. 更新任务状态为成功
-      await this.prisma.sys_tts_task.update({
-        where: { id: Number(taskId) },
+      let audioUrl: string;
+      let masterUrl: string | null;
+      let durationMs: number | null;
+      let gainDb: number | null;
+      let qa: QaResult | null = null;
+      if (cached) {
+        audioUrl = cached.audio_url;
+        masterUrl = cached.master_url;
+        durationMs = cached.duration_ms;
+        gainDb = cached.gain_db;
+        this.logger.log(`TTS 任务 [ID: ${taskId}] 命中音频缓存`);
+      } else {
+        ({ audioUrl, masterUrl, durationMs, gainDb, qa } =
+          await this.synthesizeAndUpload(job, settings, token));
+        // 可疑的音频不写入缓存，重新生成时重新合成
+        if (qa?.status !== QaStatus.SUSPICIOUS) {
+          await this.ttsAudioCacheService.save(cacheKey, cacheParams, {
+            audioUrl,
+            masterUrl,
+            durationMs,
+            gainDb,
+          });
+        }
+      }
+
+      // 4. 更新任务状态为成功，合成期间方案可能已被取消，取消后不再回写结果
+      // 合成签名按降级前请求的提供商和语音计算，重新创建任务时据此判断能否沿用音频
+      const synthesisKey = this.ttsTaskService.buildSynthesisKey(
+        job.data.requested ?? { provider, voiceName, languageCode },
+        text,
+        { speed, pitch, volume, emotion },
+        lexicon,
+      );
+      const { count: updated } = await this.prisma.sys_tts_task.updateMany({
+        where: { id: Number(taskId), status: { not: TaskStatus.CANCELLED } },
         data: {
           status: TaskStatus.SUCCESS,
+          synthesis_key: synthesisKey,
           audio_url: audioUrl,
+          master_audio_url: masterUrl,
+          duration_ms: durationMs,
+          gain_db: gainDb,
+          cache_hit: Boolean(cached),
+          qa_status: qa?.status ?? null,
+          qa_reason: qa?.reason ?? null,
           retry_count: 0, // 成功时重置重试次数
           error_log: null, // 清空错误日志
+          update_time: new Date(),
         },
       });
+      if (!updated) {
+        throw new UnrecoverableError(`任务 ID ${taskId} 已取消`);
+      }
 
       // 5. 更新方案中的音频信息
-      await this.ttsTaskService.updateSegmentAudio(
+      await this.ttsSchemeContentService.setSegmentAudio(
         BigInt(schemeId),
         schemeIndex,
         segmentKey,
@@ -102,10 +193,28 @@ export class TtsTaskProcessor extends WorkerHost {
       );
 
       this.logger.log(
-        `TTS 任务 [ID: ${taskId}] 处理成功，音频 URL: ${audioUrl}`,
+        `TTS 任务 [ID: ${taskId}] 处理成功，时长: ${durationMs}ms，音频 URL: ${audioUrl}`,
       );
-      return { success: true, audioUrl };
+      return { success: true, audioUrl, durationMs };
     } catch (error: any) {
+      // 延迟或已取消的任务直接交给 BullMQ，不计入重试次数
+      if (
+        error instanceof DelayedError ||
+        error instanceof UnrecoverableError
+      ) {
+        throw error;
+      }
+
+      // 提供商限流：进入冷却期并延迟任务，不计入重试次数
+      if (error instanceof ProviderRateLimitError) {
+        const cooldownMs = await this.ttsRateLimitService.cooldown(
+          provider,
+          error.retryAfterMs,
+        );
+        await job.moveToDelayed(Date.now() + cooldownMs, token);
+        throw new DelayedError();
+      }
+
       const errorMessage = error?.message || String(error);
       this.logger.error(`TTS 任务 [ID: ${taskId}] 处理失败: ${errorMessage}`);
 
@@ -117,86 +226,315 @@ export class TtsTaskProcessor extends WorkerHost {
 
       const newRetryCount = (currentTask?.retry_count || 0) + 1;
 
-      await this.prisma.sys_tts_task.update({
-        where: { id: Number(taskId) },
+      // 执行期间任务可能已被取消，保持取消状态并终止重试
+      const { count } = await this.prisma.sys_tts_task.updateMany({
+        where: { id: Number(taskId), status: { not: TaskStatus.CANCELLED } },
         data: {
           status: TaskStatus.PENDING, // 失败但可重试状态
           retry_count: newRetryCount,
           error_log: `第 ${newRetryCount} 次失败: ${errorMessage}`,
         },
       });
+      if (!count) {
+        throw new UnrecoverableError(`任务 ID ${taskId} 已取消`);
+      }
 
       throw error; // 重新抛出错误，让 BullMQ 处理重试逻辑
+    } finally {
+      await this.ttsRateLimitService.release(provider, job.id!);
     }
   }
 
   /**
-   * 检查方案下的所有任务是否已完成，并更新方案状态
+   * 检查任务是否已被取消，已取消时抛出不可重试错误终止任务
+   * @param taskId 任务 ID
+   */
+  private async assertNotCancelled(taskId: string): Promise<void> {
+    const task = await this.prisma.sys_tts_task.findUnique({
+      where: { id: Number(taskId) },
+      select: { status: true },
+    });
+    if (task?.status === TaskStatus.CANCELLED) {
+      throw new UnrecoverableError(`任务 ID ${taskId} 已取消`);
+    }
+  }
+
+  /**
+   * 加载方案级的合成设置，发音词典和角色语音只保留文本中出现的部分
    * @param schemeId 方案 ID
+   * @param text 要合成的文本
+   * @param provider 当前使用的提供商
    */
-  private async checkSchemeTasks(schemeId: bigint): Promise<void> {
-    // 统计待处理的任务数量
-    const unfinishedCount = await this.prisma.sys_tts_task.count({
-      where: { scheme_id: schemeId, status: TaskStatus.PENDING },
+  private async loadSchemeSettings(
+    schemeId: number,
+    text: string,
+    provider: string,
+  ): Promise<SchemeSynthesisSettings> {
+    const scheme = await this.prisma.sys_generate_scheme_manage.findUnique({
+      where: { id: schemeId },
+      select: { film_id: true, tts_role_voices: true, tts_output_format: true },
     });
 
-    this.logger.log(`方案 [ID: ${schemeId}] 待完成任务数: ${unfinishedCount}`);
+    const lexicon = scheme?.film_id
+      ? matchLexicon(
+          text,
+          await this.filmLexiconService.getEntries(scheme.film_id),
+        )
+      : [];
 
-    // 如果还有待处理的任务，直接返回
-    if (unfinishedCount > 0) return;
+    const allRoleVoices = this.ttsTaskService.getRoleVoices(
+      scheme?.tts_role_voices,
+      provider,
+    );
+    const speakers = new Set(
+      parseSpeakerSpans(text, Object.keys(allRoleVoices)).map(
+        (span) => span.speaker,
+      ),
+    );
+    const roleVoices = Object.fromEntries(
+      Object.entries(allRoleVoices).filter(([role]) => speakers.has(role)),
+    );
 
-    // 统计最终失败和成功的任务数量
-    const failedCount = await this.prisma.sys_tts_task.count({
-      where: { scheme_id: schemeId, status: TaskStatus.FAILED },
-    });
+    return {
+      lexicon,
+      roleVoices,
+      outputFormat: toAudioFormat(scheme?.tts_output_format),
+    };
+  }
 
-    const successCount = await this.prisma.sys_tts_task.count({
-      where: { scheme_id: schemeId, status: TaskStatus.SUCCESS },
-    });
+  /**
+   * 按说话人切分文本，角色片段使用角色语音，其余使用任务语音
+   * @param data 任务数据
+   * @param roleVoices 文本中出现的角色语音
+   * @returns 多声音片段，文本中没有角色时返回 null
+   */
+  private buildVoicedSpans(
+    data: TtsJobData,
+    roleVoices: Record<string, string>,
+  ): VoicedSpan[] | null {
+    if (!Object.keys(roleVoices).length) return null;
 
-    const totalCompletedTasks = failedCount + successCount;
+    return parseSpeakerSpans(data.text, Object.keys(roleVoices)).map((span) =>
+      span.speaker
+        ? { voiceName: roleVoices[span.speaker], text: span.text }
+        : {
+            voiceName: data.voiceName,
+            text: span.text,
+            languageCode: data.languageCode,
+          },
+    );
+  }
 
-    // 如果没有已完成的任务，跳过状态更新
-    if (totalCompletedTasks === 0) {
-      this.logger.warn(`方案 [ID: ${schemeId}] 没有已完成的任务，跳过状态更新`);
-      return;
-    }
+  /**
+   * 在提供商预算内合成语音，后处理并质检后上传 WAV 母版和输出格式的音频
+   * 开启质检重试时，未通过质检的音频在还有重试次数时抛出错误交给 BullMQ 重试
+   * @param job BullMQ 任务对象
+   * @param settings 方案级的合成设置
+   * @param token Worker 锁令牌
+   * @returns 音频 URL、母版 URL、时长、归一化增益与质检结果
+   */
+  private async synthesizeAndUpload(
+    job: Job<TtsJobData>,
+    settings: SchemeSynthesisSettings,
+    token?: string,
+  ): Promise<{
+    audioUrl: string;
+    masterUrl: string;
+    durationMs: number;
+    gainDb: number | null;
+    qa: QaResult | null;
+  }> {
+    const {
+      text,
+      voiceName,
+      provider,
+      speed,
+      languageCode,
+      pitch,
+      volume,
+      emotion,
+    } = job.data;
+    const { lexicon, roleVoices, outputFormat } = settings;
+    const spans = this.buildVoicedSpans(job.data, roleVoices);
 
-    // 确定方案最终状态
-    // 注：根据业务逻辑，只要有任何失败任务，整个方案状态就是失败
-    const finalState =
-      failedCount > 0 ? SchemeState.FAILED : SchemeState.SUCCESS;
+    // 长文本分块、多声音逐段合成时每块计一次请求；提供商预算不足时延迟任务，不计入重试次数
+    const requestCount = (spans?.map((span) => span.text) ?? [text]).reduce(
+      (sum, spanText) =>
+        sum +
+        this.chatService.splitTextForProvider(spanText, provider, lexicon)
+          .length,
+      0,
+    );
+    const waitMs = await this.ttsRateLimitService.acquire(
+      provider,
+      job.id!,
+      requestCount,
+    );
+    if (waitMs > 0) {
+      await job.moveToDelayed(Date.now() + waitMs, token);
+      throw new DelayedError();
+    }
 
-    // 更新方案状态
-    await this.prisma.sys_generate_scheme_manage.update({
-      where: { id: Number(schemeId) },
-      data: { tts_task_state: finalState },
+    await this.ttsEventsService.publish({
+      type: 'started',
+      schemeId: Number(job.data.schemeId),
+      taskId: job.data.taskId,
+      schemeIndex: job.data.schemeIndex,
+      segmentKey: job.data.segmentKey,
+      provider,
     });
 
-    const statusDescription =
-      finalState === SchemeState.SUCCESS ? '成功' : '失败';
+    const audioBuffer = spans
+      ? await this.chatService.synthesizeMultiVoice(spans, provider, {
+          speed,
+          pitch,
+          volume,
+          emotion,
+          lexicon,
+        })
+      : await this.chatService.synthesizeVoice(text, voiceName, provider, {
+          speed,
+          languageCode,
+          pitch,
+          volume,
+          emotion,
+          lexicon,
+        });
+    // 统一采样率、裁剪静音并归一化响度后再上传
+    const { buffer, durationMs, gainDb } =
+      await this.ttsPostProcessService.process(audioBuffer);
 
-    this.logger.log(
-      `方案 [ID: ${schemeId}] 所有任务已完成 - 最终状态: ${statusDescription} (成功: ${successCount}, 失败: ${failedCount})`,
+    const qa = this.ttsQualityService.check(audioBuffer, durationMs, text, {
+      speed,
+      languageCode,
+    });
+    const attemptsLeft = job.attemptsMade + 1 < (job.opts.attempts ?? 1);
+    if (
+      qa?.status === QaStatus.SUSPICIOUS &&
+      env.TTS_QA_RETRY &&
+      attemptsLeft
+    ) {
+      throw new Error(`音频质检未通过: ${qa.reason}`);
+    }
+
+    const fileName = uuid();
+    const masterUrl = await this.chatService.uploadBufferToOss(
+      buffer,
+      `${fileName}.wav`,
     );
+    const audioUrl =
+      outputFormat === 'wav'
+        ? masterUrl
+        : await this.chatService.uploadBufferToOss(
+            await encodeAudio(buffer, outputFormat),
+            fileName,
+            outputFormat,
+          );
+    return { audioUrl, masterUrl, durationMs, gainDb, qa };
   }
 
   /**
    * 任务完成事件处理
    * 当任务成功完成时触发，检查是否需要更新方案状态
+   * Worker 事件的返回值无人等待，异常在这里记录，避免成为未处理的 Promise 拒绝
    */
   @OnWorkerEvent('completed')
-  async onCompleted(job: Job): Promise<void> {
+  async onCompleted(job: Job<TtsJobData>): Promise<void> {
+    try {
+      await this.handleCompleted(job);
+    } catch (error) {
+      this.logger.error(`TTS 任务 [ID: ${job.id}] 完成处理失败`, error);
+    }
+  }
+
+  private async handleCompleted(job: Job<TtsJobData>): Promise<void> {
     this.logger.log(`TTS 任务 [ID: ${job.id}] 已成功完成`);
-    await this.checkSchemeTasks(BigInt(job.data.schemeId));
+    await this.ttsSchedulerService.recordDuration(job);
+    await this.publishTaskEvent(job, {
+      type: 'succeeded',
+      audioUrl: (job.returnvalue as { audioUrl?: string } | undefined)
+        ?.audioUrl,
+    });
+    await this.ttsSchemeStateService.checkSchemeTasks(
+      BigInt(job.data.schemeId),
+    );
+  }
+
+  /**
+   * 发布片段级进度事件
+   */
+  private publishTaskEvent(
+    job: Job<TtsJobData>,
+    event: Pick<TtsProgressEvent, 'type' | 'audioUrl' | 'error' | 'willRetry'>,
+  ): Promise<void> {
+    return this.ttsEventsService.publish({
+      ...event,
+      schemeId: Number(job.data.schemeId),
+      taskId: job.data.taskId,
+      schemeIndex: job.data.schemeIndex,
+      segmentKey: job.data.segmentKey,
+      provider: job.data.provider,
+    });
   }
 
   /**
    * 任务失败事件处理
-   * 当任务最终失败（所有重试都用尽）时触发
+   * 每次尝试失败都会触发，只处理所有重试都用尽的最终失败
+   * 当前提供商重试耗尽时按降级顺序切换提供商，全部失败才标记为最终失败
+   * 异常同样只记录日志，不抛出到 Worker 事件
    */
   @OnWorkerEvent('failed')
-  async onFailed(job: Job, err: Error): Promise<void> {
+  async onFailed(job: Job<TtsJobData>, err: Error): Promise<void> {
+    try {
+      await this.handleFailed(job, err);
+    } catch (error) {
+      this.logger.error(`TTS 任务 [ID: ${job.id}] 失败处理失败`, error);
+    }
+  }
+
+  private async handleFailed(job: Job<TtsJobData>, err: Error): Promise<void> {
+    // 未设置 finishedOn 说明 BullMQ 还会继续重试
+    if (!job.finishedOn) {
+      this.logger.warn(
+        `TTS 任务 [ID: ${job.id}] 第 ${job.attemptsMade} 次尝试失败，等待重试: ${err.message}`,
+      );
+      await this.publishTaskEvent(job, {
+        type: 'failed',
+        error: err.message,
+        willRetry: true,
+      });
+      return;
+    }
+
+    // 已取消的任务保持取消状态，不再降级或标记失败
+    const task = await this.prisma.sys_tts_task.findUnique({
+      where: { id: Number(job.data.taskId) },
+      select: { status: true },
+    });
+    if (task?.status === TaskStatus.CANCELLED) {
+      this.logger.log(`TTS 任务 [ID: ${job.id}] 已取消`);
+      return;
+    }
+
+    // 切换到下一个提供商重新生成
+    const fallbackProvider = await this.ttsTaskService.enqueueFallback(
+      job.data,
+    );
+    if (fallbackProvider) {
+      await this.prisma.sys_tts_task.update({
+        where: { id: Number(job.data.taskId) },
+        data: {
+          error_log: `${job.data.provider} 重试耗尽，已切换到 ${fallbackProvider}: ${err.message}`,
+        },
+      });
+      await this.publishTaskEvent(job, {
+        type: 'failed',
+        error: err.message,
+        willRetry: true,
+      });
+      return;
+    }
+
     this.logger.error(`TTS 任务 [ID: ${job.id}] 最终失败: ${err.message}`);
 
     // 将任务标记为最终失败状态
@@ -207,8 +545,15 @@ export class TtsTaskProcessor extends WorkerHost {
         error_log: `最终失败: ${err.message}`,
       },
     });
+    await this.publishTaskEvent(job, {
+      type: 'failed',
+      error: err.message,
+      willRetry: false,
+    });
 
     // 检查并更新方案状态
-    await this.checkSchemeTasks(BigInt(job.data.schemeId));
+    await this.ttsSchemeStateService.checkSchemeTasks(
+      BigInt(job.data.schemeId),
+    );
   }
 }
@@ -0,0 +1,293 @@
+import { BadRequestException } from '@nestjs/common';
+import { Queue } from 'bullmq';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ChatService } from '../chat/chat.service';
+import { TtsTaskService } from './tts.service';
+import { TtsAudioService } from './tts-audio.service';
+import { TtsEventsService } from './tts-events.service';
+import { TtsSchedulerService } from './tts-scheduler.service';
+import { TtsSchemeContentService } from './tts-scheme-content.service';
+import { TtsSchemeLockService } from './tts-scheme-lock.service';
+import { TtsBillingService } from './tts-billing.service';
+import { FilmLexiconService } from '../film-library/film-lexicon.service';
+import { SchemeState, TaskStatus } from './tts.constants';
+import { TtsJobData } from './types';
+
+jest.mock('../../config/config', () => ({
+  env: { TTS_SEGMENT_SILENCE_MS: 0 },
+}));
+
+describe('TtsTaskService', () => {
+  const prisma = {
+    sys_generate_scheme_manage: { findUnique: jest.fn() },
+    sys_tts_task: {
+      count: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+  };
+  const ttsQueue = { getJobs: jest.fn(), add: jest.fn() };
+  const ttsEventsService = { publish: jest.fn() };
+  const ttsSchemeLockService = {
+    withLock: jest.fn((_schemeId: number, fn: () => Promise<unknown>) => fn()),
+    transaction: jest.fn(
+      (_schemeId: number, fn: (tx: unknown) => Promise<unknown>) => fn(prisma),
+    ),
+    updateScheme: jest.fn(),
+  };
+  const ttsSchedulerService = { assignPriority: jest.fn() };
+  const ttsBillingService = {
+    settleScheme: jest.fn(),
+    estimate: jest.fn((texts: string[]) => ({ points: texts.length * 10 })),
+    estimateAll: jest.fn(() => []),
+    getSchemeBalance: jest.fn(),
+    holdPoints: jest.fn(),
+  };
+  const filmLexiconService = { getEntries: jest.fn() };
+
+  const service = new TtsTaskService(
+    prisma as unknown as PrismaService,
+    ttsQueue as unknown as Queue<TtsJobData>,
+    {} as TtsAudioService,
+    {} as ChatService,
+    ttsEventsService as unknown as TtsEventsService,
+    ttsSchedulerService as unknown as TtsSchedulerService,
+    {} as TtsSchemeContentService,
+    ttsSchemeLockService as unknown as TtsSchemeLockService,
+    ttsBillingService as unknown as TtsBillingService,
+    filmLexiconService as unknown as FilmLexiconService,
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  describe('cancelScheme', () => {
+    it('cancels pending tasks, removes queued jobs and settles the scheme', async () => {
+      prisma.sys_tts_task.count.mockResolvedValue(3);
+      prisma.sys_tts_task.updateMany.mockResolvedValue({ count: 3 });
+      const queuedJob = { data: { schemeId: 1 }, remove: jest.fn() };
+      const otherJob = { data: { schemeId: 2 }, remove: jest.fn() };
+      ttsQueue.getJobs
+        .mockResolvedValueOnce([queuedJob, otherJob])
+        .mockResolvedValueOnce([{ data: { schemeId: 1 } }]);
+
+      await expect(service.cancelScheme(1)).resolves.toEqual({
+        schemeId: 1,
+        cancelledTasks: 3,
+        removedJobs: 1,
+        activeJobs: 1,
+      });
+
+      expect(prisma.sys_tts_task.updateMany).toHaveBeenCalledWith({
+        where: { scheme_id: 1, status: TaskStatus.PENDING },
+        data: expect.objectContaining({ status: TaskStatus.CANCELLED }),
+      });
+      expect(otherJob.remove).not.toHaveBeenCalled();
+      expect(ttsSchemeLockService.updateScheme).toHaveBeenCalledWith(1, {
+        tts_task_state: SchemeState.CANCELLED,
+      });
+      expect(ttsBillingService.settleScheme).toHaveBeenCalledWith(1);
+      expect(ttsEventsService.publish).toHaveBeenCalledWith({
+        type: 'finished',
+        schemeId: 1,
+        state: SchemeState.CANCELLED,
+      });
+    });
+
+    it('rejects schemes without running tasks', async () => {
+      prisma.sys_tts_task.count.mockResolvedValue(0);
+
+      await expect(service.cancelScheme(1)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prisma.sys_tts_task.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retryFailedTasks', () => {
+    it('refuses to retry cancelled schemes', async () => {
+      prisma.sys_generate_scheme_manage.findUnique.mockResolvedValue({
+        tts_task_state: SchemeState.CANCELLED,
+      });
+
+      await expect(
+        service.retryFailedTasks(
+          1,
+          [{ schemeIndex: 0, segmentKey: 'begin' }],
+          'Kore',
+          'gemini',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.sys_tts_task.upsert).not.toHaveBeenCalled();
+      expect(ttsSchemeLockService.updateScheme).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fitSchemeTiming', () => {
+    const overrun = {
+      schemeIndex: 0,
+      targetSeconds: 10,
+      actualSeconds: 12,
+      diffSeconds: 2,
+      status: 'overrun' as const,
+    };
+    const itemTasks = [
+      {
+        id: 1n,
+        scheme_index: 0,
+        segment_key: 'begin',
+        text_content: '第一句',
+        tts_model: 'minimax',
+        voice_name: 'female-shaonv',
+        speed: 1,
+      },
+      {
+        id: 2n,
+        scheme_index: 0,
+        segment_key: 'end',
+        text_content: '第二句',
+        tts_model: 'minimax',
+        voice_name: 'female-shaonv',
+        speed: 1,
+      },
+    ];
+
+    beforeEach(() => {
+      prisma.sys_tts_task.findFirst.mockResolvedValue(null);
+      prisma.sys_tts_task.findMany.mockResolvedValue(itemTasks);
+      jest.spyOn(service, 'getTimingReport').mockResolvedValue([overrun]);
+    });
+
+    it('holds points for the re-rendered segments before requeueing them', async () => {
+      await expect(service.fitSchemeTiming(1)).resolves.toEqual({
+        adjusted: [{ schemeIndex: 0, previousSpeed: 1, speed: 1.2 }],
+        skipped: [],
+      });
+
+      expect(ttsBillingService.estimate).toHaveBeenCalledWith(
+        ['第一句', '第二句'],
+        'minimax',
+      );
+      expect(ttsBillingService.holdPoints).toHaveBeenCalledWith(1, 20);
+      expect(prisma.sys_tts_task.update).toHaveBeenCalledTimes(2);
+      expect(ttsQueue.add).toHaveBeenCalledTimes(2);
+    });
+
+    it('adjusts nothing when the balance is insufficient', async () => {
+      ttsBillingService.holdPoints.mockRejectedValueOnce(
+        new BadRequestException('积分余额不足'),
+      );
+
+      await expect(service.fitSchemeTiming(1)).rejects.toThrow('积分余额不足');
+      expect(prisma.sys_tts_task.update).not.toHaveBeenCalled();
+      expect(ttsQueue.add).not.toHaveBeenCalled();
+      expect(ttsSchemeLockService.updateScheme).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('estimateTasks', () => {
+    const translation = { begin: '张三来了', middle: '第二句', end: '第三句' };
+    const lexicon = [{ term: '张三', respelling: 'zhang san' }];
+
+    function successTask(
+      segmentKey: 'begin' | 'middle' | 'end',
+      extra: Record<string, unknown> = {},
+    ) {
+      return {
+        scheme_index: 0,
+        segment_key: segmentKey,
+        status: TaskStatus.SUCCESS,
+        audio_url: `https://oss/${segmentKey}.wav`,
+        text_content: translation[segmentKey],
+        voice_name: 'Kore',
+        tts_model: 'gemini',
+        language: null,
+        speed: null,
+        pitch: null,
+        volume: null,
+        emotion: null,
+        synthesis_key: service.buildSynthesisKey(
+          { provider: 'gemini', voiceName: 'Kore' },
+          translation[segmentKey],
+          {},
+          segmentKey === 'begin' ? lexicon : [],
+        ),
+        ...extra,
+      };
+    }
+
+    function estimate() {
+      return service.estimateTasks(1, [{ translation }], 'Kore', 'gemini');
+    }
+
+    beforeEach(() => {
+      prisma.sys_generate_scheme_manage.findUnique.mockResolvedValue({
+        tts_role_voices: null,
+        tts_output_format: 'wav',
+        film_id: 3,
+      });
+      filmLexiconService.getEntries.mockResolvedValue(lexicon);
+    });
+
+    it('keeps segments synthesized with the same request and lexicon', async () => {
+      prisma.sys_tts_task.findMany.mockResolvedValue([
+        successTask('begin'),
+        successTask('middle'),
+        successTask('end'),
+      ]);
+
+      await expect(estimate()).resolves.toMatchObject({
+        keptSegments: 3,
+        regeneratedSegments: 0,
+      });
+    });
+
+    it('keeps segments that fell back to another provider', async () => {
+      prisma.sys_tts_task.findMany.mockResolvedValue([
+        successTask('begin', {
+          tts_model: 'minimax',
+          voice_name: 'female-shaonv',
+        }),
+        successTask('middle'),
+        successTask('end'),
+      ]);
+
+      await expect(estimate()).resolves.toMatchObject({ keptSegments: 3 });
+    });
+
+    it('regenerates segments whose pronunciation entries changed', async () => {
+      filmLexiconService.getEntries.mockResolvedValue([
+        { term: '张三', respelling: 'zhang sahn' },
+      ]);
+      prisma.sys_tts_task.findMany.mockResolvedValue([
+        successTask('begin'),
+        successTask('middle'),
+        successTask('end'),
+      ]);
+
+      await expect(estimate()).resolves.toMatchObject({
+        keptSegments: 2,
+        regeneratedSegments: 1,
+      });
+      expect(ttsBillingService.estimate).toHaveBeenCalledWith(
+        ['张三来了'],
+        'gemini',
+      );
+    });
+
+    it('keeps tasks without a synthesis key only when no pronunciation entry applies', async () => {
+      prisma.sys_tts_task.findMany.mockResolvedValue([
+        successTask('begin', { synthesis_key: null }),
+        successTask('middle', { synthesis_key: null }),
+        successTask('end', { synthesis_key: null }),
+      ]);
+
+      await expect(estimate()).resolves.toMatchObject({
+        keptSegments: 2,
+        regeneratedSegments: 1,
+      });
+    });
+  });
+});
@@ -6,24 +6,63 @@ import {
   NotFoundException,
 } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bullmq';
-import { Queue } from 'bullmq';
+import { JobsOptions, Queue } from 'bullmq';
+import { createHash } from 'crypto';
 import { PrismaService } from '../../prisma/prisma.service';
-import { DownloadContent, TtsJobData } from './types';
-import { sys_tts_task_segment_key } from '@prisma/client';
-
-/** 任务状态常量 */
-enum TaskStatus {
-  PENDING = 0, // 待处理
-  SUCCESS = 1, // 成功
-  FAILED = 2, // 失败
-  DEPRECATED = 3, // 废弃
-}
-
-/** 方案状态常量 */
-enum SchemeState {
-  PROCESSING = 1, // 处理中
-  SUCCESS = 2, // 成功
-  FAILED = 3, // 失败
+import {
+  SchemeRoleVoices,
+  SegmentAudio,
+  TtsJobData,
+  TtsRequestedVoice,
+  TtsSchemeItemInput,
+  TtsVoiceStyle,
+  TtsSynthesisOptions,
+  VideoScript,
+} from './types';
+import { Prisma, sys_tts_task, sys_tts_task_segment_key } from '@prisma/client';
+import { TtsAudioService } from './tts-audio.service';
+import { ChatService } from '../chat/chat.service';
+import { TtsEventsService } from './tts-events.service';
+import { TtsSchedulerService } from './tts-scheduler.service';
+import { TtsSchemeContentService } from './tts-scheme-content.service';
+import { TtsSchemeLockService } from './tts-scheme-lock.service';
+import { TtsBillingService } from './tts-billing.service';
+import { FilmLexiconService } from '../film-library/film-lexicon.service';
+import {
+  SchemeState,
+  SPEED_ADJUSTABLE_PROVIDERS,
+  TaskStatus,
+  DEFAULT_PROVIDER_VOICES,
+  QaStatus,
+  TtsJobPriority,
+  VOICE_MAPPING,
+} from './tts.constants';
+import { env } from '../../config/config';
+import {
+  FitTimingResultDto,
+  SchemeChargeDto,
+  TimingReportItemDto,
+} from './dto/get-status-overall-status.dto';
+import { CancelResultDto } from './dto/cancel-tts-task.dto';
+import { SchemeRolesDto } from './dto/scheme-roles.dto';
+import { TaskExecuteDto } from './dto/create-tts-task.dto';
+import { TtsEstimateDto } from './dto/estimate-tts-task.dto';
+import { parseRoleTable } from '../../utils/parseRoleTable';
+import { AudioFormat, toAudioFormat } from '../../utils/encodeAudio';
+import { assertPublicUrl } from '../../utils/assertPublicUrl';
+import { LexiconEntry, matchLexicon } from '../../utils/pronunciationLexicon';
+import { TtsEmotion } from '../chat/chat.constants';
+
+/** 方案项的片段 */
+const SEGMENT_KEYS: sys_tts_task_segment_key[] = ['begin', 'middle', 'end'];
+
+/** 创建任务时单个片段的处理计划 */
+interface SegmentPlan {
+  schemeIndex: number;
+  segmentKey: sys_tts_task_segment_key;
+  text: string;
+  options: TtsSynthesisOptions; // 方案默认值与片段覆盖合并后的合成参数
+  keptAudioUrl: string | null; // 沿用的原音频，需要重新合成时为 null
 }
 
 @Injectable()
@@ -33,112 +72,163 @@ export class TtsTaskService {
   constructor(
     private prisma: PrismaService,
     @InjectQueue('ttsQueue') private ttsQueue: Queue<TtsJobData>,
+    private ttsAudioService: TtsAudioService,
+    private chatService: ChatService,
+    private ttsEventsService: TtsEventsService,
+    private ttsSchedulerService: TtsSchedulerService,
+    private ttsSchemeContentService: TtsSchemeContentService,
+    private ttsSchemeLockService: TtsSchemeLockService,
+    private ttsBillingService: TtsBillingService,
+    private filmLexiconService: FilmLexiconService,
   ) {}
 
-  /**
-   * 方案锁机制：用 Map 保存每个 schemeId 的 Promise 链，保证同一方案的串行执行
-   * 防止并发操作导致数据不一致问题
-   */
-  private schemeLocks = new Map<number, Promise<void>>();
-
-  /**
-   * 执行带锁的操作，确保同一方案的串行执行
-   * @param schemeId 方案 ID
-   * @param fn 要执行的函数
-   */
-  private async withLock(
-    schemeId: number,
-    fn: () => Promise<void>,
-  ): Promise<void> {
-    const prev = this.schemeLocks.get(schemeId) || Promise.resolve();
-    const next = prev.then(fn).catch((err) => {
-      this.logger.error(`方案锁执行出错 [schemeId=${schemeId}]`, err);
-    });
-    this.schemeLocks.set(schemeId, next);
-    await next;
-  }
-
   /**
    * 创建 TTS 任务
    * @param schemeId 方案 ID
    * @param actualScheme 实际方案数据数组
    * @param voiceName 语音名称
    * @param provider TTS 提供商
+   * @param options 语音合成参数（语言代码）和方案默认的朗读风格，方案项可按片段覆盖朗读风格
+   * @param callbackUrl 方案完成后的回调地址，必须是解析到公网地址的 https 地址
    * @param keepHistory 是否保留历史任务（默认 false，覆盖模式）
-   * @returns 创建的任务统计信息
+   * @param roleVoices 角色与语音的对应关系，旁白中的角色台词使用对应语音朗读
+   * @param outputFormat 输出音频格式（片段和拼接后的旁白均使用该格式）
+   * @param forceRegenerate 是否重新合成全部片段（默认只重新合成有变化的片段）
+   * @returns 创建的任务统计信息，以及各片段沿用原音频或重新合成的明细
    */
   async createTasks(
     schemeId: number,
-    actualScheme: any[],
+    actualScheme: TtsSchemeItemInput[],
     voiceName: string,
     provider: string,
+    options: TtsSynthesisOptions = {},
+    callbackUrl: string | null = null,
     keepHistory: boolean = false,
-  ) {
-    this.logger.log(
-      `开始创建 TTS 任务 [schemeId: ${schemeId}, keepHistory: ${keepHistory}]`,
-    );
+    roleVoices: Record<string, string> | null = null,
+    outputFormat: AudioFormat = 'wav',
+    forceRegenerate: boolean = false,
+  ): Promise<TaskExecuteDto> {
+    return this.ttsSchemeLockService.withLock(Number(schemeId), async () => {
+      this.logger.log(
+        `开始创建 TTS 任务 [schemeId: ${schemeId}, keepHistory: ${keepHistory}]`,
+      );
 
-    // 1. 检查是否有未完成的任务，避免重复执行
-    const unfinishedTask = await this.prisma.sys_tts_task.findFirst({
-      where: {
-        scheme_id: schemeId,
-        status: TaskStatus.PENDING, // 待处理的任务
-      },
-    });
+      const synthesisOptions = this.resolveSynthesisOptions(
+        voiceName,
+        provider,
+        options,
+      );
+      const schemeRoleVoices = this.resolveRoleVoices(roleVoices, provider);
+      if (callbackUrl) {
+        try {
+          await assertPublicUrl(callbackUrl);
+        } catch (error: any) {
+          throw new BadRequestException(error?.message || String(error));
+        }
+      }
+
+      // 1. 检查是否有未完成的任务，避免重复执行
+      const unfinishedTask = await this.prisma.sys_tts_task.findFirst({
+        where: {
+          scheme_id: schemeId,
+          status: TaskStatus.PENDING, // 待处理的任务
+        },
+      });
+
+      if (unfinishedTask) {
+        throw new ConflictException(
+          `方案 ${schemeId} 已有任务正在执行，请等待完成后再重新生成`,
+        );
+      }
 
-    if (unfinishedTask) {
-      throw new ConflictException(
-        `方案 ${schemeId} 已有任务正在执行，请等待完成后再重新生成`,
+      // 2. 找出可以沿用原音频的片段，其余片段需要重新合成
+      const roleVoicesJson = schemeRoleVoices
+        ? JSON.stringify(schemeRoleVoices)
+        : null;
+      const plans = await this.planSegments(
+        schemeId,
+        actualScheme,
+        voiceName,
+        provider,
+        synthesisOptions,
+        roleVoicesJson,
+        outputFormat,
+        forceRegenerate,
       );
-    }
 
-    // 2. 清空 BullMQ 队列中的旧任务，避免干扰
-    const activeJobs = await this.ttsQueue.getJobs([
-      'waiting',
-      'delayed',
-      'active',
-    ]);
-    const schemeJobs = activeJobs.filter(
-      (job) => job.data.schemeId === schemeId,
-    );
+      // 3. 按需要重新合成的片段预扣方案所属用户的积分，余额不足时拒绝创建
+      const { points } = this.ttsBillingService.estimate(
+        plans.filter((plan) => !plan.keptAudioUrl).map((plan) => plan.text),
+        provider,
+      );
+      await this.ttsBillingService.holdPoints(schemeId, points);
 
-    for (const job of schemeJobs) {
-      await job.remove();
-    }
+      const keptAudios: SegmentAudio[] = [];
+      for (const { schemeIndex, segmentKey, keptAudioUrl } of plans) {
+        if (keptAudioUrl) {
+          keptAudios.push({ schemeIndex, segmentKey, audioUrl: keptAudioUrl });
+        }
+      }
 
-    this.logger.log(`已清理 ${schemeJobs.length} 个队列中的旧任务`);
+      let createdTasks = 0;
+      try {
+        // 4. 清空 BullMQ 队列中的旧任务，避免干扰
+        const activeJobs = await this.ttsQueue.getJobs([
+          'waiting',
+          'delayed',
+          'prioritized',
+          'paused',
+          'active',
+        ]);
+        const schemeJobs = activeJobs.filter(
+          (job) => job.data.schemeId === schemeId,
+        );
 
-    // 3. 更新方案状态为执行中
-    await this.prisma.sys_generate_scheme_manage.update({
-      where: { id: schemeId },
-      data: { tts_task_state: SchemeState.PROCESSING },
-    });
+        for (const job of schemeJobs) {
+          await job.remove();
+        }
 
-    // 4. 清空旧的音频 URL 数据
-    await this.clearAudioUrls(schemeId);
+        this.logger.log(`已清理 ${schemeJobs.length} 个队列中的旧任务`);
 
-    // 5. 创建新的 TTS 任务
-    const createdTasks: any[] = [];
-    const segmentKeys: sys_tts_task_segment_key[] = ['begin', 'middle', 'end'];
+        // 5. 更新方案状态为执行中，并记录本次的回调地址、角色语音和输出格式
+        await this.ttsSchemeLockService.updateScheme(schemeId, {
+          tts_task_state: SchemeState.PROCESSING,
+          tts_callback_url: callbackUrl,
+          tts_role_voices: roleVoicesJson,
+          tts_output_format: outputFormat,
+        });
 
-    for (let i = 0; i < actualScheme.length; i++) {
-      const schemeItem = actualScheme[i];
+        // 6. 按本次请求的方案重建方案项，只保留沿用片段的音频 URL
+        await this.ttsSchemeContentService.resetScheme(
+          BigInt(schemeId),
+          actualScheme,
+          keptAudios,
+        );
 
-      for (const segmentKey of segmentKeys) {
-        const text =
-          schemeItem.translation[
-            segmentKey as keyof typeof schemeItem.translation
-          ];
+        // 7. 为有变化的片段创建新的 TTS 任务
+        for (const plan of plans) {
+          if (plan.keptAudioUrl) continue;
+          const { schemeIndex: i, segmentKey, text, options } = plan;
 
-        if (keepHistory) {
-          // 保留历史模式：标记旧任务为废弃
-          await this.deprecateOldTasks(schemeId, i, segmentKey);
-          const newTask = await this.createNewTask(
+          // 保留历史模式：先将旧任务的音频归档到历史表，再删除旧任务
+          const newTask = await this.ttsSchemeLockService.transaction(
             schemeId,
-            i,
-            segmentKey,
-            text,
+            async (tx) => {
+              if (keepHistory) {
+                await this.archiveSegmentTasks(tx, schemeId, i, segmentKey);
+              }
+              await this.deleteOldTasks(tx, schemeId, i, segmentKey);
+              return this.createNewTask(
+                tx,
+                schemeId,
+                i,
+                segmentKey,
+                text,
+                options,
+              );
+            },
           );
+          createdTasks++;
           await this.enqueueTask(
             newTask,
             text,
@@ -147,85 +237,324 @@ export class TtsTaskService {
             segmentKey,
             voiceName,
             provider,
+            options,
           );
-          createdTasks.push(newTask);
-        } else {
-          // 覆盖模式：删除旧任务，创建新任务
-          await this.deleteOldTasks(schemeId, i, segmentKey);
-          const newTask = await this.createNewTask(
-            schemeId,
-            i,
-            segmentKey,
-            text,
-          );
-          await this.enqueueTask(
-            newTask,
+        }
+      } catch (error) {
+        // 还没有创建任务时退还预扣积分，已创建任务的预扣积分在方案结算时多退
+        if (!createdTasks) {
+          await this.ttsBillingService.releasePoints(schemeId, points);
+        }
+        throw error;
+      }
+
+      const keptTasks = keptAudios.length;
+      const regeneratedTasks = plans.length - keptTasks;
+      this.logger.log(
+        `成功创建 ${regeneratedTasks} 个 TTS 任务，沿用 ${keptTasks} 个片段的原音频 [schemeId: ${schemeId}]`,
+      );
+      return {
+        totalTasks: plans.length,
+        schemeId,
+        regeneratedTasks,
+        keptTasks,
+        segments: plans.map(({ schemeIndex, segmentKey, keptAudioUrl }) => ({
+          schemeIndex,
+          segmentKey,
+          action: keptAudioUrl ? 'kept' : 'regenerated',
+        })),
+      };
+    });
+  }
+
+  /**
+   * 估算创建任务的字符数、提供商成本和消耗的积分，不创建任务
+   * 参数与 createTasks 相同，沿用原音频的片段不计费
+   * 按本次提供商估算，createTasks 按同样的积分预扣，结算时实际扣除以预扣封顶，提供商降级也不会超出
+   * @returns 本次提供商及其他提供商的估算结果，以及方案所属用户的积分余额
+   */
+  async estimateTasks(
+    schemeId: number,
+    actualScheme: TtsSchemeItemInput[],
+    voiceName: string,
+    provider: string,
+    options: TtsSynthesisOptions = {},
+    roleVoices: Record<string, string> | null = null,
+    outputFormat: AudioFormat = 'wav',
+    forceRegenerate: boolean = false,
+  ): Promise<TtsEstimateDto> {
+    const synthesisOptions = this.resolveSynthesisOptions(
+      voiceName,
+      provider,
+      options,
+    );
+    const schemeRoleVoices = this.resolveRoleVoices(roleVoices, provider);
+    const plans = await this.planSegments(
+      schemeId,
+      actualScheme,
+      voiceName,
+      provider,
+      synthesisOptions,
+      schemeRoleVoices ? JSON.stringify(schemeRoleVoices) : null,
+      outputFormat,
+      forceRegenerate,
+    );
+
+    const texts = plans
+      .filter((plan) => !plan.keptAudioUrl)
+      .map((plan) => plan.text);
+    const providers = this.ttsBillingService.estimateAll(texts);
+    const selected = providers.find((item) => item.provider === provider) ?? {
+      provider,
+      ...this.ttsBillingService.estimate(texts, provider),
+    };
+    const balance = await this.ttsBillingService.getSchemeBalance(schemeId);
+
+    return {
+      schemeId,
+      provider,
+      totalSegments: plans.length,
+      regeneratedSegments: texts.length,
+      keptSegments: plans.length - texts.length,
+      characters: selected.characters,
+      estimatedCost: selected.estimatedCost,
+      points: selected.points,
+      balance,
+      sufficient: balance === null || balance >= selected.points,
+      providers,
+    };
+  }
+
+  /**
+   * 逐个片段判断能否沿用原音频：角色语音和输出格式未变化，且片段的文本和语音参数一致
+   * @returns 按方案索引、片段顺序排列的处理计划
+   */
+  private async planSegments(
+    schemeId: number,
+    actualScheme: TtsSchemeItemInput[],
+    voiceName: string,
+    provider: string,
+    synthesisOptions: TtsSynthesisOptions,
+    roleVoicesJson: string | null,
+    outputFormat: AudioFormat,
+    forceRegenerate: boolean,
+  ): Promise<SegmentPlan[]> {
+    const reusableTasks = forceRegenerate
+      ? new Map<string, sys_tts_task>()
+      : await this.findReusableTasks(schemeId, roleVoicesJson, outputFormat);
+    const lexicon = reusableTasks.size
+      ? await this.getSchemeLexicon(schemeId)
+      : [];
+
+    const plans: SegmentPlan[] = [];
+    actualScheme.forEach((item, schemeIndex) => {
+      for (const segmentKey of SEGMENT_KEYS) {
+        const text = item.translation[segmentKey];
+        const options = { ...synthesisOptions, ...item.styles?.[segmentKey] };
+        const task = reusableTasks.get(`${schemeIndex}:${segmentKey}`);
+        const kept =
+          !!task &&
+          this.isSameSynthesis(
+            task,
             text,
-            schemeId,
-            i,
-            segmentKey,
             voiceName,
             provider,
+            options,
+            matchLexicon(text, lexicon),
           );
-          createdTasks.push(newTask);
-        }
+        plans.push({
+          schemeIndex,
+          segmentKey,
+          text,
+          options,
+          keptAudioUrl: kept ? task.audio_url : null,
+        });
       }
+    });
+    return plans;
+  }
+
+  /**
+   * 查询方案下可沿用音频的任务：已成功生成音频，且方案的角色语音和输出格式与本次一致
+   * @param schemeId 方案 ID
+   * @param roleVoicesJson 本次的角色语音映射
+   * @param outputFormat 本次的输出格式
+   * @returns `${方案索引}:${片段键值}` -> 任务
+   */
+  private async findReusableTasks(
+    schemeId: number,
+    roleVoicesJson: string | null,
+    outputFormat: AudioFormat,
+  ): Promise<Map<string, sys_tts_task>> {
+    const reusable = new Map<string, sys_tts_task>();
+    const scheme = await this.prisma.sys_generate_scheme_manage.findUnique({
+      where: { id: schemeId },
+      select: { tts_role_voices: true, tts_output_format: true },
+    });
+    if (
+      !scheme ||
+      (scheme.tts_role_voices ?? null) !== roleVoicesJson ||
+      toAudioFormat(scheme.tts_output_format) !== outputFormat
+    ) {
+      return reusable;
     }
 
-    this.logger.log(
-      `成功创建 ${createdTasks.length} 个 TTS 任务 [schemeId: ${schemeId}]`,
-    );
-    return { totalTasks: createdTasks.length, schemeId };
+    const tasks = await this.prisma.sys_tts_task.findMany({
+      where: {
+        scheme_id: schemeId,
+        status: TaskStatus.SUCCESS,
+        audio_url: { not: null },
+      },
+    });
+    for (const task of tasks) {
+      reusable.set(`${task.scheme_index}:${task.segment_key}`, task);
+    }
+    return reusable;
   }
 
   /**
-   * 清空方案中的音频 URL
+   * 查询方案所属影片的发音词典，方案未关联影片时返回空列表
+   * @param schemeId 方案 ID
    */
-  private async clearAudioUrls(schemeId: number): Promise<void> {
-    const record = await this.prisma.sys_generate_scheme_manage.findUnique({
+  private async getSchemeLexicon(schemeId: number): Promise<LexiconEntry[]> {
+    const scheme = await this.prisma.sys_generate_scheme_manage.findUnique({
       where: { id: schemeId },
-      select: { download_content: true },
+      select: { film_id: true },
     });
+    return scheme?.film_id
+      ? this.filmLexiconService.getEntries(scheme.film_id)
+      : [];
+  }
 
-    if (record?.download_content) {
-      const downloadData = JSON.parse(
-        record.download_content,
-      ) as DownloadContent[];
-      downloadData.forEach((item) => {
-        item.audioUrl = {
-          beginAudioUrl: '',
-          middleAudioUrl: '',
-          endAudioUrl: '',
-        };
-      });
+  /**
+   * 计算片段的合成签名：请求的提供商、语音、语言、文本、朗读风格和文本中出现的发音词条
+   * 降级后按降级前请求的提供商和语音计算，与重新创建任务时的请求一致
+   * @param requested 请求的提供商和语音
+   * @param text 要合成的文本
+   * @param options 朗读风格，语言代码以 requested 为准
+   * @param lexicon 文本中出现的发音词条
+   * @returns SHA-256 十六进制字符串
+   */
+  buildSynthesisKey(
+    requested: TtsRequestedVoice,
+    text: string,
+    options: TtsSynthesisOptions,
+    lexicon: LexiconEntry[],
+  ): string {
+    // 任务上保存的语速、音调、音量为单精度，按单精度计算，与请求中的值一致
+    const fround = (value?: number) =>
+      value === undefined ? null : Math.fround(value);
+    const payload = JSON.stringify([
+      requested.provider,
+      requested.voiceName,
+      requested.languageCode ?? null,
+      text,
+      fround(options.speed),
+      fround(options.pitch),
+      fround(options.volume),
+      options.emotion ?? null,
+      lexicon,
+    ]);
+    return createHash('sha256').update(payload).digest('hex');
+  }
 
-      await this.prisma.sys_generate_scheme_manage.update({
-        where: { id: schemeId },
-        data: { download_content: JSON.stringify(downloadData) },
-      });
+  /**
+   * 判断任务的音频是否与本次合成的文本、语音、合成参数和发音词条一致
+   * 有合成签名的任务按签名比较；没有签名的旧任务按保存的参数比较，文本命中发音词条时无法确认，重新合成。
+   * 语速、音调、音量以单精度浮点数保存，按单精度比较
+   */
+  private isSameSynthesis(
+    task: sys_tts_task,
+    text: string,
+    voiceName: string,
+    provider: string,
+    options: TtsSynthesisOptions,
+    lexicon: LexiconEntry[],
+  ): boolean {
+    if (task.synthesis_key) {
+      return (
+        task.synthesis_key ===
+        this.buildSynthesisKey(
+          { provider, voiceName, languageCode: options.languageCode },
+          text,
+          options,
+          lexicon,
+        )
+      );
     }
+
+    const sameFloat = (saved: number | null, value?: number) =>
+      saved === null || value === undefined
+        ? saved === (value ?? null)
+        : Math.fround(saved) === Math.fround(value);
+
+    return (
+      !lexicon.length &&
+      task.text_content === text &&
+      task.voice_name === voiceName &&
+      task.tts_model === provider &&
+      (task.language ?? null) === (options.languageCode ?? null) &&
+      sameFloat(task.speed, options.speed) &&
+      sameFloat(task.pitch, options.pitch) &&
+      sameFloat(task.volume, options.volume) &&
+      (task.emotion ?? null) === (options.emotion ?? null)
+    );
   }
 
   /**
-   * 标记旧任务为废弃状态
+   * 归档方案片段下已生成的音频，供历史查询和回滚
    */
-  private async deprecateOldTasks(
+  private async archiveSegmentTasks(
+    tx: Prisma.TransactionClient,
     schemeId: number,
     schemeIndex: number,
     segmentKey: sys_tts_task_segment_key,
   ): Promise<void> {
-    await this.prisma.sys_tts_task.updateMany({
+    const tasks = await tx.sys_tts_task.findMany({
       where: {
         scheme_id: schemeId,
         scheme_index: schemeIndex,
         segment_key: segmentKey,
-        status: {
-          in: [TaskStatus.PENDING, TaskStatus.SUCCESS, TaskStatus.FAILED],
-        },
       },
+    });
+
+    for (const task of tasks) {
+      await this.archiveTask(task, tx);
+    }
+  }
+
+  /**
+   * 将任务当前的音频版本写入历史表，未成功生成音频的任务不归档
+   * @param task 任务记录
+   * @param tx 事务客户端，方案锁内的写入需与其他修改在同一事务中
+   */
+  async archiveTask(
+    task: sys_tts_task,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    if (task.status !== TaskStatus.SUCCESS || !task.audio_url) return;
+
+    await tx.sys_tts_task_history.create({
       data: {
-        status: TaskStatus.DEPRECATED,
-        error_log: '任务被覆盖，标记为废弃',
+        task_id: task.id,
+        scheme_id: task.scheme_id,
+        scheme_index: task.scheme_index,
+        segment_key: task.segment_key,
+        text_content: task.text_content,
+        audio_url: task.audio_url,
+        master_audio_url: task.master_audio_url,
+        volume: task.volume,
+        emotion: task.emotion,
+        qa_status: task.qa_status,
+        qa_reason: task.qa_reason,
+        voice_name: task.voice_name,
+        tts_model: task.tts_model,
+        language: task.language,
+        speed: task.speed,
+        pitch: task.pitch,
+        duration_ms: task.duration_ms,
+        gain_db: task.gain_db,
+        generate_time: task.update_time,
       },
     });
   }
@@ -234,11 +563,12 @@ export class TtsTaskService {
    * 删除旧任务
    */
   private async deleteOldTasks(
+    tx: Prisma.TransactionClient,
     schemeId: number,
     schemeIndex: number,
     segmentKey: sys_tts_task_segment_key,
   ): Promise<void> {
-    await this.prisma.sys_tts_task.deleteMany({
+    await tx.sys_tts_task.deleteMany({
       where: {
         scheme_id: schemeId,
         scheme_index: schemeIndex,
@@ -248,15 +578,17 @@ export class TtsTaskService {
   }
 
   /**
-   * 创建新的 TTS 任务
+   * 创建新的 TTS 任务，同时保存片段的合成参数
    */
   private async createNewTask(
+    tx: Prisma.TransactionClient,
     schemeId: number,
     schemeIndex: number,
     segmentKey: sys_tts_task_segment_key,
     text: string,
+    options: TtsSynthesisOptions = {},
   ) {
-    return await this.prisma.sys_tts_task.create({
+    return await tx.sys_tts_task.create({
       data: {
         scheme_id: schemeId,
         scheme_index: schemeIndex,
@@ -264,10 +596,24 @@ export class TtsTaskService {
         text_content: text,
         status: TaskStatus.PENDING,
         retry_count: 0,
+        ...this.synthesisOptionsData(options),
       },
     });
   }
 
+  /**
+   * 转换为任务上保存的合成参数字段
+   */
+  private synthesisOptionsData(options: TtsSynthesisOptions) {
+    return {
+      speed: options.speed ?? null,
+      language: options.languageCode ?? null,
+      pitch: options.pitch ?? null,
+      volume: options.volume ?? null,
+      emotion: options.emotion ?? null,
+    };
+  }
+
   /**
    * 将任务添加到队列
    */
@@ -279,8 +625,9 @@ export class TtsTaskService {
     segmentKey: sys_tts_task_segment_key,
     voiceName: string,
     provider: string,
+    options: TtsSynthesisOptions = {},
   ): Promise<void> {
-    await this.ttsQueue.add('generateAudio', {
+    await this.addJob({
       taskId: task.id.toString(),
       text,
       schemeId,
@@ -288,13 +635,310 @@ export class TtsTaskService {
       segmentKey,
       voiceName,
       provider,
+      ...options,
+    });
+  }
+
+  /**
+   * 按优先级档位和归属用户分配优先级后添加语音生成任务到队列，并发布排队事件
+   * @param data 队列任务数据
+   * @param band 优先级档位
+   * @param opts BullMQ 任务选项
+   */
+  private async addJob(
+    data: TtsJobData,
+    band: TtsJobPriority = TtsJobPriority.BULK,
+    opts?: JobsOptions,
+  ): Promise<void> {
+    const owner = data.owner ?? (await this.resolveJobOwner(data.schemeId));
+    const priority = await this.ttsSchedulerService.assignPriority(owner, band);
+    await this.ttsQueue.add(
+      'generateAudio',
+      { ...data, owner, priorityBand: band },
+      { ...opts, priority },
+    );
+    await this.ttsEventsService.publish({
+      type: 'queued',
+      schemeId: Number(data.schemeId),
+      taskId: data.taskId,
+      schemeIndex: data.schemeIndex,
+      segmentKey: data.segmentKey,
+      provider: data.provider,
+    });
+  }
+
+  /**
+   * 公平调度的归属：方案所属用户，方案没有用户时按方案独立轮转
+   * @param schemeId 方案 ID
+   */
+  private async resolveJobOwner(schemeId: number): Promise<string> {
+    const scheme = await this.prisma.sys_generate_scheme_manage.findUnique({
+      where: { id: Number(schemeId) },
+      select: { user_id: true },
+    });
+    return scheme?.user_id ? `user:${scheme.user_id}` : `scheme:${schemeId}`;
+  }
+
+  /**
+   * 校验角色语音映射
+   * 角色名去除首尾空白，VertexAI 的角色语音同样必须在语音列表中
+   * @param roleVoices 请求中的角色语音映射
+   * @param provider TTS 提供商
+   * @returns 待保存的角色语音映射，未配置时返回 null
+   */
+  private resolveRoleVoices(
+    roleVoices: Record<string, string> | null,
+    provider: string,
+  ): SchemeRoleVoices | null {
+    const voices: Record<string, string> = {};
+    for (const [role, voiceName] of Object.entries(roleVoices ?? {})) {
+      if (!role.trim() || typeof voiceName !== 'string' || !voiceName) {
+        throw new BadRequestException(`角色「${role}」的语音配置无效`);
+      }
+      if (
+        provider === 'vertexai' &&
+        !this.chatService.findVertexAIVoice(voiceName)
+      ) {
+        throw new BadRequestException(
+          `VertexAI 不支持语音 ${voiceName}（角色「${role}」），请从 VertexAI 语音列表中选择`,
+        );
+      }
+      voices[role.trim()] = voiceName;
+    }
+
+    return Object.keys(voices).length ? { provider, voices } : null;
+  }
+
+  /**
+   * 解析方案保存的角色语音映射
+   * @param raw 方案的 tts_role_voices 字段
+   */
+  parseRoleVoices(raw: string | null | undefined): SchemeRoleVoices | null {
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as SchemeRoleVoices;
+    } catch {
+      this.logger.warn(`角色语音映射解析失败: ${raw}`);
+      return null;
+    }
+  }
+
+  /**
+   * 获取指定提供商下的角色语音，降级到其他提供商时按语音映射表转换
+   * @param raw 方案的 tts_role_voices 字段
+   * @param provider 当前使用的提供商
+   * @returns 角色名 -> 语音名称
+   */
+  getRoleVoices(
+    raw: string | null | undefined,
+    provider: string,
+  ): Record<string, string> {
+    const roleVoices = this.parseRoleVoices(raw);
+    if (!roleVoices) return {};
+
+    return Object.fromEntries(
+      Object.entries(roleVoices.voices).map(([role, voiceName]) => [
+        role,
+        roleVoices.provider === provider
+          ? voiceName
+          : this.mapVoice(voiceName, roleVoices.provider, provider),
+      ]),
+    );
+  }
+
+  /**
+   * 查询方案的角色列表
+   * 角色来自影片角色表，以及方案已配置语音的角色
+   * @param schemeId 方案 ID
+   */
+  async getSchemeRoles(schemeId: number): Promise<SchemeRolesDto> {
+    const scheme = await this.prisma.sys_generate_scheme_manage.findUnique({
+      where: { id: schemeId },
+      select: { film_id: true, tts_role_voices: true },
+    });
+    if (!scheme) {
+      throw new NotFoundException(`方案 ${schemeId} 不存在`);
+    }
+
+    const film = scheme.film_id
+      ? await this.prisma.sys_film_library.findUnique({
+          where: { id: scheme.film_id },
+          select: { role_table_text: true },
+        })
+      : null;
+    const tableRoles = parseRoleTable(film?.role_table_text);
+    const roleVoices = this.parseRoleVoices(scheme.tts_role_voices);
+    const voices = roleVoices?.voices ?? {};
+
+    const names = [
+      ...tableRoles,
+      ...Object.keys(voices).filter((name) => !tableRoles.includes(name)),
+    ];
+    return {
+      schemeId,
+      filmId: scheme.film_id,
+      provider: roleVoices?.provider ?? null,
+      roles: names.map((name) => ({
+        name,
+        voiceName: voices[name] ?? null,
+        inRoleTable: tableRoles.includes(name),
+      })),
+    };
+  }
+
+  /**
+   * 校验语音并补全合成参数
+   * VertexAI 只能使用语音列表中的语音，未指定语言代码时按语音推断
+   * @param voiceName 语音名称
+   * @param provider TTS 提供商
+   * @param options 请求中的合成参数
+   */
+  private resolveSynthesisOptions(
+    voiceName: string,
+    provider: string,
+    options: TtsSynthesisOptions,
+  ): TtsSynthesisOptions {
+    if (provider !== 'vertexai') return options;
+
+    const voice = this.chatService.findVertexAIVoice(voiceName);
+    if (!voice) {
+      throw new BadRequestException(
+        `VertexAI 不支持语音 ${voiceName}，请从 VertexAI 语音列表中选择`,
+      );
+    }
+
+    return {
+      ...options,
+      languageCode: options.languageCode ?? voice.languageCode,
+    };
+  }
+
+  /**
+   * 读取任务上保存的合成参数
+   */
+  private taskSynthesisOptions(task: {
+    speed: number | null;
+    language: string | null;
+    pitch: number | null;
+    volume: number | null;
+    emotion: string | null;
+  }): TtsSynthesisOptions {
+    return {
+      speed: task.speed ?? undefined,
+      languageCode: task.language ?? undefined,
+      pitch: task.pitch ?? undefined,
+      volume: task.volume ?? undefined,
+      emotion: (task.emotion as TtsEmotion | null) ?? undefined,
+    };
+  }
+
+  /**
+   * 重新入队丢失了队列任务的待处理任务，语音配置优先取任务本身，其次取同方案的其他任务
+   * @param task 任务记录
+   * @returns 是否成功入队，找不到语音配置时返回 false
+   */
+  async requeueTask(task: sys_tts_task): Promise<boolean> {
+    const voiceConfig =
+      task.voice_name && task.tts_model
+        ? task
+        : await this.prisma.sys_tts_task.findFirst({
+            where: {
+              scheme_id: task.scheme_id,
+              voice_name: { not: null },
+              tts_model: { not: null },
+            },
+          });
+
+    if (!voiceConfig?.voice_name || !voiceConfig.tts_model) return false;
+
+    await this.ttsSchemeLockService.transaction(Number(task.scheme_id), (tx) =>
+      tx.sys_tts_task.update({
+        where: { id: task.id },
+        data: { retry_count: { increment: 1 }, update_time: new Date() },
+      }),
+    );
+    await this.addJob({
+      taskId: task.id.toString(),
+      text: task.text_content,
+      schemeId: Number(task.scheme_id),
+      schemeIndex: task.scheme_index,
+      segmentKey: task.segment_key,
+      voiceName: voiceConfig.voice_name,
+      provider: voiceConfig.tts_model,
+      ...this.taskSynthesisOptions(voiceConfig),
     });
+    return true;
+  }
+
+  /**
+   * 将语音映射到目标提供商的对应语音
+   * @param voiceName 当前语音
+   * @param fromProvider 当前提供商
+   * @param toProvider 目标提供商
+   */
+  private mapVoice(
+    voiceName: string,
+    fromProvider: string,
+    toProvider: string,
+  ): string {
+    const group = VOICE_MAPPING.find(
+      (item) => item[fromProvider] === voiceName,
+    );
+    return (
+      group?.[toProvider] ?? DEFAULT_PROVIDER_VOICES[toProvider] ?? voiceName
+    );
+  }
+
+  /**
+   * 提供商重试耗尽后，按降级顺序切换到下一个提供商重新入队
+   * @param data 失败任务的队列数据
+   * @returns 切换后的提供商，没有可用的提供商时返回 null
+   */
+  async enqueueFallback(data: TtsJobData): Promise<string | null> {
+    const attemptedProviders = [
+      ...(data.attemptedProviders ?? []),
+      data.provider,
+    ];
+    const nextProvider = env.TTS_PROVIDER_FALLBACK.find(
+      (provider) => !attemptedProviders.includes(provider),
+    );
+
+    if (!nextProvider) return null;
+
+    const voiceName = this.mapVoice(
+      data.voiceName,
+      data.provider,
+      nextProvider,
+    );
+
+    // 语言代码与原语音绑定，切换提供商后按新语音重新推断
+    await this.addJob(
+      {
+        ...data,
+        provider: nextProvider,
+        voiceName,
+        languageCode: undefined,
+        attemptedProviders,
+        requested: data.requested ?? {
+          provider: data.provider,
+          voiceName: data.voiceName,
+          languageCode: data.languageCode,
+        },
+      },
+      data.priorityBand,
+    );
+
+    this.logger.warn(
+      `任务 [taskId: ${data.taskId}] 提供商 ${data.provider} 重试耗尽，降级到 ${nextProvider}（语音: ${voiceName}）`,
+    );
+    return nextProvider;
   }
 
   /**
    * 更新指定的 TTS 任务
    * @param schemeId 方案 ID
    * @param updates 更新内容数组
+   * @param keepHistory 是否将旧音频归档到历史表（默认 false）
    * @returns 更新的任务统计信息
    */
   async updateTasksExclusive(
@@ -303,98 +947,154 @@ export class TtsTaskService {
       schemeIndex: number;
       segmentKey: sys_tts_task_segment_key;
       newText: string;
+      style?: TtsVoiceStyle;
     }[],
+    keepHistory: boolean = false,
   ) {
-    this.logger.log(
-      `开始更新 TTS 任务 [schemeId: ${schemeId}, 更新数量: ${updates.length}]`,
-    );
-
-    // 1. 检查是否有正在执行的任务，避免冲突
-    const runningTask = await this.prisma.sys_tts_task.findFirst({
-      where: {
-        scheme_id: schemeId,
-        status: { in: [TaskStatus.PENDING] }, // 进行中的任务
-      },
-    });
-
-    if (runningTask) {
-      throw new ConflictException(
-        `方案 ${schemeId} 已有任务正在执行，请等待完成后再重新生成`,
+    return this.ttsSchemeLockService.withLock(Number(schemeId), async () => {
+      this.logger.log(
+        `开始更新 TTS 任务 [schemeId: ${schemeId}, 更新数量: ${updates.length}]`,
       );
-    }
-
-    // 2. 查询语音配置信息，避免循环中重复查询
-    const voiceConfig = await this.prisma.sys_tts_task.findFirst({
-      where: { scheme_id: schemeId },
-      select: { voice_name: true, tts_model: true },
-    });
-    const voiceName = voiceConfig?.voice_name ?? '';
-    const ttsModel = voiceConfig?.tts_model ?? '';
-
-    const updatedTasks: any[] = [];
 
-    // 3. 逐个更新任务
-    for (const { schemeIndex, segmentKey, newText } of updates) {
-      // 检查任务是否存在
-      const existingTask = await this.prisma.sys_tts_task.findUnique({
+      // 1. 检查是否有正在执行的任务，避免冲突
+      const runningTask = await this.prisma.sys_tts_task.findFirst({
         where: {
-          scheme_id_scheme_index_segment_key: {
-            scheme_id: schemeId,
-            scheme_index: schemeIndex,
-            segment_key: segmentKey,
-          },
+          scheme_id: schemeId,
+          status: { in: [TaskStatus.PENDING] }, // 进行中的任务
         },
       });
 
-      if (!existingTask) {
-        throw new NotFoundException(
-          `任务不存在: schemeId=${schemeId}, index=${schemeIndex}, key=${segmentKey}`,
+      if (runningTask) {
+        throw new ConflictException(
+          `方案 ${schemeId} 已有任务正在执行，请等待完成后再重新生成`,
         );
       }
 
-      // 更新任务内容并重置状态
-      const updatedTask = await this.prisma.sys_tts_task.update({
-        where: { id: existingTask.id },
-        data: {
-          text_content: newText,
-          retry_count: 0,
-          status: TaskStatus.PENDING, // 重置为待执行状态
-          audio_url: null, // 清空旧音频 URL
+      // 2. 查询语音配置信息，避免循环中重复查询
+      const voiceConfig = await this.prisma.sys_tts_task.findFirst({
+        where: { scheme_id: schemeId },
+        select: {
+          voice_name: true,
+          tts_model: true,
+          speed: true,
+          language: true,
+          pitch: true,
+          volume: true,
+          emotion: true,
         },
       });
+      const voiceName = voiceConfig?.voice_name ?? '';
+      const ttsModel = voiceConfig?.tts_model ?? '';
+      const synthesisOptions = voiceConfig
+        ? this.taskSynthesisOptions(voiceConfig)
+        : {};
+
+      const updatedTasks: any[] = [];
+
+      // 3. 按新文本预扣积分，余额不足时拒绝修改
+      const points = ttsModel
+        ? this.ttsBillingService.estimate(
+            updates.map(({ newText }) => newText),
+            ttsModel,
+          ).points
+        : 0;
+      await this.ttsBillingService.holdPoints(schemeId, points);
+
+      // 4. 逐个更新任务
+      try {
+        for (const { schemeIndex, segmentKey, newText, style } of updates) {
+          // 检查任务是否存在
+          const existingTask = await this.prisma.sys_tts_task.findUnique({
+            where: {
+              scheme_id_scheme_index_segment_key: {
+                scheme_id: schemeId,
+                scheme_index: schemeIndex,
+                segment_key: segmentKey,
+              },
+            },
+          });
 
-      // 更新方案状态为处理中
-      await this.prisma.sys_generate_scheme_manage.update({
-        where: { id: Number(schemeId) },
-        data: { tts_task_state: SchemeState.PROCESSING },
-      });
+          if (!existingTask) {
+            throw new NotFoundException(
+              `任务不存在: schemeId=${schemeId}, index=${schemeIndex}, key=${segmentKey}`,
+            );
+          }
 
-      // 重新加入队列进行处理
-      await this.ttsQueue.add(
-        'generateAudio',
-        {
-          taskId: updatedTask.id.toString(),
-          text: newText,
-          schemeId,
-          schemeIndex,
-          segmentKey,
-          voiceName,
-          provider: ttsModel,
-        },
-        {
-          jobId: `tts-${updatedTask.id}-${Date.now()}`,
-          removeOnComplete: true, // 完成后自动移除
-          removeOnFail: false, // 失败时保留以便排查问题
-        },
-      );
+          // 沿用片段原有的合成参数，请求中的朗读风格覆盖对应字段
+          const options = {
+            ...(existingTask.tts_model === ttsModel
+              ? this.taskSynthesisOptions(existingTask)
+              : synthesisOptions),
+            ...style,
+          };
 
-      updatedTasks.push(updatedTask);
-    }
+          const updatedTask = await this.ttsSchemeLockService.transaction(
+            schemeId,
+            async (tx) => {
+              if (keepHistory) {
+                await this.archiveTask(existingTask, tx);
+              }
+
+              // 更新任务内容并重置状态
+              const task = await tx.sys_tts_task.update({
+                where: { id: existingTask.id },
+                data: {
+                  ...this.synthesisOptionsData(options),
+                  text_content: newText,
+                  retry_count: 0,
+                  status: TaskStatus.PENDING, // 重置为待执行状态
+                  audio_url: null, // 清空旧音频 URL
+                  master_audio_url: null,
+                  cache_hit: false,
+                  qa_status: null,
+                  qa_reason: null,
+                  billed_characters: null, // 重新合成后再次结算
+                },
+              });
+
+              // 更新方案状态为处理中
+              await this.ttsSchemeLockService.updateScheme(Number(schemeId), {
+                tts_task_state: SchemeState.PROCESSING,
+              });
+              return task;
+            },
+          );
 
-    this.logger.log(
-      `成功更新 ${updatedTasks.length} 个 TTS 任务 [schemeId: ${schemeId}]`,
-    );
-    return { totalTasks: updatedTasks.length, schemeId };
+          // 重新加入队列进行处理
+          await this.addJob(
+            {
+              taskId: updatedTask.id.toString(),
+              text: newText,
+              schemeId,
+              schemeIndex,
+              segmentKey,
+              voiceName,
+              provider: ttsModel,
+              ...options,
+            },
+            TtsJobPriority.INTERACTIVE,
+            {
+              jobId: `tts-${updatedTask.id}-${Date.now()}`,
+              removeOnComplete: true, // 完成后自动移除
+              removeOnFail: false, // 失败时保留以便排查问题
+            },
+          );
+
+          updatedTasks.push(updatedTask);
+        }
+      } catch (error) {
+        // 还没有更新任务时退还预扣积分，已更新任务的预扣积分在方案结算时多退
+        if (!updatedTasks.length) {
+          await this.ttsBillingService.releasePoints(schemeId, points);
+        }
+        throw error;
+      }
+
+      this.logger.log(
+        `成功更新 ${updatedTasks.length} 个 TTS 任务 [schemeId: ${schemeId}]`,
+      );
+      return { totalTasks: updatedTasks.length, schemeId };
+    });
   }
 
   // 更新音频文件
@@ -453,81 +1153,441 @@ export class TtsTaskService {
   //   });
   // }
   /**
-   * 更新方案中指定片段的音频文件 URL
-   * 使用锁机制确保并发安全，只更新对应字段，保留原有内容
+   * 拼接方案的旁白音频
+   * 每个方案项的 begin/middle/end 片段拼接为一条音轨，所有方案项再拼接为完整方案音轨
+   * 方案项音轨写入方案项的 merged_audio_url，完整音轨写入方案的 audio_url
    * @param schemeId 方案 ID
-   * @param schemeIndex 方案索引
-   * @param segmentKey 片段键值
-   * @param audioUrl 音频文件 URL
+   * @returns 各方案项音轨 URL 和完整方案音轨 URL
    */
-  async updateSegmentAudio(
-    schemeId: bigint,
-    schemeIndex: number,
-    segmentKey: string,
-    audioUrl: string,
-  ): Promise<void> {
-    await this.withLock(Number(schemeId), async () => {
-      // 查询方案信息
-      const scheme = await this.prisma.sys_generate_scheme_manage.findUnique({
+  async mergeSchemeAudio(schemeId: bigint): Promise<{
+    itemAudioUrls: Record<number, string>;
+    schemeAudioUrl: string;
+  }> {
+    this.logger.log(`开始拼接方案旁白音频 [schemeId: ${schemeId}]`);
+
+    const [tasks, scheme] = await Promise.all([
+      this.prisma.sys_tts_task.findMany({
+        where: { scheme_id: schemeId, status: TaskStatus.SUCCESS },
+        select: {
+          scheme_index: true,
+          segment_key: true,
+          audio_url: true,
+          master_audio_url: true,
+        },
+      }),
+      this.prisma.sys_generate_scheme_manage.findUnique({
         where: { id: Number(schemeId) },
-        select: { download_content: true },
-      });
+        select: { tts_output_format: true },
+      }),
+    ]);
+    const outputFormat = toAudioFormat(scheme?.tts_output_format);
 
-      if (!scheme) {
-        throw new Error(`方案 ${schemeId} 不存在`);
+    // 按方案索引分组，组内按 begin/middle/end 排序；优先使用 WAV 母版拼接
+    const segmentOrder: sys_tts_task_segment_key[] = ['begin', 'middle', 'end'];
+    const grouped = new Map<number, Map<sys_tts_task_segment_key, string>>();
+    for (const task of tasks) {
+      const url = task.master_audio_url || task.audio_url;
+      if (!url) continue;
+      if (!grouped.has(task.scheme_index)) {
+        grouped.set(task.scheme_index, new Map());
       }
+      grouped.get(task.scheme_index)!.set(task.segment_key, url);
+    }
 
-      if (!scheme.download_content) {
+    const itemAudioUrls: Record<number, string> = {};
+    const itemBuffers: Buffer[] = [];
+    const schemeIndexes = [...grouped.keys()].sort((a, b) => a - b);
+
+    for (const schemeIndex of schemeIndexes) {
+      const segments = grouped.get(schemeIndex)!;
+      const urls = segmentOrder
+        .map((key) => segments.get(key))
+        .filter((url): url is string => !!url);
+
+      if (urls.length !== segmentOrder.length) {
         this.logger.warn(
-          `方案 ${schemeId} 的 download_content 为空，跳过音频 URL 更新`,
+          `方案项片段不完整，跳过拼接 [schemeId: ${schemeId}, index: ${schemeIndex}]`,
         );
-        return;
+        continue;
       }
 
-      try {
-        // 解析下载内容 JSON
-        const downloadContentData = JSON.parse(
-          scheme.download_content,
-        ) as any[];
-
-        // 检查索引有效性
-        if (!downloadContentData[schemeIndex]) {
-          throw new Error(
-            `片段索引超出范围: schemeId=${schemeId}, index=${schemeIndex}`,
+      const itemBuffer = await this.ttsAudioService.buildItemNarration(urls);
+      itemAudioUrls[schemeIndex] = await this.ttsAudioService.uploadNarration(
+        itemBuffer,
+        `scheme-${schemeId}-item-${schemeIndex}-${Date.now()}.wav`,
+        outputFormat,
+      );
+      itemBuffers.push(itemBuffer);
+    }
+
+    if (!itemBuffers.length) {
+      throw new Error(`方案 ${schemeId} 没有可拼接的音频`);
+    }
+
+    const schemeBuffer =
+      await this.ttsAudioService.buildSchemeNarration(itemBuffers);
+    const schemeAudioUrl = await this.ttsAudioService.uploadNarration(
+      schemeBuffer,
+      `scheme-${schemeId}-${Date.now()}.wav`,
+      outputFormat,
+    );
+
+    // 写回方案数据
+    await this.ttsSchemeContentService.setMergedAudio(
+      schemeId,
+      itemAudioUrls,
+      schemeAudioUrl,
+    );
+
+    this.logger.log(
+      `方案旁白音频拼接完成 [schemeId: ${schemeId}, 方案项: ${itemBuffers.length}]`,
+    );
+    return { itemAudioUrls, schemeAudioUrl };
+  }
+
+  /**
+   * 解析方案项的目标时长（秒）
+   * 优先使用 videoDurationSeconds（如 "87秒"），否则累加 usedSegment.time（如 "10秒,17秒"）
+   */
+  private parseTargetSeconds(script: VideoScript | null): number | null {
+    if (!script) return null;
+
+    const total = parseFloat(String(script.videoDurationSeconds ?? ''));
+    if (!Number.isNaN(total) && total > 0) return total;
+
+    const segmentSeconds = String(script.usedSegment?.time ?? '')
+      .split(/[,，]/)
+      .map((item) => parseFloat(item))
+      .filter((item) => !Number.isNaN(item));
+    if (!segmentSeconds.length) return null;
+
+    return segmentSeconds.reduce((sum, item) => sum + item, 0);
+  }
+
+  /**
+   * 生成方案的时长对账报告
+   * 对比每个方案项的目标时长与拼接后旁白的实际时长
+   * @param schemeId 方案 ID
+   * @returns 各方案项的时长对账结果
+   */
+  async getTimingReport(schemeId: number): Promise<TimingReportItemDto[]> {
+    const [tasks, schemeContents] = await Promise.all([
+      this.prisma.sys_tts_task.findMany({
+        where: {
+          scheme_id: BigInt(schemeId),
+          status: { not: TaskStatus.DEPRECATED },
+        },
+        select: { scheme_index: true, status: true, duration_ms: true },
+      }),
+      this.ttsSchemeContentService.getSchemeContents(BigInt(schemeId)),
+    ]);
+    const schemeIndexes = [
+      ...new Set(tasks.map((task) => task.scheme_index)),
+    ].sort((a, b) => a - b);
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    return schemeIndexes.map((schemeIndex) => {
+      const itemTasks = tasks.filter(
+        (task) => task.scheme_index === schemeIndex,
+      );
+      const targetSeconds = this.parseTargetSeconds(
+        schemeContents[schemeIndex] ?? null,
+      );
+
+      // 片段未全部生成时无法计算实际时长
+      const finished = itemTasks.every(
+        (task) => task.status === TaskStatus.SUCCESS && task.duration_ms,
+      );
+      if (!finished) {
+        return {
+          schemeIndex,
+          targetSeconds,
+          actualSeconds: null,
+          diffSeconds: null,
+          status: 'pending',
+        };
+      }
+
+      // 实际时长与拼接后的旁白一致：片段时长 + 片段间静音
+      const actualMs =
+        itemTasks.reduce((sum, task) => sum + (task.duration_ms ?? 0), 0) +
+        env.TTS_SEGMENT_SILENCE_MS * (itemTasks.length - 1);
+      const actualSeconds = round(actualMs / 1000);
+
+      if (targetSeconds === null) {
+        return {
+          schemeIndex,
+          targetSeconds,
+          actualSeconds,
+          diffSeconds: null,
+          status: 'unknown',
+        };
+      }
+
+      const diffSeconds = round(actualSeconds - targetSeconds);
+      let status: TimingReportItemDto['status'] = 'fit';
+      if (diffSeconds > env.TTS_TIMING_TOLERANCE_SECONDS) {
+        status = 'overrun';
+      } else if (diffSeconds < -env.TTS_TIMING_TOLERANCE_SECONDS) {
+        status = 'underrun';
+      }
+
+      return { schemeIndex, targetSeconds, actualSeconds, diffSeconds, status };
+    });
+  }
+
+  /**
+   * 按目标时长重新合成超时的方案项
+   * 仅支持可调节语速的提供商，按超出比例提高语速后重新生成该方案项的全部片段
+   * 重新合成的片段再次计费，调整前按其文本预扣积分
+   * @param schemeId 方案 ID
+   * @returns 已调整和跳过的方案项
+   */
+  async fitSchemeTiming(schemeId: number): Promise<FitTimingResultDto> {
+    return this.ttsSchemeLockService.withLock(Number(schemeId), async () => {
+      this.logger.log(`开始按目标时长调整语速 [schemeId: ${schemeId}]`);
+
+      const runningTask = await this.prisma.sys_tts_task.findFirst({
+        where: { scheme_id: schemeId, status: TaskStatus.PENDING },
+      });
+
+      if (runningTask) {
+        throw new ConflictException(
+          `方案 ${schemeId} 已有任务正在执行，请等待完成后再重新生成`,
+        );
+      }
+
+      const report = await this.getTimingReport(schemeId);
+      const tasks = await this.prisma.sys_tts_task.findMany({
+        where: {
+          scheme_id: schemeId,
+          status: { not: TaskStatus.DEPRECATED },
+        },
+      });
+
+      const result: FitTimingResultDto = { adjusted: [], skipped: [] };
+      const adjustments: {
+        item: (typeof report)[number];
+        itemTasks: typeof tasks;
+        provider: string;
+        currentSpeed: number;
+        newSpeed: number;
+      }[] = [];
+      const silenceSeconds = env.TTS_SEGMENT_SILENCE_MS / 1000;
+
+      for (const item of report) {
+        if (item.status !== 'overrun') continue;
+
+        const itemTasks = tasks.filter(
+          (task) => task.scheme_index === item.schemeIndex,
+        );
+        const provider = itemTasks[0]?.tts_model ?? '';
+        const speedRange = SPEED_ADJUSTABLE_PROVIDERS[provider];
+
+        if (!speedRange) {
+          result.skipped.push({
+            schemeIndex: item.schemeIndex,
+            reason: `提供商 ${provider || '未知'} 不支持调节语速`,
+          });
+          continue;
+        }
+
+        // 只按语音部分的时长计算比例，片段间静音不受语速影响
+        const silenceTotal = silenceSeconds * (itemTasks.length - 1);
+        const ratio =
+          (item.actualSeconds! - silenceTotal) /
+          Math.max(item.targetSeconds! - silenceTotal, 1);
+        const currentSpeed = itemTasks[0].speed ?? 1;
+        const newSpeed = Math.min(
+          speedRange.max,
+          Math.round(currentSpeed * ratio * 100) / 100,
+        );
+
+        if (newSpeed <= currentSpeed) {
+          result.skipped.push({
+            schemeIndex: item.schemeIndex,
+            reason: `已达到最大语速 ${speedRange.max}`,
+          });
+          continue;
+        }
+
+        adjustments.push({ item, itemTasks, provider, currentSpeed, newSpeed });
+      }
+
+      // 重新合成的片段再次计费，按其文本预扣积分，余额不足时不调整任何方案项
+      const points = adjustments.reduce(
+        (sum, { itemTasks, provider }) =>
+          sum +
+          this.ttsBillingService.estimate(
+            itemTasks.map((task) => task.text_content),
+            provider,
+          ).points,
+        0,
+      );
+      await this.ttsBillingService.holdPoints(schemeId, points);
+
+      for (const {
+        item,
+        itemTasks,
+        provider,
+        currentSpeed,
+        newSpeed,
+      } of adjustments) {
+        for (const task of itemTasks) {
+          await this.ttsSchemeLockService.transaction(schemeId, (tx) =>
+            tx.sys_tts_task.update({
+              where: { id: task.id },
+              data: {
+                status: TaskStatus.PENDING,
+                retry_count: 0,
+                audio_url: null,
+                master_audio_url: null,
+                qa_status: null,
+                qa_reason: null,
+                billed_characters: null,
+                duration_ms: null,
+                gain_db: null,
+                cache_hit: false,
+                speed: newSpeed,
+              },
+            }),
           );
+
+          await this.enqueueTask(
+            task,
+            task.text_content,
+            schemeId,
+            task.scheme_index,
+            task.segment_key,
+            task.voice_name ?? '',
+            provider,
+            { ...this.taskSynthesisOptions(task), speed: newSpeed },
+          );
+        }
+
+        result.adjusted.push({
+          schemeIndex: item.schemeIndex,
+          previousSpeed: currentSpeed,
+          speed: newSpeed,
+        });
+      }
+
+      if (result.adjusted.length) {
+        await this.ttsSchemeLockService.updateScheme(schemeId, {
+          tts_task_state: SchemeState.PROCESSING,
+        });
+      }
+
+      this.logger.log(
+        `语速调整完成 [schemeId: ${schemeId}] - 调整: ${result.adjusted.length}, 跳过: ${result.skipped.length}`,
+      );
+      return result;
+    });
+  }
+
+  /**
+   * 取消方案正在执行的 TTS 生成
+   * 移除队列中尚未执行的任务；正在执行的任务在回写结果前检查取消状态后自行终止。
+   * 锁内结算已生成的片段，释放方案锁后发布完成事件
+   * @param schemeId 方案 ID
+   * @returns 取消的任务数量统计
+   */
+  async cancelScheme(schemeId: number): Promise<CancelResultDto> {
+    const result = await this.ttsSchemeLockService.withLock(
+      Number(schemeId),
+      async () => {
+        this.logger.log(`开始取消 TTS 任务 [schemeId: ${schemeId}]`);
+
+        const pendingCount = await this.prisma.sys_tts_task.count({
+          where: { scheme_id: schemeId, status: TaskStatus.PENDING },
+        });
+
+        if (!pendingCount) {
+          throw new BadRequestException(`方案 ${schemeId} 没有正在执行的任务`);
         }
 
-        // 确保 audioUrl 对象存在且类型正确
-        const segment = downloadContentData[schemeIndex];
-        if (
-          !segment.audioUrl ||
-          typeof segment.audioUrl !== 'object' ||
-          Array.isArray(segment.audioUrl)
-        ) {
-          segment.audioUrl = {};
+        // 1. 先标记任务为已取消，避免正在执行的任务在移除队列期间回写结果
+        const { count: cancelledTasks } =
+          await this.ttsSchemeLockService.transaction(schemeId, (tx) =>
+            tx.sys_tts_task.updateMany({
+              where: { scheme_id: schemeId, status: TaskStatus.PENDING },
+              data: {
+                status: TaskStatus.CANCELLED,
+                error_log: '用户已取消',
+                update_time: new Date(),
+              },
+            }),
+          );
+
+        // 2. 移除队列中尚未执行的任务
+        const queuedJobs = await this.ttsQueue.getJobs([
+          'waiting',
+          'delayed',
+          'prioritized',
+          'paused',
+        ]);
+        let removedJobs = 0;
+        for (const job of queuedJobs) {
+          if (Number(job.data.schemeId) !== schemeId) continue;
+          try {
+            await job.remove();
+            removedJobs++;
+          } catch (error) {
+            // 任务可能恰好被 Worker 取走，由 Worker 检查取消状态后终止
+            this.logger.warn(`移除队列任务失败 [jobId: ${job.id}]`, error);
+          }
         }
 
-        // 只更新对应的音频字段，保留其他字段
-        const audioFieldKey = `${segmentKey}AudioUrl`;
-        segment.audioUrl[audioFieldKey] = audioUrl;
+        // 3. 正在执行的任务由 Worker 检查取消状态后终止
+        const activeJobs = (await this.ttsQueue.getJobs(['active'])).filter(
+          (job) => Number(job.data.schemeId) === schemeId,
+        ).length;
 
-        // 保存更新后的数据
-        await this.prisma.sys_generate_scheme_manage.update({
-          where: { id: Number(schemeId) },
-          data: { download_content: JSON.stringify(downloadContentData) },
+        // 4. 更新方案状态为已取消
+        await this.ttsSchemeLockService.updateScheme(schemeId, {
+          tts_task_state: SchemeState.CANCELLED,
         });
 
+        // 5. 取消前已生成的片段照常扣费，取消和失败片段的预扣积分退还
+        // 结算在锁内执行，避免与之后创建任务的预扣交叉
+        try {
+          await this.ttsBillingService.settleScheme(schemeId);
+        } catch (error: any) {
+          this.logger.error(
+            `方案 [ID: ${schemeId}] 配音结算失败: ${error?.message || error}`,
+          );
+        }
+
         this.logger.log(
-          `已更新音频 URL [schemeId: ${schemeId}, index: ${schemeIndex}, key: ${audioFieldKey}]`,
+          `已取消 TTS 任务 [schemeId: ${schemeId}] - 任务: ${cancelledTasks}, 移除队列任务: ${removedJobs}, 执行中: ${activeJobs}`,
         );
-      } catch (error) {
-        this.logger.error(
-          `更新音频 URL 失败 [schemeId: ${schemeId}, index: ${schemeIndex}]`,
-          error,
-        );
-        throw error;
-      }
+        return { schemeId, cancelledTasks, removedJobs, activeJobs };
+      },
+    );
+
+    await this.ttsEventsService.publish({
+      type: 'finished',
+      schemeId,
+      state: SchemeState.CANCELLED,
     });
+    return result;
+  }
+
+  /**
+   * 校验方案未被取消，已取消的方案需重新生成后才能继续修改
+   * @param schemeId 方案 ID
+   * @throws BadRequestException 方案已取消
+   */
+  async assertSchemeNotCancelled(schemeId: number): Promise<void> {
+    const scheme = await this.prisma.sys_generate_scheme_manage.findUnique({
+      where: { id: schemeId },
+      select: { tts_task_state: true },
+    });
+    if (scheme?.tts_task_state === SchemeState.CANCELLED) {
+      throw new BadRequestException(
+        `方案 ${schemeId} 已取消，请重新生成后再操作`,
+      );
+    }
   }
 
   /**
@@ -543,42 +1603,14 @@ export class TtsTaskService {
       where: { scheme_id: BigInt(schemeId) },
     });
 
-    // 查询方案的下载内容配置
-    const scheme = await this.prisma.sys_generate_scheme_manage.findUnique({
-      where: { id: schemeId },
-      select: { download_content: true },
-    });
-
-    // 解析并处理下载内容 JSON
-    let parsedDownloadContent: any = null;
-
-    if (scheme?.download_content) {
-      try {
-        // 解析主 JSON 数组
-        const downloadArray: any[] = JSON.parse(scheme.download_content);
-
-        // 对每个元素的 schemeContent 进行二次解析
-        parsedDownloadContent = downloadArray.map((item) => {
-          if (item.schemeContent && typeof item.schemeContent === 'string') {
-            try {
-              item.schemeContent = JSON.parse(item.schemeContent);
-            } catch (parseError) {
-              this.logger.error('解析 schemeContent 出错:', parseError);
-              item.schemeContent = null;
-            }
-          }
-          return item;
-        });
-      } catch (error) {
-        this.logger.error('解析 download_content 出错:', error);
-        parsedDownloadContent = null;
-      }
-    }
+    // 查询方案的下载内容，schemeContent 已是解析后的对象
+    const downloadContent =
+      await this.ttsSchemeContentService.getDownloadContent(BigInt(schemeId));
 
     // 返回任务数据与解析后的下载内容
     return tasks.map((task) => ({
       ...task,
-      download_content: parsedDownloadContent,
+      download_content: downloadContent,
     }));
   }
 
@@ -588,20 +1620,26 @@ export class TtsTaskService {
    * @returns 整体状态和各状态的任务数量统计
    */
   async getOverallStatus(schemeId: number): Promise<{
-    overall: 'unfinished' | 'failed' | 'success';
+    overall: 'unfinished' | 'failed' | 'success' | 'cancelled';
     stats: {
       success: number;
       failed: number;
       unfinished: number;
+      cancelled: number;
       total: number;
+      cacheHits: number;
+      qaSuspicious: number;
     };
+    schemeAudioUrl: string | null;
+    timing: TimingReportItemDto[];
+    charge: SchemeChargeDto;
   }> {
     this.logger.log(`查询整体任务状态统计 [schemeId: ${schemeId}]`);
 
     // 查询所有任务的状态
     const tasks = await this.prisma.sys_tts_task.findMany({
       where: { scheme_id: BigInt(schemeId) },
-      select: { status: true },
+      select: { status: true, cache_hit: true, qa_status: true },
     });
 
     if (!tasks.length) {
@@ -612,6 +1650,7 @@ export class TtsTaskService {
     let successCount = 0;
     let failedCount = 0;
     let unfinishedCount = 0;
+    let cancelledCount = 0;
 
     for (const task of tasks) {
       switch (task.status) {
@@ -621,6 +1660,9 @@ export class TtsTaskService {
         case TaskStatus.FAILED:
           failedCount++;
           break;
+        case TaskStatus.CANCELLED:
+          cancelledCount++;
+          break;
         default:
           unfinishedCount++;
           break;
@@ -628,9 +1670,11 @@ export class TtsTaskService {
     }
 
     // 确定整体状态
-    let overallStatus: 'unfinished' | 'failed' | 'success';
+    let overallStatus: 'unfinished' | 'failed' | 'success' | 'cancelled';
     if (unfinishedCount > 0) {
       overallStatus = 'unfinished'; // 有待处理任务
+    } else if (cancelledCount > 0) {
+      overallStatus = 'cancelled'; // 没有待处理但有已取消任务
     } else if (failedCount > 0) {
       overallStatus = 'failed'; // 没有待处理但有失败任务
     } else {
@@ -641,16 +1685,30 @@ export class TtsTaskService {
       success: successCount,
       failed: failedCount,
       unfinished: unfinishedCount,
+      cancelled: cancelledCount,
       total: tasks.length,
+      cacheHits: tasks.filter((task) => task.cache_hit).length,
+      qaSuspicious: tasks.filter(
+        (task) => task.qa_status === QaStatus.SUSPICIOUS,
+      ).length,
     };
 
     this.logger.log(
       `方案状态统计 [schemeId: ${schemeId}] - 整体状态: ${overallStatus}, ${JSON.stringify(statusStats)}`,
     );
 
+    // 查询整个方案拼接后的旁白音频
+    const scheme = await this.prisma.sys_generate_scheme_manage.findUnique({
+      where: { id: schemeId },
+      select: { audio_url: true },
+    });
+
     return {
       overall: overallStatus,
       stats: statusStats,
+      schemeAudioUrl: scheme?.audio_url || null,
+      timing: await this.getTimingReport(schemeId),
+      charge: await this.ttsBillingService.getSchemeCharge(schemeId),
     };
   }
 
@@ -668,64 +1726,121 @@ export class TtsTaskService {
     voiceName: string,
     provider: string,
   ) {
-    this.logger.log(
-      `开始重试失败任务 [schemeId: ${schemeId}, 任务数量: ${failedIndexes.length}]`,
-    );
+    return this.ttsSchemeLockService.withLock(Number(schemeId), async () => {
+      this.logger.log(
+        `开始重试失败任务 [schemeId: ${schemeId}, 任务数量: ${failedIndexes.length}]`,
+      );
 
-    let retriedCount = 0;
+      await this.assertSchemeNotCancelled(schemeId);
 
-    for (const { schemeIndex, segmentKey } of failedIndexes) {
-      try {
-        // 使用 upsert 操作：存在则更新，不存在则创建
-        const task = await this.prisma.sys_tts_task.upsert({
-          where: {
-            scheme_id_scheme_index_segment_key: {
-              scheme_id: schemeId,
-              scheme_index: schemeIndex,
-              segment_key: segmentKey,
-            },
-          },
-          update: {
-            status: TaskStatus.PENDING, // 重置为待处理状态
-            retry_count: { increment: 1 }, // 增加重试次数
-            audio_url: null, // 清空音频 URL
-            error_log: null, // 清空错误日志
-          },
-          create: {
-            scheme_id: schemeId,
+      // 提前校验语音，避免每个任务逐个失败
+      this.resolveSynthesisOptions(voiceName, provider, {});
+
+      // 按重试片段的文本预扣积分，余额不足时拒绝重试
+      const retryTasks = await this.prisma.sys_tts_task.findMany({
+        where: {
+          scheme_id: schemeId,
+          OR: failedIndexes.map(({ schemeIndex, segmentKey }) => ({
             scheme_index: schemeIndex,
             segment_key: segmentKey,
-            text_content: '', // 如果原来不存在，创建一个空的占位任务
-            status: TaskStatus.PENDING,
-            retry_count: 1,
-          },
-        });
+          })),
+        },
+        select: { text_content: true },
+      });
+      const { points } = this.ttsBillingService.estimate(
+        retryTasks.map((task) => task.text_content),
+        provider,
+      );
+      await this.ttsBillingService.holdPoints(schemeId, points);
 
-        // 重新将任务加入处理队列
-        await this.ttsQueue.add('generateAudio', {
-          taskId: task.id.toString(),
-          text: task.text_content,
-          schemeId,
-          schemeIndex,
-          segmentKey,
-          voiceName,
-          provider,
-        });
+      let retriedCount = 0;
 
-        retriedCount++;
-        this.logger.log(
-          `已重试任务 [taskId: ${task.id}, index: ${schemeIndex}, key: ${segmentKey}]`,
-        );
-      } catch (error) {
-        this.logger.error(
-          `重试任务失败 [schemeId: ${schemeId}, index: ${schemeIndex}, key: ${segmentKey}]`,
-          error,
-        );
-        // 继续处理其他任务，不因为单个失败而中断整个重试流程
+      for (const { schemeIndex, segmentKey } of failedIndexes) {
+        try {
+          // 使用 upsert 操作：存在则更新，不存在则创建
+          const task = await this.ttsSchemeLockService.transaction(
+            schemeId,
+            (tx) =>
+              tx.sys_tts_task.upsert({
+                where: {
+                  scheme_id_scheme_index_segment_key: {
+                    scheme_id: schemeId,
+                    scheme_index: schemeIndex,
+                    segment_key: segmentKey,
+                  },
+                },
+                update: {
+                  status: TaskStatus.PENDING, // 重置为待处理状态
+                  retry_count: { increment: 1 }, // 增加重试次数
+                  audio_url: null, // 清空音频 URL
+                  master_audio_url: null,
+                  qa_status: null,
+                  qa_reason: null,
+                  billed_characters: null,
+                  cache_hit: false,
+                  error_log: null, // 清空错误日志
+                },
+                create: {
+                  scheme_id: schemeId,
+                  scheme_index: schemeIndex,
+                  segment_key: segmentKey,
+                  text_content: '', // 如果原来不存在，创建一个空的占位任务
+                  status: TaskStatus.PENDING,
+                  retry_count: 1,
+                },
+              }),
+          );
+
+          // 重新将任务加入处理队列，沿用任务上保存的合成参数
+          await this.addJob(
+            {
+              taskId: task.id.toString(),
+              text: task.text_content,
+              schemeId,
+              schemeIndex,
+              segmentKey,
+              voiceName,
+              provider,
+              ...this.resolveSynthesisOptions(
+                voiceName,
+                provider,
+                task.tts_model === provider
+                  ? this.taskSynthesisOptions(task)
+                  : {
+                      volume: task.volume ?? undefined,
+                      emotion: (task.emotion as TtsEmotion | null) ?? undefined,
+                    },
+              ),
+            },
+            TtsJobPriority.INTERACTIVE,
+          );
+
+          retriedCount++;
+          this.logger.log(
+            `已重试任务 [taskId: ${task.id}, index: ${schemeIndex}, key: ${segmentKey}]`,
+          );
+        } catch (error) {
+          this.logger.error(
+            `重试任务失败 [schemeId: ${schemeId}, index: ${schemeIndex}, key: ${segmentKey}]`,
+            error,
+          );
+          // 继续处理其他任务，不因为单个失败而中断整个重试流程
+        }
       }
-    }
 
-    this.logger.log(`成功重试 ${retriedCount} 个任务 [schemeId: ${schemeId}]`);
-    return { retried: retriedCount };
+      // 方案重新进入处理中，任务全部结束后再次汇总；全部重试失败时退还预扣积分
+      if (retriedCount > 0) {
+        await this.ttsSchemeLockService.updateScheme(Number(schemeId), {
+          tts_task_state: SchemeState.PROCESSING,
+        });
+      } else {
+        await this.ttsBillingService.releasePoints(schemeId, points);
+      }
+
+      this.logger.log(
+        `成功重试 ${retriedCount} 个任务 [schemeId: ${schemeId}]`,
+      );
+      return { retried: retriedCount };
+    });
   }
 }
@@ -1,4 +1,6 @@
 import { sys_tts_task_segment_key } from '@prisma/client';
+import { TtsJobPriority } from '../tts.constants';
+import { TtsEmotion } from '../../chat/chat.constants';
 
 export interface TtsJobData {
   taskId: string;
@@ -8,6 +10,46 @@ export interface TtsJobData {
   segmentKey: sys_tts_task_segment_key;
   voiceName: string;
   provider: string;
+  speed?: number; // 语速倍率，用于时长超出时重新合成
+  languageCode?: string; // 语言代码（VertexAI）
+  pitch?: number; // 音调（半音）
+  volume?: number; // 音量倍率，1 为正常音量
+  emotion?: TtsEmotion; // 朗读情绪
+  attemptedProviders?: string[]; // 已重试耗尽的提供商，用于降级
+  requested?: TtsRequestedVoice; // 降级前请求的提供商和语音，用于计算片段的合成签名
+  owner?: string; // 公平调度的归属（方案所属用户，无用户时为方案）
+  priorityBand?: TtsJobPriority; // 优先级档位，降级重新入队时沿用
+}
+
+/** 创建任务时请求的提供商和语音，降级切换提供商后仍保持不变 */
+export interface TtsRequestedVoice {
+  provider: string;
+  voiceName: string;
+  languageCode?: string;
+}
+
+/** 任务级语音合成参数，随任务保存并传递给提供商 */
+export type TtsSynthesisOptions = Pick<
+  TtsJobData,
+  'speed' | 'languageCode' | 'pitch' | 'volume' | 'emotion'
+>;
+
+/** 朗读风格，创建任务时作为方案默认值，也可按片段覆盖 */
+export type TtsVoiceStyle = Pick<
+  TtsJobData,
+  'speed' | 'pitch' | 'volume' | 'emotion'
+>;
+
+/** 创建任务时的方案项 */
+export interface TtsSchemeItemInput {
+  translation: Record<sys_tts_task_segment_key, string>;
+  styles?: Partial<Record<sys_tts_task_segment_key, TtsVoiceStyle>>; // 片段级朗读风格，覆盖方案默认值
+}
+
+/** 方案的角色语音映射，保存在方案的 tts_role_voices 字段 */
+export interface SchemeRoleVoices {
+  provider: string; // 映射中语音名称所属的提供商
+  voices: Record<string, string>; // 角色名 -> 语音名称
 }
 
 export interface VideoScript {
@@ -38,5 +80,70 @@ export interface DownloadContent {
     endAudioUrl: string;
     middleAudioUrl: string;
   };
+  mergedAudioUrl?: string; // begin/middle/end 拼接后的完整旁白
+  subtitleUrl?: SubtitleUrl; // 与完整旁白对齐的字幕文件
   schemeContent: VideoScript;
 }
+
+export interface SubtitleUrl {
+  translationSrt: string;
+  translationVtt: string;
+  chineseNarrationSrt: string;
+  chineseNarrationVtt: string;
+}
+
+/** 片段音频地址 */
+export interface SegmentAudio {
+  schemeIndex: number; // 方案索引
+  segmentKey: sys_tts_task_segment_key; // 片段键值
+  audioUrl: string; // 音频文件 URL
+}
+
+/** TTS 进度事件类型 */
+export type TtsProgressEventType =
+  | 'queued' // 已加入队列
+  | 'started' // 开始合成
+  | 'succeeded' // 片段生成成功
+  | 'failed' // 片段生成失败
+  | 'finished'; // 方案全部完成（成功、失败或取消）
+
+/** TTS 进度事件，通过 SSE 推送给前端 */
+export interface TtsProgressEvent {
+  type: TtsProgressEventType;
+  schemeId: number;
+  taskId?: string;
+  schemeIndex?: number;
+  segmentKey?: sys_tts_task_segment_key;
+  provider?: string;
+  audioUrl?: string; // succeeded: 片段音频，finished: 整个方案的旁白音频
+  error?: string;
+  willRetry?: boolean; // failed: 是否还会重试或降级
+  state?: number; // finished: 方案最终状态（SchemeState）
+  timestamp: number;
+}
+
+export interface TtsWebhookJobData {
+  deliveryId: string;
+}
+
+/** 方案 TTS 完成回调内容 */
+export interface TtsWebhookPayload {
+  event: 'tts.finished';
+  schemeId: number;
+  state: number; // 方案最终状态（SchemeState）
+  status: 'success' | 'failed';
+  stats: {
+    success: number;
+    failed: number;
+    total: number;
+  };
+  schemeAudioUrl: string | null;
+  segments: {
+    schemeIndex: number;
+    segmentKey: sys_tts_task_segment_key;
+    status: number;
+    audioUrl: string | null;
+    durationMs: number | null;
+  }[];
+  timestamp: number;
+}
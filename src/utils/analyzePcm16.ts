@@ -0,0 +1,38 @@
+/** 视为削波的样本幅度 */
+const CLIP_LEVEL = 32767;
+
+/** 16 位 PCM 的电平统计 */
+export interface Pcm16Levels {
+  rmsDb: number; // 整段 RMS（dBFS），全静音时为 -Infinity
+  peakDb: number; // 峰值（dBFS），全静音时为 -Infinity
+  clippedRatio: number; // 达到满幅的样本占比
+}
+
+/**
+ * 统计 16 位 PCM 的 RMS、峰值和削波样本占比
+ * @param pcm 16 位小端 PCM 数据
+ * @returns 电平统计，数据为空时各项按静音返回
+ */
+export function analyzePcm16(pcm: Buffer): Pcm16Levels {
+  const sampleCount = Math.floor(pcm.length / 2);
+  if (!sampleCount) {
+    return { rmsDb: -Infinity, peakDb: -Infinity, clippedRatio: 0 };
+  }
+
+  let sum = 0;
+  let peak = 0;
+  let clipped = 0;
+  for (let offset = 0; offset + 1 < pcm.length; offset += 2) {
+    const sample = pcm.readInt16LE(offset);
+    const level = Math.abs(sample);
+    sum += sample * sample;
+    peak = Math.max(peak, level);
+    if (level >= CLIP_LEVEL) clipped++;
+  }
+
+  return {
+    rmsDb: 20 * Math.log10(Math.sqrt(sum / sampleCount) / 32768),
+    peakDb: 20 * Math.log10(peak / 32768),
+    clippedRatio: clipped / sampleCount,
+  };
+}
@@ -0,0 +1,34 @@
+import { assertPublicUrl } from './assertPublicUrl';
+
+describe('assertPublicUrl', () => {
+  it('accepts https urls of public addresses', async () => {
+    await expect(
+      assertPublicUrl('https://8.8.8.8/hooks/tts'),
+    ).resolves.toBeUndefined();
+    await expect(
+      assertPublicUrl('https://[2001:4860:4860::8888]/hooks'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('rejects plain http', async () => {
+    await expect(assertPublicUrl('http://8.8.8.8/hooks')).rejects.toThrow(
+      '回调地址必须使用 https',
+    );
+  });
+
+  it.each([
+    'https://127.0.0.1/hooks',
+    'https://localhost/hooks',
+    'https://10.1.2.3/hooks',
+    'https://172.20.0.1/hooks',
+    'https://192.168.1.1/hooks',
+    'https://169.254.169.254/latest/meta-data',
+    'https://0.0.0.0/hooks',
+    'https://[::1]/hooks',
+    'https://[fd00::1]/hooks',
+    'https://[fe80::1]/hooks',
+    'https://[::ffff:192.168.1.1]/hooks',
+  ])('rejects %s', async (url) => {
+    await expect(assertPublicUrl(url)).rejects.toThrow('指向内网或保留地址');
+  });
+});
@@ -0,0 +1,48 @@
+import { lookup } from 'dns/promises';
+import { BlockList } from 'net';
+
+/** 内网、回环、链路本地、组播等不允许回调访问的保留网段 */
+const RESERVED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  RESERVED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  RESERVED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * 校验用户指定的回调地址：只允许 https，且主机的所有解析结果都是公网地址，
+ * 避免回调被用来访问内网服务（SSRF）。IPv4 映射的 IPv6 地址按其 IPv4 地址判断
+ * @param url 回调地址
+ * @throws Error 协议不是 https，或主机解析到保留地址
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== 'https:') {
+    throw new Error(`回调地址必须使用 https：${url}`);
+  }
+
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = await lookup(host, { all: true });
+  for (const { address, family } of addresses) {
+    if (RESERVED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')) {
+      throw new Error(`回调地址 ${hostname} 指向内网或保留地址 ${address}`);
+    }
+  }
+}
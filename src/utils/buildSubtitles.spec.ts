@@ -0,0 +1,103 @@
+import {
+  buildCues,
+  formatSrt,
+  formatVtt,
+  splitSentences,
+} from './buildSubtitles';
+
+describe('splitSentences', () => {
+  it('splits after sentence punctuation', () => {
+    expect(splitSentences('天黑了。他走了！去哪？')).toEqual([
+      '天黑了。',
+      '他走了！',
+      '去哪？',
+    ]);
+  });
+
+  it('keeps closing quotes after punctuation in the sentence', () => {
+    expect(splitSentences('他说：“走吧。”门开了。')).toEqual([
+      '他说：“走吧。”',
+      '门开了。',
+    ]);
+  });
+
+  it('does not split runs of punctuation', () => {
+    expect(splitSentences('真的吗？！不会吧……好。')).toEqual([
+      '真的吗？！',
+      '不会吧……',
+      '好。',
+    ]);
+  });
+
+  it('does not split decimals', () => {
+    expect(
+      splitSentences('The price rose 2.5 percent. It fell later.'),
+    ).toEqual(['The price rose 2.5 percent.', 'It fell later.']);
+  });
+
+  it('splits English sentences ending in a quote', () => {
+    expect(splitSentences('He said "go." Then he left.')).toEqual([
+      'He said "go."',
+      'Then he left.',
+    ]);
+  });
+
+  it('splits at line breaks and drops empty lines', () => {
+    expect(splitSentences('第一行\n\n第二行\n')).toEqual(['第一行', '第二行']);
+  });
+});
+
+describe('buildCues', () => {
+  it('allocates duration by character count from the start offset', () => {
+    expect(buildCues('一二。三四五六七。', 1000, 900)).toEqual([
+      { start: 1000, end: 1300, text: '一二。' },
+      { start: 1300, end: 1900, text: '三四五六七。' },
+    ]);
+  });
+
+  it('rounds from the running total so the last cue ends exactly', () => {
+    const cues = buildCues('一。二。三。', 0, 1000);
+
+    expect(cues.map((cue) => [cue.start, cue.end])).toEqual([
+      [0, 333],
+      [333, 667],
+      [667, 1000],
+    ]);
+  });
+
+  it('ignores whitespace when counting characters', () => {
+    const cues = buildCues('A b. Cd.', 0, 600);
+
+    expect(cues.map((cue) => cue.end)).toEqual([300, 600]);
+  });
+
+  it('returns no cues for blank text', () => {
+    expect(buildCues('  \n ', 0, 1000)).toEqual([]);
+  });
+});
+
+describe('formatSrt', () => {
+  it('numbers cues and uses a comma before milliseconds', () => {
+    expect(
+      formatSrt([
+        { start: 0, end: 999, text: '第一句' },
+        { start: 3599999, end: 3600000, text: '第二句' },
+      ]),
+    ).toBe(
+      '1\n00:00:00,000 --> 00:00:00,999\n第一句\n\n' +
+        '2\n00:59:59,999 --> 01:00:00,000\n第二句\n',
+    );
+  });
+});
+
+describe('formatVtt', () => {
+  it('adds the header and uses a dot before milliseconds', () => {
+    expect(formatVtt([{ start: 61001, end: 36061050, text: '你好' }])).toBe(
+      'WEBVTT\n\n00:01:01.001 --> 10:01:01.050\n你好\n',
+    );
+  });
+
+  it('outputs only the header without cues', () => {
+    expect(formatVtt([])).toBe('WEBVTT\n\n');
+  });
+});
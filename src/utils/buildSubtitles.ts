@@ -0,0 +1,101 @@
+/**
+ * 字幕条目
+ */
+export interface SubtitleCue {
+  start: number; // 开始时间（毫秒）
+  end: number; // 结束时间（毫秒）
+  text: string; // 字幕文本
+}
+
+/**
+ * 按标点将文本切分为句子，句末标点保留在句子中
+ * @param text 原始文本
+ */
+export function splitSentences(text: string): string[] {
+  // 在句末标点（含其后的右引号/右括号）之后切分；英文句点只在其后有空白时切分，避免误切小数
+  const boundary =
+    /(?<=[。！？!?；;…]["”’」』)）]*)(?![。！？!?；;…"”’」』)）])|(?<=\.["”’)]*)\s+|\n+/;
+  return text
+    .split(boundary)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+/**
+ * 统计用于分配时长的字符数（忽略空白）
+ */
+function countChars(text: string): number {
+  return text.replace(/\s/g, '').length;
+}
+
+/**
+ * 将一段文本切分为句子级字幕，按字符数比例分配音频时长
+ * @param text 文本内容
+ * @param startMs 该段音频在时间轴上的开始时间（毫秒）
+ * @param durationMs 该段音频时长（毫秒）
+ */
+export function buildCues(
+  text: string,
+  startMs: number,
+  durationMs: number,
+): SubtitleCue[] {
+  const sentences = splitSentences(text);
+  const totalChars = sentences.reduce((sum, s) => sum + countChars(s), 0);
+  if (!sentences.length || !totalChars) return [];
+
+  const cues: SubtitleCue[] = [];
+  let cursor = startMs;
+  let consumedChars = 0;
+
+  for (const sentence of sentences) {
+    consumedChars += countChars(sentence);
+    // 用累计字符数计算结束时间，避免舍入误差累积
+    const end = startMs + Math.round((durationMs * consumedChars) / totalChars);
+    cues.push({ start: cursor, end, text: sentence });
+    cursor = end;
+  }
+
+  return cues;
+}
+
+/**
+ * 格式化时间戳
+ * @param ms 毫秒
+ * @param separator 毫秒分隔符（SRT 为逗号，VTT 为点）
+ */
+function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, '0');
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  const millis = ms % 1000;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+/**
+ * 生成 SRT 字幕内容
+ * @param cues 字幕条目
+ */
+export function formatSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`,
+    )
+    .join('\n');
+}
+
+/**
+ * 生成 WebVTT 字幕内容
+ * @param cues 字幕条目
+ */
+export function formatVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map(
+      (cue) =>
+        `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`,
+    )
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
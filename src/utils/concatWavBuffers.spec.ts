@@ -0,0 +1,43 @@
+import { concatWavBuffers } from './concatWavBuffers';
+import { parseWavBuffer } from './parseWavBuffer';
+import { pcmToWavBuffer } from './pcmToWavBuffer';
+
+describe('concatWavBuffers', () => {
+  it('joins clips with silence in between', async () => {
+    const first = await pcmToWavBuffer(Buffer.alloc(4800, 1), 1, 24000);
+    const second = await pcmToWavBuffer(Buffer.alloc(2400, 1), 1, 24000);
+
+    const result = parseWavBuffer(await concatWavBuffers([first, second], 100));
+
+    expect(result.sampleRate).toBe(24000);
+    expect(result.channels).toBe(1);
+    expect(result.pcm.length).toBe(4800 + 4800 + 2400);
+    expect(result.pcm.subarray(4800, 9600).every((byte) => byte === 0)).toBe(
+      true,
+    );
+    expect(result.durationMs).toBe(250);
+  });
+
+  it('resamples later clips to the format of the first clip', async () => {
+    const first = await pcmToWavBuffer(Buffer.alloc(4800), 1, 24000);
+    const second = await pcmToWavBuffer(Buffer.alloc(19200), 2, 48000);
+
+    const result = parseWavBuffer(await concatWavBuffers([first, second]));
+
+    expect(result.sampleRate).toBe(24000);
+    expect(result.channels).toBe(1);
+    expect(result.durationMs).toBe(200);
+  });
+
+  it('rejects an empty list', async () => {
+    await expect(concatWavBuffers([])).rejects.toThrow('没有可拼接的音频');
+  });
+
+  it('rejects clips that are not 16-bit', async () => {
+    const clip = await pcmToWavBuffer(Buffer.alloc(100), 1, 24000, 1);
+
+    await expect(concatWavBuffers([clip])).rejects.toThrow(
+      '暂不支持 8 位音频拼接',
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { parseWavBuffer } from './parseWavBuffer';
+import { pcmToWavBuffer } from './pcmToWavBuffer';
+import { resamplePcm16 } from './resamplePcm16';
+
+/**
+ * 按顺序拼接多个 WAV 文件，片段之间插入静音
+ * 输出格式以第一个片段为准，其余片段自动重采样
+ * @param buffers WAV 文件内容列表
+ * @param silenceMs 片段之间的静音时长（毫秒）
+ */
+export async function concatWavBuffers(
+  buffers: Buffer[],
+  silenceMs = 0,
+): Promise<Buffer> {
+  if (!buffers.length) {
+    throw new Error('没有可拼接的音频');
+  }
+
+  const clips = buffers.map((buffer) => parseWavBuffer(buffer));
+  const { sampleRate, channels } = clips[0];
+
+  const unsupported = clips.find((clip) => clip.bitDepth !== 16);
+  if (unsupported) {
+    throw new Error(`暂不支持 ${unsupported.bitDepth} 位音频拼接`);
+  }
+
+  const silenceFrames = Math.round((sampleRate * silenceMs) / 1000);
+  const silence = Buffer.alloc(silenceFrames * channels * 2);
+
+  const parts: Buffer[] = [];
+  clips.forEach((clip, index) => {
+    if (index > 0 && silence.length) {
+      parts.push(silence);
+    }
+    parts.push(
+      resamplePcm16(
+        clip.pcm,
+        clip.sampleRate,
+        sampleRate,
+        clip.channels,
+        channels,
+      ),
+    );
+  });
+
+  return pcmToWavBuffer(Buffer.concat(parts), channels, sampleRate, 2);
+}
@@ -0,0 +1,55 @@
+import { encodeAudio, toAudioFormat, withAudioExtension } from './encodeAudio';
+import { pcmToWavBuffer } from './pcmToWavBuffer';
+
+jest.mock('../config/config', () => ({
+  env: { TTS_MP3_BITRATE_KBPS: 128, TTS_OPUS_BITRATE_KBPS: 48 },
+}));
+
+describe('encodeAudio', () => {
+  it('returns WAV input unchanged', async () => {
+    const wav = await pcmToWavBuffer(Buffer.alloc(4800), 1, 24000);
+
+    expect(await encodeAudio(wav, 'wav')).toBe(wav);
+  });
+
+  it('encodes MP3 starting with a frame sync', async () => {
+    const wav = await pcmToWavBuffer(Buffer.alloc(48000), 1, 24000);
+    const mp3 = await encodeAudio(wav, 'mp3');
+
+    expect(mp3[0]).toBe(0xff);
+    expect(mp3[1] & 0xe0).toBe(0xe0);
+  });
+
+  it('encodes Opus in an Ogg container', async () => {
+    const wav = await pcmToWavBuffer(Buffer.alloc(48000), 1, 24000);
+    const ogg = await encodeAudio(wav, 'opus');
+
+    expect(ogg.toString('ascii', 0, 4)).toBe('OggS');
+    expect(ogg.toString('ascii', 28, 36)).toBe('OpusHead');
+  });
+
+  it('rejects audio that is not 16-bit', async () => {
+    const wav = await pcmToWavBuffer(Buffer.alloc(100), 1, 24000, 1);
+
+    await expect(encodeAudio(wav, 'mp3')).rejects.toThrow(
+      '暂不支持将 8 位音频编码为 mp3',
+    );
+  });
+});
+
+describe('toAudioFormat', () => {
+  it('falls back to wav for missing or unknown formats', () => {
+    expect(toAudioFormat('mp3')).toBe('mp3');
+    expect(toAudioFormat(null)).toBe('wav');
+    expect(toAudioFormat('flac')).toBe('wav');
+  });
+});
+
+describe('withAudioExtension', () => {
+  it('replaces the extension with the one of the format', () => {
+    expect(withAudioExtension('tts/a.b/clip.wav', 'opus')).toBe(
+      'tts/a.b/clip.ogg',
+    );
+    expect(withAudioExtension('clip', 'mp3')).toBe('clip.mp3');
+  });
+});
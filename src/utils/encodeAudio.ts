@@ -0,0 +1,56 @@
+import { env } from '../config/config';
+import { parseWavBuffer } from './parseWavBuffer';
+import { encodeMp3, Mp3Bitrate } from './encodeMp3';
+import { encodeOggOpus } from './encodeOggOpus';
+
+/** 支持的输出音频格式 */
+export const AUDIO_FORMATS = {
+  wav: { extension: 'wav', contentType: 'audio/wav' },
+  mp3: { extension: 'mp3', contentType: 'audio/mpeg' },
+  opus: { extension: 'ogg', contentType: 'audio/ogg' },
+} as const;
+
+export type AudioFormat = keyof typeof AUDIO_FORMATS;
+
+/**
+ * 将保存的格式名转换为音频格式，未设置或无法识别时为 wav
+ * @param value 格式名
+ */
+export function toAudioFormat(value: string | null | undefined): AudioFormat {
+  return value && value in AUDIO_FORMATS ? (value as AudioFormat) : 'wav';
+}
+
+/**
+ * 将 WAV 编码为指定格式，wav 格式原样返回
+ * 码率取自 TTS_MP3_BITRATE_KBPS / TTS_OPUS_BITRATE_KBPS
+ * @param wavBuffer 16 位 WAV 数据
+ * @param format 输出格式
+ */
+export async function encodeAudio(
+  wavBuffer: Buffer,
+  format: AudioFormat,
+): Promise<Buffer> {
+  if (format === 'wav') return wavBuffer;
+
+  const wav = parseWavBuffer(wavBuffer);
+  if (wav.bitDepth !== 16) {
+    throw new Error(`暂不支持将 ${wav.bitDepth} 位音频编码为 ${format}`);
+  }
+
+  return format === 'mp3'
+    ? encodeMp3(wav, env.TTS_MP3_BITRATE_KBPS as Mp3Bitrate)
+    : encodeOggOpus(wav, env.TTS_OPUS_BITRATE_KBPS);
+}
+
+/**
+ * 将文件名的扩展名替换为输出格式对应的扩展名
+ * @param fileName 文件名
+ * @param format 输出格式
+ */
+export function withAudioExtension(
+  fileName: string,
+  format: AudioFormat,
+): string {
+  const baseName = fileName.replace(/\.[^./]+$/, '');
+  return `${baseName}.${AUDIO_FORMATS[format].extension}`;
+}
@@ -0,0 +1,69 @@
+import { encodeMp3 } from './encodeMp3';
+import { WavData } from './parseWavBuffer';
+
+/** MPEG-1 Layer III 的码率表（kbps），按帧头中的码率索引 */
+const BITRATES = [
+  0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320,
+];
+
+/** MPEG-1 的采样率表，按帧头中的采样率索引 */
+const SAMPLE_RATES = [44100, 48000, 32000];
+
+function buildWav(seconds: number, sampleRate: number, channels = 1): WavData {
+  const frameCount = Math.round(seconds * sampleRate);
+  const pcm = Buffer.alloc(frameCount * channels * 2);
+  for (let i = 0; i < frameCount * channels; i++) {
+    pcm.writeInt16LE(Math.round(8000 * Math.sin(i / 10)), i * 2);
+  }
+  return {
+    channels,
+    sampleRate,
+    bitDepth: 16,
+    pcm,
+    durationMs: seconds * 1000,
+  };
+}
+
+/** 解析 MP3 第一帧的帧头 */
+function readFrameHeader(data: Buffer) {
+  const header = data.readUInt32BE(0);
+  return {
+    sync: header >>> 21,
+    version: (header >>> 19) & 0b11,
+    layer: (header >>> 17) & 0b11,
+    bitrate: BITRATES[(header >>> 12) & 0b1111],
+    sampleRate: SAMPLE_RATES[(header >>> 10) & 0b11],
+    mono: ((header >>> 6) & 0b11) === 0b11,
+  };
+}
+
+describe('encodeMp3', () => {
+  it('starts with an MPEG-1 Layer III frame at the requested bitrate', async () => {
+    const mp3 = await encodeMp3(buildWav(1, 48000), 128);
+
+    expect(readFrameHeader(mp3)).toEqual({
+      sync: 0x7ff,
+      version: 0b11,
+      layer: 0b01,
+      bitrate: 128,
+      sampleRate: 48000,
+      mono: true,
+    });
+  });
+
+  it('produces a constant bitrate stream of the expected size', async () => {
+    const mp3 = await encodeMp3(buildWav(2, 44100), 64);
+
+    // 64kbps 下每秒约 8000 字节，允许编码器延迟和首尾帧的误差
+    expect(mp3.length).toBeGreaterThan(15000);
+    expect(mp3.length).toBeLessThan(18000);
+  });
+
+  it('keeps stereo and mixes more channels down to mono', async () => {
+    const stereo = await encodeMp3(buildWav(0.5, 44100, 2));
+    const surround = await encodeMp3(buildWav(0.5, 44100, 6));
+
+    expect(readFrameHeader(stereo).mono).toBe(false);
+    expect(readFrameHeader(surround).mono).toBe(true);
+  });
+});
@@ -0,0 +1,56 @@
+import { createMp3Encoder } from 'wasm-media-encoders';
+import { WavData } from './parseWavBuffer';
+import { resamplePcm16 } from './resamplePcm16';
+
+/** LAME 支持的恒定码率（kbps） */
+export type Mp3Bitrate = 64 | 96 | 128 | 160 | 192 | 256 | 320;
+
+/** 每次送入编码器的帧数 */
+const ENCODE_FRAMES = 4608;
+
+/**
+ * 将 16 位 PCM 编码为 MP3（恒定码率）
+ * 超过两个声道时混音为单声道
+ * @param wav 解析后的 WAV 数据
+ * @param bitrateKbps 码率
+ */
+export async function encodeMp3(
+  wav: WavData,
+  bitrateKbps: Mp3Bitrate = 128,
+): Promise<Buffer> {
+  const channels = wav.channels > 2 ? 1 : wav.channels;
+  const pcm = resamplePcm16(
+    wav.pcm,
+    wav.sampleRate,
+    wav.sampleRate,
+    wav.channels,
+    channels,
+  );
+
+  const encoder = await createMp3Encoder();
+  encoder.configure({
+    sampleRate: wav.sampleRate,
+    channels: channels as 1 | 2,
+    bitrate: bitrateKbps,
+  });
+
+  const frameCount = Math.floor(pcm.length / (channels * 2));
+  const parts: Buffer[] = [];
+  for (let start = 0; start < frameCount; start += ENCODE_FRAMES) {
+    const end = Math.min(start + ENCODE_FRAMES, frameCount);
+    const samples = Array.from(
+      { length: channels },
+      () => new Float32Array(end - start),
+    );
+    for (let i = start; i < end; i++) {
+      for (let c = 0; c < channels; c++) {
+        samples[c][i - start] = pcm.readInt16LE((i * channels + c) * 2) / 32768;
+      }
+    }
+    // 编码器返回的是 WASM 内存视图，下次调用前需要复制出来
+    parts.push(Buffer.from(encoder.encode(samples)));
+  }
+  parts.push(Buffer.from(encoder.finalize()));
+
+  return Buffer.concat(parts);
+}
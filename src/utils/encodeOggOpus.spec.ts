@@ -0,0 +1,117 @@
+import { encodeOggOpus } from './encodeOggOpus';
+import { WavData } from './parseWavBuffer';
+
+/** 解析后的 Ogg 页 */
+interface OggPage {
+  flags: number;
+  granule: bigint;
+  serial: number;
+  sequence: number;
+  crcValid: boolean;
+  packets: Buffer[];
+}
+
+/** 按 Ogg 规范计算页校验和（多项式 0x04c11db7，初值 0，不反转） */
+function oggCrc(data: Buffer): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+  }
+  return crc >>> 0;
+}
+
+function parseOggPages(data: Buffer): OggPage[] {
+  const pages: OggPage[] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    expect(data.toString('ascii', offset, offset + 4)).toBe('OggS');
+    expect(data.readUInt8(offset + 4)).toBe(0);
+
+    const segments = data.readUInt8(offset + 26);
+    const lacing = [...data.subarray(offset + 27, offset + 27 + segments)];
+    const bodyStart = offset + 27 + segments;
+    const bodyLength = lacing.reduce((sum, value) => sum + value, 0);
+    const page = Buffer.from(data.subarray(offset, bodyStart + bodyLength));
+    const crc = page.readUInt32LE(22);
+    page.writeUInt32LE(0, 22);
+
+    const packets: Buffer[] = [];
+    let packetStart = bodyStart;
+    let packetLength = 0;
+    for (const value of lacing) {
+      packetLength += value;
+      if (value < 255) {
+        packets.push(data.subarray(packetStart, packetStart + packetLength));
+        packetStart += packetLength;
+        packetLength = 0;
+      }
+    }
+
+    pages.push({
+      flags: data.readUInt8(offset + 5),
+      granule: data.readBigInt64LE(offset + 6),
+      serial: data.readUInt32LE(offset + 14),
+      sequence: data.readUInt32LE(offset + 18),
+      crcValid: oggCrc(page) === crc,
+      packets,
+    });
+    offset = bodyStart + bodyLength;
+  }
+  return pages;
+}
+
+function buildWav(seconds: number, sampleRate: number, channels = 1): WavData {
+  const frameCount = Math.round(seconds * sampleRate);
+  const pcm = Buffer.alloc(frameCount * channels * 2);
+  for (let i = 0; i < frameCount * channels; i++) {
+    pcm.writeInt16LE(Math.round(8000 * Math.sin(i / 10)), i * 2);
+  }
+  return {
+    channels,
+    sampleRate,
+    bitDepth: 16,
+    pcm,
+    durationMs: seconds * 1000,
+  };
+}
+
+describe('encodeOggOpus', () => {
+  it('writes valid Ogg pages with Opus headers', () => {
+    const pages = parseOggPages(encodeOggOpus(buildWav(1, 24000)));
+
+    expect(pages.length).toBeGreaterThanOrEqual(3);
+    expect(pages.every((page) => page.crcValid)).toBe(true);
+    expect(pages.map((page) => page.sequence)).toEqual(
+      pages.map((_, index) => index),
+    );
+    expect(new Set(pages.map((page) => page.serial)).size).toBe(1);
+    expect(pages[0].flags).toBe(0x02);
+    expect(pages[pages.length - 1].flags).toBe(0x04);
+
+    const head = pages[0].packets[0];
+    expect(head.toString('ascii', 0, 8)).toBe('OpusHead');
+    expect(head.readUInt8(9)).toBe(1);
+    expect(head.readUInt32LE(12)).toBe(24000);
+    expect(pages[1].packets[0].toString('ascii', 0, 8)).toBe('OpusTags');
+  });
+
+  it('emits one 20ms packet per frame and ends at the exact granule', () => {
+    const pages = parseOggPages(encodeOggOpus(buildWav(1, 24000)));
+    const audioPackets = pages.slice(2).flatMap((page) => page.packets);
+
+    expect(audioPackets).toHaveLength(50);
+    expect(pages[pages.length - 1].granule).toBe(BigInt(312 + 48000));
+  });
+
+  it('resamples unsupported rates and keeps stereo', () => {
+    const pages = parseOggPages(encodeOggOpus(buildWav(0.5, 44100, 2)));
+    const head = pages[0].packets[0];
+
+    expect(head.readUInt8(9)).toBe(2);
+    expect(head.readUInt32LE(12)).toBe(44100);
+    expect(pages[pages.length - 1].granule).toBe(BigInt(312 + 24000));
+  });
+});
@@ -0,0 +1,181 @@
+// opusscript 以 export = 导出类，未开启 esModuleInterop 时只能用 import = require 引入
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+import OpusScript = require('opusscript');
+import { WavData } from './parseWavBuffer';
+import { resamplePcm16 } from './resamplePcm16';
+
+/** Opus 支持的输入采样率 */
+const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+
+/** 每帧时长（毫秒） */
+const FRAME_MS = 20;
+
+/** 编码器预读样本数（48kHz 下），解码时跳过 */
+const PRE_SKIP = 312;
+
+/** 单个 Ogg 页最多的分段数 */
+const MAX_PAGE_SEGMENTS = 255;
+
+/** Ogg 页 CRC 查找表（多项式 0x04c11db7，不反转） */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let j = 0; j < 8; j++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+function oggCrc(data: Buffer): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+/**
+ * 生成一个 Ogg 页
+ * @param packets 页内的数据包
+ * @param granule 页结束时的颗粒位置（48kHz 样本数）
+ * @param sequence 页序号
+ * @param flags 页标志：0x02 流开始，0x04 流结束
+ */
+function buildPage(
+  packets: Buffer[],
+  granule: number,
+  serial: number,
+  sequence: number,
+  flags: number,
+): Buffer {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    let remaining = packet.length;
+    while (remaining >= 255) {
+      lacing.push(255);
+      remaining -= 255;
+    }
+    lacing.push(remaining);
+  }
+
+  const header = Buffer.alloc(27 + lacing.length);
+  header.write('OggS', 0, 'ascii');
+  header.writeUInt8(0, 4);
+  header.writeUInt8(flags, 5);
+  header.writeBigInt64LE(BigInt(granule), 6);
+  header.writeUInt32LE(serial, 14);
+  header.writeUInt32LE(sequence, 18);
+  header.writeUInt8(lacing.length, 26);
+  lacing.forEach((value, index) => header.writeUInt8(value, 27 + index));
+
+  const page = Buffer.concat([header, ...packets]);
+  page.writeUInt32LE(oggCrc(page), 22);
+  return page;
+}
+
+/**
+ * 计算数据包占用的分段数
+ */
+function segmentCount(packet: Buffer): number {
+  return Math.floor(packet.length / 255) + 1;
+}
+
+/**
+ * 将 16 位 PCM 编码为 Ogg 封装的 Opus
+ * 采样率不受 Opus 支持时重采样到 48kHz，超过两个声道时混音为单声道
+ * @param wav 解析后的 WAV 数据
+ * @param bitrateKbps 码率
+ */
+export function encodeOggOpus(wav: WavData, bitrateKbps = 48): Buffer {
+  const sampleRate = OPUS_SAMPLE_RATES.includes(wav.sampleRate)
+    ? wav.sampleRate
+    : 48000;
+  const channels = wav.channels > 2 ? 1 : wav.channels;
+  const pcm = resamplePcm16(
+    wav.pcm,
+    wav.sampleRate,
+    sampleRate,
+    wav.channels,
+    channels,
+  );
+
+  const encoder = new OpusScript(
+    sampleRate as ConstructorParameters<typeof OpusScript>[0],
+    channels,
+    OpusScript.Application.AUDIO,
+  );
+  encoder.setBitrate(bitrateKbps * 1000);
+
+  const frameSize = (sampleRate * FRAME_MS) / 1000;
+  const frameBytes = frameSize * channels * 2;
+  const packets: Buffer[] = [];
+  try {
+    for (let offset = 0; offset < pcm.length; offset += frameBytes) {
+      let frame = pcm.subarray(offset, offset + frameBytes);
+      // 最后一帧不足时补静音
+      if (frame.length < frameBytes) {
+        frame = Buffer.concat([frame, Buffer.alloc(frameBytes - frame.length)]);
+      }
+      packets.push(Buffer.from(encoder.encode(frame, frameSize)));
+    }
+  } finally {
+    encoder.delete();
+  }
+
+  const serial = Math.floor(Math.random() * 0xffffffff);
+  const pages: Buffer[] = [];
+  let sequence = 0;
+
+  // 标识头 OpusHead
+  const head = Buffer.alloc(19);
+  head.write('OpusHead', 0, 'ascii');
+  head.writeUInt8(1, 8);
+  head.writeUInt8(channels, 9);
+  head.writeUInt16LE(PRE_SKIP, 10);
+  head.writeUInt32LE(wav.sampleRate, 12);
+  head.writeInt16LE(0, 16);
+  head.writeUInt8(0, 18);
+  pages.push(buildPage([head], 0, serial, sequence++, 0x02));
+
+  // 注释头 OpusTags
+  const vendor = Buffer.from('opusscript', 'utf8');
+  const tags = Buffer.alloc(8 + 4 + vendor.length + 4);
+  tags.write('OpusTags', 0, 'ascii');
+  tags.writeUInt32LE(vendor.length, 8);
+  vendor.copy(tags, 12);
+  tags.writeUInt32LE(0, 12 + vendor.length);
+  pages.push(buildPage([tags], 0, serial, sequence++, 0));
+
+  // 音频数据页，颗粒位置按 48kHz 计算，最后一页截掉补齐的静音
+  const samplesPerPacket = (48000 * FRAME_MS) / 1000;
+  const totalSamples =
+    PRE_SKIP + Math.round((pcm.length / (channels * 2)) * (48000 / sampleRate));
+  let pagePackets: Buffer[] = [];
+  let pageSegments = 0;
+  let granule = PRE_SKIP;
+
+  packets.forEach((packet, index) => {
+    if (pageSegments + segmentCount(packet) > MAX_PAGE_SEGMENTS) {
+      pages.push(buildPage(pagePackets, granule, serial, sequence++, 0));
+      pagePackets = [];
+      pageSegments = 0;
+    }
+    pagePackets.push(packet);
+    pageSegments += segmentCount(packet);
+    granule = PRE_SKIP + (index + 1) * samplesPerPacket;
+  });
+  pages.push(
+    buildPage(
+      pagePackets,
+      Math.min(granule, totalSamples),
+      serial,
+      sequence++,
+      0x04,
+    ),
+  );
+
+  return Buffer.concat(pages);
+}
@@ -0,0 +1,67 @@
+import { measureLoudness } from './measureLoudness';
+
+/**
+ * 生成 1kHz 正弦波的 16 位 PCM，指定声道有信号，其余声道静音
+ */
+function buildSine(
+  seconds: number,
+  sampleRate: number,
+  amplitude: number,
+  channels = 1,
+  activeChannels = channels,
+): Buffer {
+  const frameCount = Math.round(seconds * sampleRate);
+  const pcm = Buffer.alloc(frameCount * channels * 2);
+  for (let i = 0; i < frameCount; i++) {
+    const sample = Math.round(
+      amplitude * 32767 * Math.sin((2 * Math.PI * 1000 * i) / sampleRate),
+    );
+    for (let c = 0; c < activeChannels; c++) {
+      pcm.writeInt16LE(sample, (i * channels + c) * 2);
+    }
+  }
+  return pcm;
+}
+
+describe('measureLoudness', () => {
+  it('returns -Infinity for empty input', () => {
+    expect(measureLoudness(Buffer.alloc(0), 48000, 1)).toBe(-Infinity);
+  });
+
+  it('returns -Infinity for silence', () => {
+    expect(measureLoudness(Buffer.alloc(48000 * 2), 48000, 1)).toBe(-Infinity);
+  });
+
+  it('measures a full-scale 1kHz sine at about -3 LUFS', () => {
+    const loudness = measureLoudness(buildSine(2, 48000, 1), 48000, 1);
+
+    expect(loudness).toBeCloseTo(-3.01, 1);
+  });
+
+  it('drops by 6 LU when the amplitude halves', () => {
+    const full = measureLoudness(buildSine(2, 24000, 1), 24000, 1);
+    const half = measureLoudness(buildSine(2, 24000, 0.5), 24000, 1);
+
+    expect(full - half).toBeCloseTo(6.02, 1);
+  });
+
+  it('sums the power of every channel', () => {
+    const mono = measureLoudness(buildSine(2, 48000, 0.5), 48000, 1);
+    const stereo = measureLoudness(buildSine(2, 48000, 0.5, 2), 48000, 2);
+
+    expect(stereo - mono).toBeCloseTo(3.01, 1);
+  });
+
+  it('reads interleaved channels frame by frame', () => {
+    const mono = measureLoudness(buildSine(2, 48000, 0.5), 48000, 1);
+    const leftOnly = measureLoudness(buildSine(2, 48000, 0.5, 2, 1), 48000, 2);
+
+    expect(leftOnly).toBeCloseTo(mono, 5);
+  });
+
+  it('measures clips shorter than one gating block', () => {
+    const loudness = measureLoudness(buildSine(0.2, 48000, 1), 48000, 1);
+
+    expect(loudness).toBeCloseTo(-3.01, 0);
+  });
+});
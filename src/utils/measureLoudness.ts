@@ -0,0 +1,138 @@
+/**
+ * 双二阶滤波器系数（已按 a0 归一化）
+ */
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/** 门限块时长与步长（毫秒），对应 400ms 块、75% 重叠 */
+const BLOCK_MS = 400;
+const STEP_MS = 100;
+
+/** 绝对门限与相对门限（LUFS / LU） */
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+/**
+ * 按采样率计算 ITU-R BS.1770 的 K 加权滤波器（高架 + 高通）
+ * 48kHz 下与标准给出的系数一致，其余采样率按双线性变换推导
+ */
+function kWeightingFilters(sampleRate: number): Biquad[] {
+  // 高架滤波器：模拟头部声学效应
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  // 高通滤波器：RLB 加权
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  return [shelf, highPass];
+}
+
+/**
+ * 对单声道信号依次应用滤波器
+ */
+function applyFilters(signal: Float64Array, filters: Biquad[]): Float64Array {
+  let input = signal;
+  for (const { b0, b1, b2, a1, a2 } of filters) {
+    const output = new Float64Array(input.length);
+    let x1 = 0;
+    let x2 = 0;
+    let y1 = 0;
+    let y2 = 0;
+    for (let i = 0; i < input.length; i++) {
+      const x = input[i];
+      const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+      output[i] = y;
+      x2 = x1;
+      x1 = x;
+      y2 = y1;
+      y1 = y;
+    }
+    input = output;
+  }
+  return input;
+}
+
+/**
+ * 测量 16 位 PCM 的综合响度（ITU-R BS.1770-4）
+ * @param pcm 16 位小端 PCM 数据
+ * @param sampleRate 采样率
+ * @param channels 声道数（各声道权重均为 1）
+ * @returns 综合响度（LUFS），静音时返回 -Infinity
+ */
+export function measureLoudness(
+  pcm: Buffer,
+  sampleRate: number,
+  channels: number,
+): number {
+  const frameCount = Math.floor(pcm.length / (channels * 2));
+  if (!frameCount) return -Infinity;
+
+  // 按声道拆分为浮点信号并做 K 加权
+  const filters = kWeightingFilters(sampleRate);
+  const weighted: Float64Array[] = [];
+  for (let c = 0; c < channels; c++) {
+    const signal = new Float64Array(frameCount);
+    for (let i = 0; i < frameCount; i++) {
+      signal[i] = pcm.readInt16LE((i * channels + c) * 2) / 32768;
+    }
+    weighted.push(applyFilters(signal, filters));
+  }
+
+  // 按 400ms 块计算均方值，短于一个块时整段作为一个块
+  const blockFrames = Math.min(
+    frameCount,
+    Math.round((sampleRate * BLOCK_MS) / 1000),
+  );
+  const stepFrames = Math.round((sampleRate * STEP_MS) / 1000);
+  const blockPowers: number[] = [];
+  for (let start = 0; start + blockFrames <= frameCount; start += stepFrames) {
+    let power = 0;
+    for (const channel of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockFrames; i++) {
+        sum += channel[i] * channel[i];
+      }
+      power += sum / blockFrames;
+    }
+    blockPowers.push(power);
+  }
+
+  const toLoudness = (power: number) => -0.691 + 10 * Math.log10(power);
+  const gatedMean = (powers: number[]) =>
+    powers.reduce((sum, power) => sum + power, 0) / powers.length;
+
+  const aboveAbsolute = blockPowers.filter(
+    (power) => toLoudness(power) > ABSOLUTE_GATE,
+  );
+  if (!aboveAbsolute.length) return -Infinity;
+
+  const relativeGate = toLoudness(gatedMean(aboveAbsolute)) + RELATIVE_GATE;
+  const aboveRelative = aboveAbsolute.filter(
+    (power) => toLoudness(power) > relativeGate,
+  );
+  return toLoudness(gatedMean(aboveRelative));
+}
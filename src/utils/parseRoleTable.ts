@@ -0,0 +1,50 @@
+/**
+ * 从影片角色表文本中提取角色名
+ * 兼容 JSON 数组、Markdown 表格（取第一列）以及「角色名：描述」「- 角色名」逐行格式
+ * @param text 角色表文本（sys_film_library.role_table_text）
+ * @returns 去重后的角色名列表
+ */
+export function parseRoleTable(text: string | null | undefined): string[] {
+  if (!text?.trim()) return [];
+
+  const names: string[] = [];
+  const add = (value: unknown) => {
+    const name = typeof value === 'string' ? value.trim() : '';
+    if (name && name.length <= 30 && !names.includes(name)) names.push(name);
+  };
+
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (Array.isArray(parsed)) {
+      for (const item of parsed) {
+        if (typeof item === 'string') {
+          add(item);
+        } else if (item && typeof item === 'object') {
+          const record = item as Record<string, unknown>;
+          add(record.name ?? record.role ?? record['角色'] ?? record['角色名']);
+        }
+      }
+      return names;
+    }
+  } catch {
+    // 不是 JSON，按文本格式解析
+  }
+
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+  const tableRows = lines.filter((line) => line.startsWith('|'));
+
+  if (tableRows.length >= 2) {
+    // 跳过表头和分隔行
+    for (const row of tableRows.slice(1)) {
+      if (/^\|[\s:|-]+\|?$/.test(row)) continue;
+      add(row.split('|')[1]?.replace(/\*\*/g, ''));
+    }
+    return names;
+  }
+
+  for (const line of lines) {
+    const matched = /^(?:[-*•]|\d+[.、)])?\s*([^：:，,\s（(]+)/.exec(line);
+    if (matched) add(matched[1].replace(/\*\*/g, ''));
+  }
+  return names;
+}
@@ -0,0 +1,98 @@
+import { parseWavBuffer } from './parseWavBuffer';
+
+/** 构造 WAV 文件，可插入额外子块并指定 data 块长度字段 */
+function buildWav(
+  pcm: Buffer,
+  options: {
+    sampleRate?: number;
+    channels?: number;
+    bitDepth?: number;
+    dataSize?: number;
+    extraChunk?: Buffer;
+  } = {},
+): Buffer {
+  const { sampleRate = 24000, channels = 1, bitDepth = 16 } = options;
+  const fmt = Buffer.alloc(24);
+  fmt.write('fmt ', 0, 'ascii');
+  fmt.writeUInt32LE(16, 4);
+  fmt.writeUInt16LE(1, 8);
+  fmt.writeUInt16LE(channels, 10);
+  fmt.writeUInt32LE(sampleRate, 12);
+  fmt.writeUInt32LE((sampleRate * channels * bitDepth) / 8, 16);
+  fmt.writeUInt16LE((channels * bitDepth) / 8, 20);
+  fmt.writeUInt16LE(bitDepth, 22);
+
+  const dataHeader = Buffer.alloc(8);
+  dataHeader.write('data', 0, 'ascii');
+  dataHeader.writeUInt32LE(options.dataSize ?? pcm.length, 4);
+
+  const body = Buffer.concat([
+    fmt,
+    options.extraChunk ?? Buffer.alloc(0),
+    dataHeader,
+    pcm,
+  ]);
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WAVE', 8, 'ascii');
+  return Buffer.concat([header, body]);
+}
+
+describe('parseWavBuffer', () => {
+  const pcm = Buffer.alloc(4800); // 24kHz 单声道 16 位，100ms
+
+  it('reads format and PCM data', () => {
+    const result = parseWavBuffer(buildWav(pcm));
+
+    expect(result).toMatchObject({
+      channels: 1,
+      sampleRate: 24000,
+      bitDepth: 16,
+      durationMs: 100,
+    });
+    expect(result.pcm.length).toBe(4800);
+  });
+
+  it('reads to the end of the file when the data size is zero', () => {
+    const result = parseWavBuffer(buildWav(pcm, { dataSize: 0 }));
+
+    expect(result.pcm.length).toBe(4800);
+  });
+
+  it('reads to the end of the file when the data size overruns it', () => {
+    const result = parseWavBuffer(buildWav(pcm, { dataSize: 0xffffffff }));
+
+    expect(result.pcm.length).toBe(4800);
+  });
+
+  it('skips unknown chunks with odd sizes and padding', () => {
+    const list = Buffer.alloc(12);
+    list.write('LIST', 0, 'ascii');
+    list.writeUInt32LE(3, 4);
+
+    const result = parseWavBuffer(buildWav(pcm, { extraChunk: list }));
+
+    expect(result.pcm.length).toBe(4800);
+  });
+
+  it('computes duration from channels and bit depth', () => {
+    const result = parseWavBuffer(
+      buildWav(Buffer.alloc(19200), { sampleRate: 48000, channels: 2 }),
+    );
+
+    expect(result.durationMs).toBe(100);
+  });
+
+  it('rejects non-WAV input', () => {
+    expect(() => parseWavBuffer(Buffer.from('not a wav file'))).toThrow(
+      '不是有效的 WAV 文件',
+    );
+  });
+
+  it('rejects files without a data chunk', () => {
+    const wav = buildWav(pcm).subarray(0, 36);
+
+    expect(() => parseWavBuffer(wav)).toThrow('WAV 文件缺少 fmt 或 data 块');
+  });
+});
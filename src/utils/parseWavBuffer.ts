@@ -0,0 +1,68 @@
+/**
+ * 解析后的 WAV 数据
+ */
+export interface WavData {
+  channels: number; // 声道数
+  sampleRate: number; // 采样率
+  bitDepth: number; // 位深
+  pcm: Buffer; // 原始 PCM 数据（不含文件头）
+  durationMs: number; // 时长（毫秒）
+}
+
+/**
+ * 解析 WAV 文件，提取格式信息和 PCM 数据
+ * 兼容 data 块长度未写入（0 或超出文件长度）的流式 WAV
+ * @param buffer WAV 文件内容
+ */
+export function parseWavBuffer(buffer: Buffer): WavData {
+  if (
+    buffer.length < 12 ||
+    buffer.toString('ascii', 0, 4) !== 'RIFF' ||
+    buffer.toString('ascii', 8, 12) !== 'WAVE'
+  ) {
+    throw new Error('不是有效的 WAV 文件');
+  }
+
+  let channels = 0;
+  let sampleRate = 0;
+  let bitDepth = 0;
+  let pcm: Buffer | null = null;
+
+  // 逐个遍历 RIFF 子块，找到 fmt 和 data
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      channels = buffer.readUInt16LE(chunkStart + 2);
+      sampleRate = buffer.readUInt32LE(chunkStart + 4);
+      bitDepth = buffer.readUInt16LE(chunkStart + 14);
+    } else if (chunkId === 'data') {
+      const end =
+        chunkSize === 0 || chunkStart + chunkSize > buffer.length
+          ? buffer.length
+          : chunkStart + chunkSize;
+      pcm = buffer.subarray(chunkStart, end);
+      break;
+    }
+
+    // 子块按偶数字节对齐
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  if (!pcm || !channels || !sampleRate || !bitDepth) {
+    throw new Error('WAV 文件缺少 fmt 或 data 块');
+  }
+
+  const bytesPerSecond = sampleRate * channels * (bitDepth / 8);
+
+  return {
+    channels,
+    sampleRate,
+    bitDepth,
+    pcm,
+    durationMs: Math.round((pcm.length / bytesPerSecond) * 1000),
+  };
+}
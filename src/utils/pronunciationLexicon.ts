@@ -0,0 +1,126 @@
+/**
+ * 发音词典条目
+ */
+export interface LexiconEntry {
+  term: string; // 需要纠正发音的词语（角色名、剧集专有名词等）
+  respelling?: string; // 读音替换文本，用于不支持音标的提供商（Gemini）
+  phoneme?: string; // SSML 音标（VertexAI）
+  alphabet?: string; // 音标字母表，ipa 或 x-sampa
+  pronunciation?: string; // MiniMax 发音字典读音，如 (yan4)(qing1)
+}
+
+/**
+ * 转义正则表达式特殊字符
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 转义 XML 特殊字符
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * 在文本中查找词条并逐段替换，长词优先，替换结果不会被再次匹配
+ * @param text 原始文本
+ * @param entries 词条列表
+ * @param replace 命中词条时的替换函数
+ * @param escape 未命中部分的转义函数
+ */
+function replaceTerms(
+  text: string,
+  entries: LexiconEntry[],
+  replace: (entry: LexiconEntry) => string,
+  escape: (value: string) => string = (value) => value,
+): string {
+  if (!entries.length) return escape(text);
+
+  const byTerm = new Map(entries.map((entry) => [entry.term, entry]));
+  const pattern = new RegExp(
+    [...byTerm.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|'),
+    'g',
+  );
+
+  let result = '';
+  let cursor = 0;
+  for (const match of text.matchAll(pattern)) {
+    result += escape(text.slice(cursor, match.index));
+    result += replace(byTerm.get(match[0])!);
+    cursor = match.index + match[0].length;
+  }
+  return result + escape(text.slice(cursor));
+}
+
+/**
+ * 筛选文本中出现的词条
+ * @param text 要合成的文本
+ * @param entries 词典
+ */
+export function matchLexicon(
+  text: string,
+  entries: LexiconEntry[],
+): LexiconEntry[] {
+  return entries.filter((entry) => entry.term && text.includes(entry.term));
+}
+
+/**
+ * 用读音替换文本替换词条（Gemini 等纯文本提供商）
+ * @param text 要合成的文本
+ * @param entries 词典
+ */
+export function applyRespelling(text: string, entries: LexiconEntry[]): string {
+  return replaceTerms(
+    text,
+    matchLexicon(text, entries).filter((entry) => entry.respelling),
+    (entry) => entry.respelling!,
+  );
+}
+
+/**
+ * 生成 MiniMax 发音字典，格式为 词语/(拼音)
+ * @param text 要合成的文本
+ * @param entries 词典
+ */
+export function buildMinimaxPronunciationDict(
+  text: string,
+  entries: LexiconEntry[],
+): string[] {
+  return matchLexicon(text, entries)
+    .filter((entry) => entry.pronunciation)
+    .map((entry) => `${entry.term}/${entry.pronunciation}`);
+}
+
+/**
+ * 生成带发音标注的 SSML（VertexAI）
+ * 有音标的词条使用 phoneme 标签，只有读音替换文本的词条使用 sub 标签
+ * @param text 要合成的文本
+ * @param entries 词典
+ */
+export function buildLexiconSsml(
+  text: string,
+  entries: LexiconEntry[],
+): string {
+  const body = replaceTerms(
+    text,
+    matchLexicon(text, entries).filter(
+      (entry) => entry.phoneme || entry.respelling,
+    ),
+    (entry) =>
+      entry.phoneme
+        ? `<phoneme alphabet="${escapeXml(entry.alphabet || 'ipa')}" ph="${escapeXml(entry.phoneme)}">${escapeXml(entry.term)}</phoneme>`
+        : `<sub alias="${escapeXml(entry.respelling!)}">${escapeXml(entry.term)}</sub>`,
+    escapeXml,
+  );
+  return `<speak>${body}</speak>`;
+}
@@ -0,0 +1,55 @@
+import { resamplePcm16 } from './resamplePcm16';
+
+/** 16 位样本数组转为 PCM */
+function toPcm(samples: number[]): Buffer {
+  const buffer = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => buffer.writeInt16LE(sample, i * 2));
+  return buffer;
+}
+
+/** PCM 转为 16 位样本数组 */
+function fromPcm(buffer: Buffer): number[] {
+  const samples: number[] = [];
+  for (let i = 0; i + 1 < buffer.length; i += 2) {
+    samples.push(buffer.readInt16LE(i));
+  }
+  return samples;
+}
+
+describe('resamplePcm16', () => {
+  it('returns the input unchanged when the format matches', () => {
+    const pcm = toPcm([1, 2, 3]);
+
+    expect(resamplePcm16(pcm, 24000, 24000)).toBe(pcm);
+  });
+
+  it('upsamples with linear interpolation', () => {
+    const out = resamplePcm16(toPcm([0, 100]), 24000, 48000);
+
+    expect(fromPcm(out)).toEqual([0, 50, 100, 100]);
+  });
+
+  it('downsamples by dropping intermediate frames', () => {
+    const out = resamplePcm16(toPcm([0, 10, 20, 30]), 48000, 24000);
+
+    expect(fromPcm(out)).toEqual([0, 20]);
+  });
+
+  it('mixes stereo down to mono by averaging channels', () => {
+    const out = resamplePcm16(toPcm([100, 300, -200, 0]), 24000, 24000, 2, 1);
+
+    expect(fromPcm(out)).toEqual([200, -100]);
+  });
+
+  it('duplicates mono samples into every output channel', () => {
+    const out = resamplePcm16(toPcm([5, -5]), 24000, 24000, 1, 2);
+
+    expect(fromPcm(out)).toEqual([5, 5, -5, -5]);
+  });
+
+  it('ignores a trailing partial frame', () => {
+    const pcm = Buffer.concat([toPcm([100, 300]), Buffer.from([1])]);
+
+    expect(fromPcm(resamplePcm16(pcm, 24000, 24000, 2, 1))).toEqual([200]);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * 16 位 PCM 重采样与声道转换（线性插值）
+ * 用于拼接不同提供商返回的音频（Gemini 24kHz、MiniMax 32kHz 等）
+ * @param pcm 16 位小端 PCM 数据
+ * @param fromRate 原采样率
+ * @param toRate 目标采样率
+ * @param fromChannels 原声道数
+ * @param toChannels 目标声道数
+ */
+export function resamplePcm16(
+  pcm: Buffer,
+  fromRate: number,
+  toRate: number,
+  fromChannels = 1,
+  toChannels = 1,
+): Buffer {
+  if (fromRate === toRate && fromChannels === toChannels) {
+    return pcm;
+  }
+
+  // 先混音为单声道，便于统一处理
+  const frameCount = Math.floor(pcm.length / (2 * fromChannels));
+  const mono = new Float64Array(frameCount);
+  for (let i = 0; i < frameCount; i++) {
+    let sum = 0;
+    for (let c = 0; c < fromChannels; c++) {
+      sum += pcm.readInt16LE((i * fromChannels + c) * 2);
+    }
+    mono[i] = sum / fromChannels;
+  }
+
+  // 线性插值重采样
+  const outFrames = Math.floor((frameCount * toRate) / fromRate);
+  const out = Buffer.alloc(outFrames * toChannels * 2);
+  const ratio = fromRate / toRate;
+
+  for (let i = 0; i < outFrames; i++) {
+    const pos = i * ratio;
+    const index = Math.floor(pos);
+    const frac = pos - index;
+    const a = mono[index] ?? 0;
+    const b = mono[index + 1] ?? a;
+    const sample = Math.max(
+      -32768,
+      Math.min(32767, Math.round(a + (b - a) * frac)),
+    );
+    for (let c = 0; c < toChannels; c++) {
+      out.writeInt16LE(sample, (i * toChannels + c) * 2);
+    }
+  }
+
+  return out;
+}
@@ -0,0 +1,70 @@
+import { parseSpeakerSpans, stripSpeakerTags } from './speakerSpans';
+
+describe('parseSpeakerSpans', () => {
+  it('returns the whole text as narration when there are no roles', () => {
+    expect(parseSpeakerSpans('【张三】你好。', [])).toEqual([
+      { speaker: null, text: '【张三】你好。' },
+    ]);
+  });
+
+  it('switches speaker at tags and back to the narrator at 【旁白】', () => {
+    expect(
+      parseSpeakerSpans('夜深了。【张三】我先走了。【旁白】门关上了。', [
+        '张三',
+      ]),
+    ).toEqual([
+      { speaker: null, text: '夜深了。' },
+      { speaker: '张三', text: '我先走了。' },
+      { speaker: null, text: '门关上了。' },
+    ]);
+  });
+
+  it('accepts square bracket tags', () => {
+    expect(parseSpeakerSpans('[张三] 我来了。', ['张三'])).toEqual([
+      { speaker: '张三', text: '我来了。' },
+    ]);
+  });
+
+  it('reads only the quoted line for 张三：“…”', () => {
+    expect(parseSpeakerSpans('张三：“快跑！”大家愣住了。', ['张三'])).toEqual([
+      { speaker: '张三', text: '快跑！' },
+      { speaker: null, text: '大家愣住了。' },
+    ]);
+  });
+
+  it('keeps the speech verb for the narrator in 张三说：“…”', () => {
+    expect(parseSpeakerSpans('他回头，张三说：“走吧。”', ['张三'])).toEqual([
+      { speaker: null, text: '他回头，张三说：' },
+      { speaker: '张三', text: '走吧。' },
+    ]);
+  });
+
+  it('prefers the longest matching role name', () => {
+    expect(
+      parseSpeakerSpans('张三丰：“看招。”张三：“好。”', ['张三', '张三丰']),
+    ).toEqual([
+      { speaker: '张三丰', text: '看招。' },
+      { speaker: '张三', text: '好。' },
+    ]);
+  });
+
+  it('treats brackets and quotes of unknown names as plain text', () => {
+    expect(parseSpeakerSpans('【李四】王五：“嗯。”', ['张三'])).toEqual([
+      { speaker: null, text: '【李四】王五：“嗯。”' },
+    ]);
+  });
+
+  it('merges adjacent spans of the same speaker', () => {
+    expect(parseSpeakerSpans('【张三】你好。【张三】再见。', ['张三'])).toEqual(
+      [{ speaker: '张三', text: '你好。再见。' }],
+    );
+  });
+});
+
+describe('stripSpeakerTags', () => {
+  it('removes tags and keeps the spoken text', () => {
+    expect(
+      stripSpeakerTags('【张三】我先走了。【旁白】门关上了。', ['张三']),
+    ).toBe('我先走了。门关上了。');
+  });
+});
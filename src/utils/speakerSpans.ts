@@ -0,0 +1,89 @@
+/**
+ * 按说话人切分的文本片段
+ */
+export interface SpeakerSpan {
+  speaker: string | null; // 角色名，null 表示旁白
+  text: string; // 片段文本
+}
+
+/** 切回旁白声音的标签名 */
+const NARRATOR_TAGS = ['旁白', 'narrator'];
+
+/** 台词引语前的说话动词，如「张三说：“……”」 */
+const SPEECH_VERBS = '说道|说|道|问道|问|喊道|喊|回答|答';
+
+/**
+ * 转义正则表达式特殊字符
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 按说话人标签和角色台词切分旁白文本
+ * 支持两种写法：
+ * - 说话人标签：【张三】或 [张三]，之后的文本由该角色朗读，直到下一个标签；【旁白】切回旁白
+ * - 台词引语：张三：“……” 只朗读引号内的台词；张三说：“……” 保留「张三说：」由旁白朗读
+ * 只识别给定的角色名，其余括号和引号按普通文本处理
+ * @param text 旁白文本
+ * @param roles 角色名列表
+ */
+export function parseSpeakerSpans(
+  text: string,
+  roles: string[],
+): SpeakerSpan[] {
+  const names = roles
+    .filter((role) => role.trim())
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  if (!names.length) return [{ speaker: null, text }];
+
+  const tagNames = [...names, ...NARRATOR_TAGS].join('|');
+  const pattern = new RegExp(
+    `[【\\[](${tagNames})[】\\]]\\s*` +
+      `|(${names.join('|')})(${SPEECH_VERBS})?[：:]\\s*[“"「]([^”"」]*)[”"」]`,
+    'g',
+  );
+
+  const spans: SpeakerSpan[] = [];
+  const push = (speaker: string | null, value: string) => {
+    if (!value.trim()) return;
+    const last = spans[spans.length - 1];
+    if (last && last.speaker === speaker) {
+      last.text += value;
+    } else {
+      spans.push({ speaker, text: value });
+    }
+  };
+
+  let current: string | null = null;
+  let cursor = 0;
+  for (const match of text.matchAll(pattern)) {
+    push(current, text.slice(cursor, match.index));
+    cursor = match.index + match[0].length;
+
+    const [, tag, role, verb, line] = match;
+    if (tag) {
+      current = NARRATOR_TAGS.includes(tag) ? null : tag;
+      continue;
+    }
+    if (verb) push(current, `${role}${verb}：`);
+    push(role, line);
+  }
+  push(current, text.slice(cursor));
+
+  return spans.length ? spans : [{ speaker: null, text }];
+}
+
+/**
+ * 去除说话人标签，得到实际朗读的文本（用于字幕等）
+ * @param text 旁白文本
+ * @param roles 角色名列表
+ */
+export function stripSpeakerTags(text: string, roles: string[]): string {
+  if (!roles.length) return text;
+  return parseSpeakerSpans(text, roles)
+    .map((span) => span.text)
+    .join('')
+    .trim();
+}
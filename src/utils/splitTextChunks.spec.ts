@@ -0,0 +1,71 @@
+import { splitTextChunks } from './splitTextChunks';
+
+describe('splitTextChunks', () => {
+  it('returns short text as a single chunk', () => {
+    expect(splitTextChunks('你好。', 10)).toEqual(['你好。']);
+  });
+
+  it('splits at sentence punctuation', () => {
+    expect(splitTextChunks('第一句。第二句！第三句？', 5)).toEqual([
+      '第一句。',
+      '第二句！',
+      '第三句？',
+    ]);
+  });
+
+  it('keeps closing quotes with the sentence they end', () => {
+    expect(splitTextChunks('他说：“走吧。”然后离开了。', 8)).toEqual([
+      '他说：“走吧。”',
+      '然后离开了。',
+    ]);
+  });
+
+  it('splits English sentences only at a period followed by whitespace', () => {
+    expect(splitTextChunks('Version 2.5 is out. Next one soon.', 20)).toEqual([
+      'Version 2.5 is out.',
+      'Next one soon.',
+    ]);
+  });
+
+  it('falls back to clause boundaries for long sentences', () => {
+    expect(splitTextChunks('一二三四，五六七八，九十', 6)).toEqual([
+      '一二三四，',
+      '五六七八，',
+      '九十',
+    ]);
+  });
+
+  it('hard splits text without any boundary', () => {
+    expect(splitTextChunks('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+
+  it('never exceeds the maximum length and preserves the text', () => {
+    const text =
+      '今天天气很好，我们去公园散步吧。公园里有很多人，有的在跑步，有的在下棋！';
+    const chunks = splitTextChunks(text, 10);
+
+    expect(chunks.every((chunk) => chunk.length <= 10)).toBe(true);
+    expect(chunks.join('')).toBe(text);
+  });
+
+  it('measures chunks with the given function', () => {
+    const bytes = (chunk: string) => Buffer.byteLength(chunk);
+    const chunks = splitTextChunks('第一句。第二句。第三句。', 24, bytes);
+
+    expect(chunks).toEqual(['第一句。第二句。', '第三句。']);
+    expect(chunks.every((chunk) => bytes(chunk) <= 24)).toBe(true);
+  });
+
+  it('hard splits by the given measure without breaking surrogate pairs', () => {
+    const bytes = (chunk: string) => Buffer.byteLength(chunk);
+
+    expect(splitTextChunks('😀😀😀', 8, bytes)).toEqual(['😀😀', '😀']);
+  });
+
+  it('trims whitespace at chunk boundaries', () => {
+    expect(splitTextChunks('First one. Second one.  ', 12)).toEqual([
+      'First one.',
+      'Second one.',
+    ]);
+  });
+});
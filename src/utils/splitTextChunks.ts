@@ -0,0 +1,88 @@
+/** 句末标点（含其后的右引号/右括号）之后的切分点；英文句点只在其后有空白时切分 */
+const SENTENCE_BOUNDARY =
+  /(?<=[。！？!?；;…\n]["”’」』)）]*)(?![。！？!?；;…"”’」』)）])|(?<=\.["”’)]*\s+)/;
+
+/** 句子过长时退而求其次的切分点：逗号、顿号、冒号及空白之后 */
+const CLAUSE_BOUNDARY = /(?<=[，,、：:])|(?<=\s)(?=\S)/;
+
+/** 计算文本块长度的函数 */
+export type ChunkMeasure = (chunk: string) => number;
+
+/**
+ * 按最大长度合并片段，相邻片段合并后超长时另起一块
+ */
+function packPieces(
+  pieces: string[],
+  maxLength: number,
+  measure: ChunkMeasure,
+): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    if (measure(current + piece) <= maxLength) {
+      current += piece;
+      continue;
+    }
+    if (current) chunks.push(current);
+    current = piece;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * 没有切分点的超长文本按字符硬切，不会切开代理对
+ */
+function hardSplit(
+  text: string,
+  maxLength: number,
+  measure: ChunkMeasure,
+): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of text) {
+    if (current && measure(current + char) > maxLength) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/**
+ * 将长文本按句子边界切分为不超过最大长度的块，用于分批语音合成
+ * 切分时保留原文的标点，块首尾的空白去除、只有空白的块丢弃，
+ * 因此块按顺序拼接后与原文只在切分处的空白上有差异
+ * @param text 原始文本
+ * @param maxLength 每块最大长度
+ * @param measure 计算块长度的函数，默认按 UTF-16 字符数；按字节计上限的提供商传入字节数计算
+ */
+export function splitTextChunks(
+  text: string,
+  maxLength: number,
+  measure: ChunkMeasure = (chunk) => chunk.length,
+): string[] {
+  if (measure(text) <= maxLength) return [text];
+
+  const pieces = text.split(SENTENCE_BOUNDARY).flatMap((sentence) => {
+    if (measure(sentence) <= maxLength) return [sentence];
+
+    // 超长句子按分句切分，仍超长的分句硬切
+    return packPieces(
+      sentence.split(CLAUSE_BOUNDARY),
+      maxLength,
+      measure,
+    ).flatMap((clause) =>
+      measure(clause) <= maxLength
+        ? [clause]
+        : hardSplit(clause, maxLength, measure),
+    );
+  });
+
+  return packPieces(pieces, maxLength, measure)
+    .map((chunk) => chunk.trim())
+    .filter((chunk) => chunk.length > 0);
+}
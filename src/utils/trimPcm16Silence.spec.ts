@@ -0,0 +1,75 @@
+import { trimPcm16Silence } from './trimPcm16Silence';
+
+/** 采样率 1kHz，10ms 检测窗口对应 10 帧 */
+const SAMPLE_RATE = 1000;
+
+/**
+ * 生成 16 位 PCM，指定帧区间内的指定声道为响亮的方波，其余为静音
+ */
+function buildPcm(
+  frameCount: number,
+  channels: number,
+  loud: [number, number][],
+  loudChannel = 0,
+): Buffer {
+  const pcm = Buffer.alloc(frameCount * channels * 2);
+  for (const [from, to] of loud) {
+    for (let i = from; i < to; i++) {
+      const sample = i % 2 ? 10000 : -10000;
+      pcm.writeInt16LE(sample, (i * channels + loudChannel) * 2);
+    }
+  }
+  return pcm;
+}
+
+describe('trimPcm16Silence', () => {
+  it('returns the input unchanged when it is all silence', () => {
+    const pcm = buildPcm(200, 1, []);
+
+    expect(trimPcm16Silence(pcm, SAMPLE_RATE, 1, -40, 20)).toBe(pcm);
+  });
+
+  it('trims leading and trailing silence and keeps the padding', () => {
+    const pcm = buildPcm(200, 1, [[100, 120]]);
+
+    const trimmed = trimPcm16Silence(pcm, SAMPLE_RATE, 1, -40, 20);
+
+    expect(trimmed.length).toBe(60 * 2);
+    expect(trimmed).toEqual(pcm.subarray(80 * 2, 140 * 2));
+  });
+
+  it('clamps padding that runs past the start', () => {
+    const pcm = buildPcm(200, 1, [[0, 20]]);
+
+    const trimmed = trimPcm16Silence(pcm, SAMPLE_RATE, 1, -40, 30);
+
+    expect(trimmed).toEqual(pcm.subarray(0, 50 * 2));
+  });
+
+  it('clamps padding that runs past the end', () => {
+    const pcm = buildPcm(200, 1, [[180, 200]]);
+
+    const trimmed = trimPcm16Silence(pcm, SAMPLE_RATE, 1, -40, 30);
+
+    expect(trimmed).toEqual(pcm.subarray(150 * 2, 200 * 2));
+  });
+
+  it('keeps quiet gaps between loud parts', () => {
+    const pcm = buildPcm(300, 1, [
+      [50, 60],
+      [200, 210],
+    ]);
+
+    const trimmed = trimPcm16Silence(pcm, SAMPLE_RATE, 1, -40, 0);
+
+    expect(trimmed).toEqual(pcm.subarray(50 * 2, 210 * 2));
+  });
+
+  it('cuts on frame boundaries for multi-channel audio', () => {
+    const pcm = buildPcm(200, 2, [[100, 120]], 1);
+
+    const trimmed = trimPcm16Silence(pcm, SAMPLE_RATE, 2, -40, 20);
+
+    expect(trimmed).toEqual(pcm.subarray(80 * 4, 140 * 4));
+  });
+});
@@ -0,0 +1,61 @@
+/** 检测静音使用的窗口时长（毫秒） */
+const WINDOW_MS = 10;
+
+/**
+ * 裁剪 16 位 PCM 首尾的静音
+ * 按短窗口计算 RMS，找到第一个和最后一个高于阈值的窗口，两端各保留一段余量
+ * @param pcm 16 位小端 PCM 数据
+ * @param sampleRate 采样率
+ * @param channels 声道数
+ * @param thresholdDb 静音阈值（dBFS），RMS 低于该值视为静音
+ * @param paddingMs 首尾保留的余量（毫秒）
+ * @returns 裁剪后的 PCM 数据，整段静音时原样返回
+ */
+export function trimPcm16Silence(
+  pcm: Buffer,
+  sampleRate: number,
+  channels: number,
+  thresholdDb: number,
+  paddingMs: number,
+): Buffer {
+  const frameBytes = channels * 2;
+  const frameCount = Math.floor(pcm.length / frameBytes);
+  const windowFrames = Math.max(1, Math.round((sampleRate * WINDOW_MS) / 1000));
+  const threshold = 32768 * Math.pow(10, thresholdDb / 20);
+
+  const isLoud = (start: number): boolean => {
+    const end = Math.min(start + windowFrames, frameCount);
+    let sum = 0;
+    for (let i = start * channels; i < end * channels; i++) {
+      const sample = pcm.readInt16LE(i * 2);
+      sum += sample * sample;
+    }
+    return Math.sqrt(sum / ((end - start) * channels)) >= threshold;
+  };
+
+  let first = -1;
+  for (let start = 0; start < frameCount; start += windowFrames) {
+    if (isLoud(start)) {
+      first = start;
+      break;
+    }
+  }
+  if (first === -1) return pcm;
+
+  let last = first;
+  for (
+    let start = Math.floor((frameCount - 1) / windowFrames) * windowFrames;
+    start > first;
+    start -= windowFrames
+  ) {
+    if (isLoud(start)) {
+      last = start;
+      break;
+    }
+  }
+
+  const paddingFrames = Math.round((sampleRate * paddingMs) / 1000);
+  const from = Math.max(0, first - paddingFrames);
+  const to = Math.min(frameCount, last + windowFrames + paddingFrames);
+  return pcm.subarray(from * frameBytes, to * frameBytes);
+}